@@ -33,6 +33,7 @@ export default function RootLayout() {
               <Stack.Screen name="gallery" options={{ headerShown: false }} />
               <Stack.Screen name="processing" options={{ headerShown: false }} />
               <Stack.Screen name="results" options={{ headerShown: false }} />
+              <Stack.Screen name="carousel" options={{ headerShown: false }} />
               <Stack.Screen name="+not-found" />
             </Stack>
           </ThemeProvider>
@@ -0,0 +1,5 @@
+import CarouselScreen from '../screens/CarouselScreen';
+
+export default function Carousel() {
+  return <CarouselScreen />;
+}
\ No newline at end of file
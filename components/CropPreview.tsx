@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import type { CropRect } from '../services/imaging/smartCrop';
+
+interface CropPreviewProps {
+  imageUri: string;
+  imageWidth: number;
+  imageHeight: number;
+  crop: CropRect;
+}
+
+export default function CropPreview({ imageUri, imageWidth, imageHeight, crop }: CropPreviewProps) {
+  const left = (crop.x / imageWidth) * 100;
+  const top = (crop.y / imageHeight) * 100;
+  const width = (crop.width / imageWidth) * 100;
+  const height = (crop.height / imageHeight) * 100;
+
+  return (
+    <View style={[styles.container, { aspectRatio: imageWidth / imageHeight }]}>
+      <Image source={{ uri: imageUri }} style={StyleSheet.absoluteFill} contentFit="fill" />
+
+      {/* Dim everything outside the crop window */}
+      <View style={[styles.shade, { left: 0, top: 0, right: 0, height: `${top}%` }]} />
+      <View style={[styles.shade, { left: 0, bottom: 0, right: 0, height: `${100 - top - height}%` }]} />
+      <View style={[styles.shade, { left: 0, top: `${top}%`, width: `${left}%`, height: `${height}%` }]} />
+      <View
+        style={[
+          styles.shade,
+          { right: 0, top: `${top}%`, width: `${100 - left - width}%`, height: `${height}%` },
+        ]}
+      />
+
+      <View
+        style={[
+          styles.frame,
+          { left: `${left}%`, top: `${top}%`, width: `${width}%`, height: `${height}%` },
+        ]}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#F2F2F7',
+  },
+  shade: {
+    position: 'absolute',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  frame: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+});
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import type { DifferenceMode } from '../services/imaging/difference';
+
+interface DifferenceOverlayProps {
+  imageUrl: string;
+  heatmaps: Record<DifferenceMode, string>;
+  aspectRatio: number; // width / height
+}
+
+const MODES: { key: DifferenceMode; label: string; legend: { color: string; label: string }[] }[] = [
+  {
+    key: 'deltaE',
+    label: 'Overall',
+    legend: [
+      { color: '#007AFF', label: 'Subtle' },
+      { color: '#FFCC00', label: 'Clear' },
+      { color: '#FF3B30', label: 'Strong' },
+    ],
+  },
+  {
+    key: 'luma',
+    label: 'Brightness',
+    legend: [
+      { color: '#FF9500', label: 'Brighter' },
+      { color: '#007AFF', label: 'Darker' },
+    ],
+  },
+  {
+    key: 'color',
+    label: 'Color Shift',
+    legend: [{ color: '#AF52DE', label: 'Tinted toward the shown hue' }],
+  },
+];
+
+/**
+ * Enhanced image with a difference heatmap on top. Untouched areas stay
+ * transparent, so only the changed regions are highlighted.
+ */
+export default function DifferenceOverlay({ imageUrl, heatmaps, aspectRatio }: DifferenceOverlayProps) {
+  const [mode, setMode] = useState<DifferenceMode>('deltaE');
+  const [showImage, setShowImage] = useState(true);
+  const current = MODES.find((option) => option.key === mode)!;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.imageFrame, { aspectRatio }]}>
+        {showImage && (
+          <Image source={{ uri: imageUrl }} style={StyleSheet.absoluteFill} contentFit="cover" />
+        )}
+        <Image source={{ uri: heatmaps[mode] }} style={StyleSheet.absoluteFill} contentFit="cover" />
+      </View>
+
+      <View style={styles.controls}>
+        {MODES.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.chip, mode === option.key && styles.chipActive]}
+            onPress={() => setMode(option.key)}
+          >
+            <Text style={[styles.chipText, mode === option.key && styles.chipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.chip, !showImage && styles.chipActive]}
+          onPress={() => setShowImage(!showImage)}
+        >
+          <Text style={[styles.chipText, !showImage && styles.chipTextActive]}>Map Only</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.legend}>
+        {current.legend.map((item) => (
+          <View key={item.label} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: item.color }]} />
+            <Text style={styles.legendText}>{item.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+  },
+  imageFrame: {
+    width: '100%',
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: '#1C1C1E',
+  },
+  controls: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#1C1C1E',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+});
@@ -21,6 +21,7 @@ interface ImageGridProps {
   onRefresh?: () => void;
   refreshing?: boolean;
   emptyMessage?: string;
+  pickedIds?: Set<string>; // marked as the recommended shot of their group
 }
 
 export default function ImageGrid({
@@ -30,6 +31,7 @@ export default function ImageGrid({
   onRefresh,
   refreshing = false,
   emptyMessage = "No images yet",
+  pickedIds,
 }: ImageGridProps) {
   // Calculate item size for 2 columns with proper spacing
   const horizontalPadding = 20; // Padding on left and right sides
@@ -117,6 +119,14 @@ export default function ImageGrid({
           </View>
         </View>
 
+        {/* Recommended pick */}
+        {pickedIds?.has(item.id) && (
+          <View style={styles.pickBadge}>
+            <Ionicons name="star" size={12} color="white" />
+            <Text style={styles.pickBadgeText}>Best</Text>
+          </View>
+        )}
+
         {/* Processing indicator */}
         {(item.status === "analyzing" || item.status === "processing") && (
           <View style={styles.processingOverlay}>
@@ -208,6 +218,23 @@ const styles = StyleSheet.create({
     alignItems: "center",
     backgroundColor: "rgba(0, 0, 0, 0.6)",
   },
+  pickBadge: {
+    position: "absolute",
+    top: 8,
+    left: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "#FF9500",
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  pickBadgeText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "white",
+  },
   processingOverlay: {
     position: "absolute",
     bottom: 8,
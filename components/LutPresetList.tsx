@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { EditingEngine } from '../services/editingEngine';
+import type { LutPreset } from '../services/lutPresets';
+
+interface LutPresetListProps {
+  presets: LutPreset[];
+  previewSourceUri: string | null;
+  intensity: number;
+  importing?: boolean;
+  disabled?: boolean;
+  onSelect: (preset: LutPreset) => void;
+  onImport: () => void;
+  onDelete?: (preset: LutPreset) => void;
+}
+
+function LutPreview({
+  preset,
+  sourceUri,
+  intensity,
+}: {
+  preset: LutPreset;
+  sourceUri: string | null;
+  intensity: number;
+}) {
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!sourceUri) return;
+
+    let cancelled = false;
+    const editingEngine = new EditingEngine();
+
+    editingEngine
+      .previewPreset(sourceUri, preset, intensity)
+      .then((result) => {
+        if (!cancelled) setPreviewUri(result.uri);
+      })
+      .catch((error) => {
+        console.error('LUT preview failed:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [preset, sourceUri, intensity]);
+
+  if (failed) {
+    return (
+      <View style={styles.previewPlaceholder}>
+        <Ionicons name="alert-circle" size={20} color="#FF3B30" />
+      </View>
+    );
+  }
+
+  if (!previewUri) {
+    return (
+      <View style={styles.previewPlaceholder}>
+        <ActivityIndicator size="small" color="#8E8E93" />
+      </View>
+    );
+  }
+
+  return <Image source={{ uri: previewUri }} style={styles.previewImage} contentFit="cover" />;
+}
+
+export default function LutPresetList({
+  presets,
+  previewSourceUri,
+  intensity,
+  importing = false,
+  disabled = false,
+  onSelect,
+  onImport,
+  onDelete,
+}: LutPresetListProps) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.listContent}
+    >
+      <TouchableOpacity
+        style={styles.importTile}
+        onPress={onImport}
+        disabled={importing || disabled}
+      >
+        {importing ? (
+          <ActivityIndicator size="small" color="#007AFF" />
+        ) : (
+          <Ionicons name="add" size={28} color="#007AFF" />
+        )}
+        <Text style={styles.importText}>Import .cube</Text>
+      </TouchableOpacity>
+
+      {presets.map((preset) => (
+        <TouchableOpacity
+          key={preset.id}
+          style={styles.presetTile}
+          onPress={() => onSelect(preset)}
+          onLongPress={onDelete ? () => onDelete(preset) : undefined}
+          disabled={disabled}
+        >
+          <LutPreview preset={preset} sourceUri={previewSourceUri} intensity={intensity} />
+          <Text style={styles.presetName} numberOfLines={1}>
+            {preset.name}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    gap: 12,
+    paddingVertical: 4,
+  },
+  importTile: {
+    width: 80,
+    height: 104,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 4,
+  },
+  importText: {
+    fontSize: 11,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  presetTile: {
+    width: 80,
+    alignItems: 'center',
+  },
+  previewImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 12,
+  },
+  previewPlaceholder: {
+    width: 80,
+    height: 80,
+    borderRadius: 12,
+    backgroundColor: '#F2F2F7',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  presetName: {
+    fontSize: 12,
+    color: '#1C1C1E',
+    fontWeight: '500',
+    marginTop: 6,
+  },
+});
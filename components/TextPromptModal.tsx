@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+
+interface TextPromptModalProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  placeholder?: string;
+  initialValue?: string;
+  submitLabel?: string;
+  multiline?: boolean;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Cross-platform replacement for Alert.prompt, which only exists on iOS.
+ */
+export default function TextPromptModal({
+  visible,
+  title,
+  message,
+  placeholder,
+  initialValue = '',
+  submitLabel = 'Save',
+  multiline = false,
+  onSubmit,
+  onCancel,
+}: TextPromptModalProps) {
+  const [value, setValue] = useState(initialValue);
+
+  useEffect(() => {
+    if (visible) setValue(initialValue);
+  }, [visible, initialValue]);
+
+  const canSubmit = value.trim().length > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.dialog}>
+          <Text style={styles.title}>{title}</Text>
+          {message && <Text style={styles.message}>{message}</Text>}
+
+          <TextInput
+            style={[styles.input, multiline && styles.inputMultiline]}
+            value={value}
+            onChangeText={setValue}
+            placeholder={placeholder}
+            placeholderTextColor="#C7C7CC"
+            autoFocus
+            autoCapitalize={multiline ? 'none' : 'sentences'}
+            autoCorrect={!multiline}
+            multiline={multiline}
+          />
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.button} onPress={onCancel}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => onSubmit(value.trim())}
+              disabled={!canSubmit}
+            >
+              <Text style={[styles.submitText, !canSubmit && styles.submitTextDisabled]}>
+                {submitLabel}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  dialog: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1C1C1E',
+    backgroundColor: '#F2F2F7',
+  },
+  inputMultiline: {
+    minHeight: 96,
+    fontSize: 13,
+    textAlignVertical: 'top',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    fontWeight: '600',
+  },
+  submitText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  submitTextDisabled: {
+    color: '#C7C7CC',
+  },
+});
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { UserEditingPreset } from '../services/editingPresets';
+
+interface UserPresetListProps {
+  presets: UserEditingPreset[];
+  defaultPresetId?: string | null;
+  disabled?: boolean;
+  onApply: (preset: UserEditingPreset) => void;
+  onSaveCurrent: () => void;
+  onImport: () => void;
+  onSetDefault: (preset: UserEditingPreset) => void;
+  onDuplicate: (preset: UserEditingPreset) => void;
+  onRename: (preset: UserEditingPreset) => void;
+  onShare: (preset: UserEditingPreset) => void;
+  onDelete: (preset: UserEditingPreset) => void;
+}
+
+export default function UserPresetList({
+  presets,
+  defaultPresetId,
+  disabled = false,
+  onApply,
+  onSaveCurrent,
+  onImport,
+  onSetDefault,
+  onDuplicate,
+  onRename,
+  onShare,
+  onDelete,
+}: UserPresetListProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = presets.find((preset) => preset.id === selectedId);
+
+  const actions: { icon: keyof typeof Ionicons.glyphMap; label: string; onPress: (preset: UserEditingPreset) => void }[] = [
+    { icon: 'star', label: 'Default', onPress: onSetDefault },
+    { icon: 'copy', label: 'Duplicate', onPress: onDuplicate },
+    { icon: 'pencil', label: 'Rename', onPress: onRename },
+    { icon: 'share-social', label: 'Share', onPress: onShare },
+    { icon: 'trash', label: 'Delete', onPress: onDelete },
+  ];
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {presets.map((preset) => (
+          <TouchableOpacity
+            key={preset.id}
+            style={[styles.chip, selectedId === preset.id && styles.chipSelected]}
+            onPress={() => onApply(preset)}
+            onLongPress={() => setSelectedId(selectedId === preset.id ? null : preset.id)}
+            disabled={disabled}
+          >
+            {preset.id === defaultPresetId && <Ionicons name="star" size={12} color="#FF9500" />}
+            <Text style={styles.chipText}>{preset.name}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.addChip} onPress={onSaveCurrent} disabled={disabled}>
+          <Ionicons name="add" size={14} color="#007AFF" />
+          <Text style={styles.addChipText}>Save Current</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.addChip} onPress={onImport} disabled={disabled}>
+          <Ionicons name="download" size={14} color="#007AFF" />
+          <Text style={styles.addChipText}>Import Code</Text>
+        </TouchableOpacity>
+      </View>
+
+      {selected ? (
+        <View style={styles.actionRow}>
+          {actions.map((action) => (
+            <TouchableOpacity
+              key={action.label}
+              style={styles.action}
+              onPress={() => {
+                setSelectedId(null);
+                action.onPress(selected);
+              }}
+              disabled={disabled}
+            >
+              <Ionicons
+                name={action.icon}
+                size={18}
+                color={action.label === 'Delete' ? '#FF3B30' : '#007AFF'}
+              />
+              <Text style={styles.actionText}>{action.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        presets.length > 0 && <Text style={styles.hint}>Long-press a preset for more options</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  chipSelected: {
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  addChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#007AFF',
+  },
+  addChipText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    padding: 8,
+    borderRadius: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  action: {
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: 4,
+  },
+  actionText: {
+    fontSize: 11,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+});
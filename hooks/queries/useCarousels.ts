@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '../useSupabase';
+import { carouselKeys, imageKeys } from '../../lib/database/keys';
+import { getUserCarousels, type Carousel } from '../../lib/database/queries/carousels';
+import { getCarouselImages, type Image } from '../../lib/database/queries/images';
+import { CarouselBuilder, type CarouselDraft } from '../../services/carouselBuilder';
+
+export const useUserCarouselsQuery = (userId: string, options = {}) => {
+  const supabase = useSupabase();
+
+  return useQuery({
+    queryKey: carouselKeys.byUser(userId),
+    queryFn: ({ signal }) => getUserCarousels(supabase, userId, signal),
+    enabled: !!userId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    ...options,
+  });
+};
+
+export const useCarouselImagesQuery = (carouselId: string, options = {}) => {
+  const supabase = useSupabase();
+
+  return useQuery({
+    queryKey: imageKeys.byCarousel(carouselId),
+    queryFn: ({ signal }) => getCarouselImages(supabase, carouselId, signal),
+    enabled: !!carouselId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    ...options,
+  });
+};
+
+export const useSaveCarouselMutation = () => {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, draft }: { userId: string; draft: CarouselDraft }) =>
+      new CarouselBuilder(supabase).saveCarousel(userId, draft),
+    onSuccess: ({ carousel, images }, { userId }) => {
+      queryClient.setQueryData(carouselKeys.byId(carousel.id), carousel);
+      queryClient.setQueryData(carouselKeys.byUser(userId), (old: Carousel[] | undefined) => {
+        if (!old) return [carousel];
+        return [carousel, ...old];
+      });
+      queryClient.setQueryData(imageKeys.byCarousel(carousel.id), images);
+
+      // Slides were created first to last, so the newest-first list gets them reversed
+      queryClient.setQueryData(imageKeys.byUser(userId), (old: Image[] | undefined) => {
+        const slides = [...images].reverse();
+        if (!old) return slides;
+        return [...slides, ...old];
+      });
+      images.forEach((image) => queryClient.setQueryData(imageKeys.byId(image.id), image));
+
+      queryClient.invalidateQueries({
+        queryKey: ['images', 'user', userId, 'status']
+      });
+      queryClient.invalidateQueries({
+        queryKey: ['images', 'user', userId, 'recent']
+      });
+    },
+  });
+};
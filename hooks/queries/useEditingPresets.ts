@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '../useSupabase';
+import { editingPresetKeys } from '../../lib/database/keys';
+import {
+  getUserEditingPresets,
+  createEditingPreset,
+  renameEditingPreset,
+  deleteEditingPreset,
+  type EditingPreset,
+  type EditingPresetInsert,
+} from '../../lib/database/queries/editing_presets';
+
+export const useUserEditingPresetsQuery = (userId: string, options = {}) => {
+  const supabase = useSupabase();
+  
+  return useQuery({
+    queryKey: editingPresetKeys.byUser(userId),
+    queryFn: ({ signal }) => getUserEditingPresets(supabase, userId, signal),
+    enabled: !!userId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    ...options,
+  });
+};
+
+const replacePreset = (updatedPreset: EditingPreset) => (old: EditingPreset[] | undefined) => {
+  if (!old) return [updatedPreset];
+  return old.map((preset) => 
+    preset.id === updatedPreset.id ? updatedPreset : preset
+  );
+};
+
+export const useCreateEditingPresetMutation = () => {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (preset: EditingPresetInsert) => createEditingPreset(supabase, preset),
+    onSuccess: (newPreset) => {
+      // Append to the user's preset list (ordered oldest first)
+      if (newPreset.user_id) {
+        queryClient.setQueryData(editingPresetKeys.byUser(newPreset.user_id), (old: EditingPreset[] | undefined) => {
+          if (!old) return [newPreset];
+          return [...old, newPreset];
+        });
+      }
+      
+      queryClient.setQueryData(editingPresetKeys.byId(newPreset.id), newPreset);
+    },
+  });
+};
+
+export const useRenameEditingPresetMutation = () => {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ presetId, name }: { presetId: string; name: string }) =>
+      renameEditingPreset(supabase, presetId, name),
+    onSuccess: (renamedPreset) => {
+      if (renamedPreset.user_id) {
+        queryClient.setQueryData(editingPresetKeys.byUser(renamedPreset.user_id), replacePreset(renamedPreset));
+      }
+      
+      queryClient.setQueryData(editingPresetKeys.byId(renamedPreset.id), renamedPreset);
+    },
+  });
+};
+
+export const useDeleteEditingPresetMutation = () => {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ presetId }: { presetId: string; userId: string }) =>
+      deleteEditingPreset(supabase, presetId),
+    onSuccess: (_, { presetId, userId }) => {
+      queryClient.setQueryData(editingPresetKeys.byUser(userId), (old: EditingPreset[] | undefined) => {
+        if (!old) return [];
+        return old.filter((preset) => preset.id !== presetId);
+      });
+      
+      queryClient.removeQueries({ queryKey: editingPresetKeys.byId(presetId) });
+    },
+  });
+};
@@ -1,14 +1,18 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSupabase } from '../useSupabase';
 import { imageKeys } from '../../lib/database/keys';
+import { clusterNearDuplicates } from '../../services/imaging/phash';
+import { ShotCuller } from '../../services/shotCuller';
 import {
   getImage,
   getUserImages,
   getImagesByStatus,
   getRecentImages,
+  getImageHashes,
   createImage,
   updateImage,
   updateImageStatus,
+  setImagesArchived,
   deleteImage,
   type Image,
   type ImageInsert,
@@ -63,6 +67,41 @@ export const useRecentImagesQuery = (userId: string, limit: number = 10, options
   });
 };
 
+export const useDuplicateClustersQuery = (userId: string, options = {}) => {
+  const supabase = useSupabase();
+
+  return useQuery({
+    queryKey: imageKeys.duplicates(userId),
+    queryFn: async ({ signal }) => clusterNearDuplicates(await getImageHashes(supabase, userId, signal)),
+    enabled: !!userId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    ...options,
+  });
+};
+
+/**
+ * Similar-shot groups among the user's unarchived images, ranked best
+ * first. Ranking downloads and measures every grouped image, so only
+ * enable this while the groups are on screen.
+ */
+export const useShotGroupsQuery = (userId: string, options = {}) => {
+  const supabase = useSupabase();
+
+  return useQuery({
+    queryKey: imageKeys.shotGroups(userId),
+    queryFn: async ({ signal }) => {
+      const images = await getUserImages(supabase, userId, signal);
+      return new ShotCuller(supabase).findShotGroups(
+        images.filter((image) => !image.archived_at),
+        signal
+      );
+    },
+    enabled: !!userId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    ...options,
+  });
+};
+
 export const useCreateImageMutation = () => {
   const supabase = useSupabase();
   const queryClient = useQueryClient();
@@ -90,6 +129,12 @@ export const useCreateImageMutation = () => {
           if (!old) return [newImage];
           return [newImage, ...old.slice(0, 9)];
         });
+
+        // A new hash can join or start a duplicate cluster
+        if (newImage.phash) {
+          queryClient.invalidateQueries({ queryKey: imageKeys.duplicates(newImage.user_id) });
+        }
+        queryClient.invalidateQueries({ queryKey: imageKeys.shotGroups(newImage.user_id) });
       }
       
       // Set individual image cache
@@ -193,7 +238,45 @@ export const useDeleteImageMutation = () => {
         queryClient.invalidateQueries({
           queryKey: ['images', 'user', imageData.user_id, 'recent']
         });
+
+        // Clusters may have lost a member
+        queryClient.invalidateQueries({
+          queryKey: imageKeys.duplicates(imageData.user_id)
+        });
+        queryClient.invalidateQueries({
+          queryKey: imageKeys.shotGroups(imageData.user_id)
+        });
       }
     },
   });
+};
+
+export const useSetImagesArchivedMutation = () => {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ imageIds, archived }: { imageIds: string[]; archived: boolean }) =>
+      setImagesArchived(supabase, imageIds, archived),
+    onSuccess: (updatedImages) => {
+      const updatedById = new Map(updatedImages.map((image) => [image.id, image]));
+      const userIds = new Set<string>();
+
+      updatedImages.forEach((image) => {
+        queryClient.setQueryData(imageKeys.byId(image.id), image);
+        if (image.user_id) userIds.add(image.user_id);
+      });
+
+      userIds.forEach((userId) => {
+        queryClient.setQueryData(imageKeys.byUser(userId), (old: Image[] | undefined) => {
+          if (!old) return old;
+          return old.map((image) => updatedById.get(image.id) ?? image);
+        });
+
+        // Archiving changes which images can be grouped or flagged as duplicates
+        queryClient.invalidateQueries({ queryKey: imageKeys.shotGroups(userId) });
+        queryClient.invalidateQueries({ queryKey: imageKeys.duplicates(userId) });
+      });
+    },
+  });
 };
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '../useSupabase';
+import { lutPresetKeys } from '../../lib/database/keys';
+import {
+  getUserLutPresets,
+  createLutPreset,
+  deleteLutPreset,
+  type LutPresetRow,
+  type LutPresetInsert,
+} from '../../lib/database/queries/lut_presets';
+
+export const useUserLutPresetsQuery = (userId: string, options = {}) => {
+  const supabase = useSupabase();
+  
+  return useQuery({
+    queryKey: lutPresetKeys.byUser(userId),
+    queryFn: ({ signal }) => getUserLutPresets(supabase, userId, signal),
+    enabled: !!userId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    ...options,
+  });
+};
+
+export const useCreateLutPresetMutation = () => {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (preset: LutPresetInsert) => createLutPreset(supabase, preset),
+    onSuccess: (newPreset) => {
+      // Append to the user's LUT list (ordered oldest first)
+      if (newPreset.user_id) {
+        queryClient.setQueryData(lutPresetKeys.byUser(newPreset.user_id), (old: LutPresetRow[] | undefined) => [
+          ...(old ?? []),
+          newPreset,
+        ]);
+      }
+    },
+  });
+};
+
+export const useDeleteLutPresetMutation = () => {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ presetId }: { presetId: string; userId: string }) =>
+      deleteLutPreset(supabase, presetId),
+    onSuccess: (_, { presetId, userId }) => {
+      queryClient.setQueryData(lutPresetKeys.byUser(userId), (old: LutPresetRow[] | undefined) => {
+        if (!old) return [];
+        return old.filter((preset) => preset.id !== presetId);
+      });
+    },
+  });
+};
@@ -10,6 +10,7 @@ import {
   updateAnalysisPreferences,
   updateEditingPreferences,
   updateNotificationPreferences,
+  updatePrivacyPreferences,
   type UserPreferences,
   type UserPreferencesInsert,
   type UserPreferencesUpdate,
@@ -144,6 +145,29 @@ export const useUpdateNotificationPreferencesMutation = () => {
   });
 };
 
+export const useUpdatePrivacyPreferencesMutation = () => {
+  const supabase = useSupabase();
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ 
+      userId, 
+      stripGps, 
+      stripSerialNumbers 
+    }: { 
+      userId: string; 
+      stripGps: boolean; 
+      stripSerialNumbers: boolean; 
+    }) => updatePrivacyPreferences(supabase, userId, stripGps, stripSerialNumbers),
+    onSuccess: (updatedPreferences) => {
+      // Update user preferences cache
+      if (updatedPreferences.user_id) {
+        queryClient.setQueryData(userPreferencesKeys.byUser(updatedPreferences.user_id), updatedPreferences);
+      }
+    },
+  });
+};
+
 export const useDeleteUserPreferencesMutation = () => {
   const supabase = useSupabase();
   const queryClient = useQueryClient();
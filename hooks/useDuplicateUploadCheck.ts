@@ -0,0 +1,52 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useSupabase } from './useSupabase';
+import { DuplicateDetector } from '../services/duplicateDetector';
+import type { StoredAnalysis } from '../services/analysisData';
+import type { PerceptualHash } from '../services/imaging/phash';
+
+export interface DuplicateUploadCheck {
+  hash: PerceptualHash | null; // stored with the new image for later checks
+  reusedAnalysis: StoredAnalysis | null; // from the closest analyzed duplicate
+}
+
+function confirmDuplicateUpload(canReuseAnalysis: boolean): Promise<boolean> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      'Possible Duplicate',
+      canReuseAnalysis
+        ? 'This looks like a photo you already uploaded. Its existing analysis will be reused.'
+        : 'This looks like a photo you already uploaded.',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Upload Anyway', onPress: () => resolve(true) },
+      ],
+      { cancelable: false }
+    );
+  });
+}
+
+/**
+ * Check a local image against the user's uploads before it is uploaded,
+ * and ask before uploading a near-duplicate. Resolves null when the user
+ * cancels.
+ */
+export const useDuplicateUploadCheck = () => {
+  const supabase = useSupabase();
+
+  return useCallback(
+    async (userId: string, uri: string): Promise<DuplicateUploadCheck | null> => {
+      const detector = new DuplicateDetector(supabase);
+      const { hash, duplicates } = await detector.checkBeforeUpload(userId, uri);
+      const reusedAnalysis = await detector.findReusableAnalysis(duplicates).catch((error) => {
+        console.warn('Could not load analysis of the duplicate:', error);
+        return null;
+      });
+      if (duplicates.length > 0 && !(await confirmDuplicateUpload(!!reusedAnalysis))) {
+        return null;
+      }
+      return { hash, reusedAnalysis };
+    },
+    [supabase]
+  );
+};
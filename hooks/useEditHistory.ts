@@ -0,0 +1,50 @@
+import { useCallback, useState } from 'react';
+import type { EditingOptions } from '../services/editingEngine';
+import {
+  appendOperation,
+  createEditHistory,
+  pushEdit,
+  redoEdit,
+  undoEdit,
+  type EditRecipe,
+} from '../services/editRecipe';
+
+export const useEditHistory = (storedRecipe: EditRecipe | null) => {
+  const [history, setHistory] = useState(() => createEditHistory(storedRecipe ?? undefined));
+  const [syncedAt, setSyncedAt] = useState(storedRecipe?.updatedAt);
+
+  // Adopt a recipe loaded from the database unless it is the one we just saved
+  if (storedRecipe && storedRecipe.updatedAt !== syncedAt) {
+    setSyncedAt(storedRecipe.updatedAt);
+    if (storedRecipe.updatedAt !== history.present.updatedAt) {
+      setHistory(createEditHistory(storedRecipe));
+    }
+  }
+
+  const addOperation = useCallback((operation: EditingOptions) => {
+    setHistory((current) => pushEdit(current, appendOperation(current.present, operation)));
+  }, []);
+
+  // For callers that need the new recipe right away, e.g. to render it
+  const pushRecipe = useCallback((recipe: EditRecipe) => {
+    setHistory((current) => pushEdit(current, recipe));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((current) => undoEdit(current));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((current) => redoEdit(current));
+  }, []);
+
+  return {
+    recipe: history.present,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    addOperation,
+    pushRecipe,
+    undo,
+    redo,
+  };
+};
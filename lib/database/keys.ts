@@ -17,6 +17,9 @@ export const imageKeys = {
   byUser: (userId: string) => ['images', 'user', userId] as const,
   byStatus: (userId: string, status: string) => ['images', 'user', userId, 'status', status] as const,
   recent: (userId: string, limit: number) => ['images', 'user', userId, 'recent', limit] as const,
+  byCarousel: (carouselId: string) => ['images', 'carousel', carouselId] as const,
+  duplicates: (userId: string) => ['images', 'user', userId, 'duplicates'] as const,
+  shotGroups: (userId: string) => ['images', 'user', userId, 'shot-groups'] as const,
 };
 
 export const processingQueueKeys = {
@@ -31,4 +34,21 @@ export const processingQueueKeys = {
 export const userPreferencesKeys = {
   all: ['user_preferences'] as const,
   byUser: (userId: string) => ['user_preferences', 'user', userId] as const,
-};
\ No newline at end of file
+};
+
+export const editingPresetKeys = {
+  all: ['editing_presets'] as const,
+  byId: (id: string) => ['editing_presets', id] as const,
+  byUser: (userId: string) => ['editing_presets', 'user', userId] as const,
+};
+
+export const lutPresetKeys = {
+  all: ['lut_presets'] as const,
+  byUser: (userId: string) => ['lut_presets', 'user', userId] as const,
+};
+
+export const carouselKeys = {
+  all: ['carousels'] as const,
+  byId: (id: string) => ['carousels', id] as const,
+  byUser: (userId: string) => ['carousels', 'user', userId] as const,
+};
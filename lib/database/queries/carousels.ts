@@ -0,0 +1,61 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables, TablesInsert } from '../types';
+
+export type Carousel = Tables<'carousels'>;
+export type CarouselInsert = TablesInsert<'carousels'>;
+
+export async function getCarousel(
+  supabase: SupabaseClient<Database>,
+  carouselId: string,
+  signal?: AbortSignal
+): Promise<Carousel | null> {
+  const { data, error } = await supabase
+    .from('carousels')
+    .select('*')
+    .eq('id', carouselId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getUserCarousels(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  signal?: AbortSignal
+): Promise<Carousel[]> {
+  const { data, error } = await supabase
+    .from('carousels')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createCarousel(
+  supabase: SupabaseClient<Database>,
+  carousel: CarouselInsert
+): Promise<Carousel> {
+  const { data, error } = await supabase
+    .from('carousels')
+    .insert(carousel)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteCarousel(
+  supabase: SupabaseClient<Database>,
+  carouselId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('carousels')
+    .delete()
+    .eq('id', carouselId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,71 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables, TablesInsert, TablesUpdate } from '../types';
+
+export type EditingPreset = Tables<'editing_presets'>;
+export type EditingPresetInsert = TablesInsert<'editing_presets'>;
+export type EditingPresetUpdate = TablesUpdate<'editing_presets'>;
+
+export async function getUserEditingPresets(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  signal?: AbortSignal
+): Promise<EditingPreset[]> {
+  const { data, error } = await supabase
+    .from('editing_presets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createEditingPreset(
+  supabase: SupabaseClient<Database>,
+  preset: EditingPresetInsert
+): Promise<EditingPreset> {
+  const { data, error } = await supabase
+    .from('editing_presets')
+    .insert(preset)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateEditingPreset(
+  supabase: SupabaseClient<Database>,
+  presetId: string,
+  updates: EditingPresetUpdate
+): Promise<EditingPreset> {
+  const { data, error } = await supabase
+    .from('editing_presets')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', presetId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function renameEditingPreset(
+  supabase: SupabaseClient<Database>,
+  presetId: string,
+  name: string
+): Promise<EditingPreset> {
+  return updateEditingPreset(supabase, presetId, { name });
+}
+
+export async function deleteEditingPreset(
+  supabase: SupabaseClient<Database>,
+  presetId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('editing_presets')
+    .delete()
+    .eq('id', presetId);
+
+  if (error) throw error;
+}
@@ -4,6 +4,8 @@ import type { Database, Tables, TablesInsert, TablesUpdate } from '../types';
 export type Image = Tables<'images'>;
 export type ImageInsert = TablesInsert<'images'>;
 export type ImageUpdate = TablesUpdate<'images'>;
+export type ImageHashRow = Pick<Image, 'id' | 'phash' | 'dhash' | 'status' | 'original_url' | 'created_at'>;
+export type ImageAnalysisRow = Pick<Image, 'id' | 'analysis_data'>;
 
 export async function getImage(
   supabase: SupabaseClient<Database>,
@@ -101,6 +103,26 @@ export async function updateImageStatus(
   return data;
 }
 
+/**
+ * Archive or restore several images at once; archived images stay in
+ * storage but are hidden from the gallery.
+ */
+export async function setImagesArchived(
+  supabase: SupabaseClient<Database>,
+  imageIds: string[],
+  archived: boolean
+): Promise<Image[]> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('images')
+    .update({ archived_at: archived ? now : null, updated_at: now })
+    .in('id', imageIds)
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
 export async function deleteImage(
   supabase: SupabaseClient<Database>,
   imageId: string
@@ -126,6 +148,58 @@ export async function getRecentImages(
     .order('created_at', { ascending: false })
     .limit(limit);
 
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getCarouselImages(
+  supabase: SupabaseClient<Database>,
+  carouselId: string,
+  signal?: AbortSignal
+): Promise<Image[]> {
+  const { data, error } = await supabase
+    .from('images')
+    .select('*')
+    .eq('carousel_id', carouselId)
+    .order('carousel_index', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Hashes of the user's images, archived ones excluded like everywhere else.
+ */
+export async function getImageHashes(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  signal?: AbortSignal
+): Promise<ImageHashRow[]> {
+  const { data, error } = await supabase
+    .from('images')
+    .select('id, phash, dhash, status, original_url, created_at')
+    .eq('user_id', userId)
+    .not('phash', 'is', null)
+    .is('archived_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getImagesAnalysis(
+  supabase: SupabaseClient<Database>,
+  imageIds: string[],
+  signal?: AbortSignal
+): Promise<ImageAnalysisRow[]> {
+  if (imageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('images')
+    .select('id, analysis_data')
+    .in('id', imageIds)
+    .not('analysis_data', 'is', null);
+
   if (error) throw error;
   return data || [];
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables, TablesInsert } from '../types';
+
+export type LutPresetRow = Tables<'lut_presets'>;
+export type LutPresetInsert = TablesInsert<'lut_presets'>;
+
+export async function getUserLutPresets(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  signal?: AbortSignal
+): Promise<LutPresetRow[]> {
+  const { data, error } = await supabase
+    .from('lut_presets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createLutPreset(
+  supabase: SupabaseClient<Database>,
+  preset: LutPresetInsert
+): Promise<LutPresetRow> {
+  const { data, error } = await supabase
+    .from('lut_presets')
+    .insert(preset)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteLutPreset(
+  supabase: SupabaseClient<Database>,
+  presetId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('lut_presets')
+    .delete()
+    .eq('id', presetId);
+
+  if (error) throw error;
+}
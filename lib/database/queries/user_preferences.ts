@@ -97,6 +97,7 @@ export async function updateAnalysisPreferences(
   return data;
 }
 
+/** enhancementStrength is a 0-1 multiplier, not a percentage. */
 export async function updateEditingPreferences(
   supabase: SupabaseClient<Database>,
   userId: string,
@@ -137,6 +138,27 @@ export async function updateNotificationPreferences(
     .select()
     .single();
 
+  if (error) throw error;
+  return data;
+}
+
+export async function updatePrivacyPreferences(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  stripGps: boolean,
+  stripSerialNumbers: boolean
+): Promise<UserPreferences> {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .update({ 
+      strip_gps: stripGps,
+      strip_serial_numbers: stripSerialNumbers,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId)
+    .select()
+    .single();
+
   if (error) throw error;
   return data;
 }
\ No newline at end of file
@@ -14,12 +14,76 @@ export type Database = {
   }
   public: {
     Tables: {
+      carousels: {
+        Row: {
+          created_at: string | null
+          id: string
+          kind: string
+          layout: Json | null
+          slide_count: number
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          kind: string
+          layout?: Json | null
+          slide_count: number
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          kind?: string
+          layout?: Json | null
+          slide_count?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      editing_presets: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          options: Json
+          schema_version: number
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          options: Json
+          schema_version?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          options?: Json
+          schema_version?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       images: {
         Row: {
           analysis_data: Json | null
+          archived_at: string | null
+          carousel_id: string | null
+          carousel_index: number | null
           created_at: string | null
+          dhash: string | null
+          edit_recipe: Json | null
           id: string
+          metadata: Json | null
           original_url: string
+          phash: string | null
           processed_url: string | null
           status: string | null
           updated_at: string | null
@@ -27,9 +91,16 @@ export type Database = {
         }
         Insert: {
           analysis_data?: Json | null
+          archived_at?: string | null
+          carousel_id?: string | null
+          carousel_index?: number | null
           created_at?: string | null
+          dhash?: string | null
+          edit_recipe?: Json | null
           id?: string
+          metadata?: Json | null
           original_url: string
+          phash?: string | null
           processed_url?: string | null
           status?: string | null
           updated_at?: string | null
@@ -37,14 +108,65 @@ export type Database = {
         }
         Update: {
           analysis_data?: Json | null
+          archived_at?: string | null
+          carousel_id?: string | null
+          carousel_index?: number | null
           created_at?: string | null
+          dhash?: string | null
+          edit_recipe?: Json | null
           id?: string
+          metadata?: Json | null
           original_url?: string
+          phash?: string | null
           processed_url?: string | null
           status?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "images_carousel_id_fkey"
+            columns: ["carousel_id"]
+            isOneToOne: false
+            referencedRelation: "carousels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lut_presets: {
+        Row: {
+          created_at: string | null
+          domain_max: Json
+          domain_min: Json
+          id: string
+          name: string
+          schema_version: number
+          size: number
+          table_data: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          domain_max: Json
+          domain_min: Json
+          id?: string
+          name: string
+          schema_version?: number
+          size: number
+          table_data: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          domain_max?: Json
+          domain_min?: Json
+          id?: string
+          name?: string
+          schema_version?: number
+          size?: number
+          table_data?: string
+          user_id?: string | null
+        }
         Relationships: []
       }
       posts: {
@@ -155,6 +277,8 @@ export type Database = {
           notify_processing_complete: boolean | null
           preserve_originals: boolean | null
           processing_quality: string | null
+          strip_gps: boolean | null
+          strip_serial_numbers: boolean | null
           updated_at: string | null
           user_id: string | null
         }
@@ -171,6 +295,8 @@ export type Database = {
           notify_processing_complete?: boolean | null
           preserve_originals?: boolean | null
           processing_quality?: string | null
+          strip_gps?: boolean | null
+          strip_serial_numbers?: boolean | null
           updated_at?: string | null
           user_id?: string | null
         }
@@ -187,6 +313,8 @@ export type Database = {
           notify_processing_complete?: boolean | null
           preserve_originals?: boolean | null
           processing_quality?: string | null
+          strip_gps?: boolean | null
+          strip_serial_numbers?: boolean | null
           updated_at?: string | null
           user_id?: string | null
         }
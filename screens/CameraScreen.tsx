@@ -15,9 +15,15 @@ import * as Haptics from 'expo-haptics';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../hooks/useAuth';
 import { useSupabase } from '../hooks/useSupabase';
+import { useDuplicateUploadCheck } from '../hooks/useDuplicateUploadCheck';
 import { useCreateImageMutation } from '../hooks/queries/useImages';
+import { useUserPreferencesQuery } from '../hooks/queries/useUserPreferences';
 import { ImageService } from '../services/imageService';
-import { createGeminiService } from '../services/geminiService';
+import { resolveMetadataPrivacy } from '../services/imageMetadata';
+import { encodeAnalysisData } from '../services/analysisData';
+import { createVisionProvider, type VisionProvider } from '../services/visionProvider';
+import { AnalysisEngine } from '../services/analysisEngine';
+import type { Json } from '../lib/database/types';
 
 export default function CameraScreen() {
   const [facing, setFacing] = useState<CameraType>('back');
@@ -29,7 +35,11 @@ export default function CameraScreen() {
   
   const { user } = useAuth();
   const supabase = useSupabase();
+  const checkDuplicateUpload = useDuplicateUploadCheck();
   const createImageMutation = useCreateImageMutation();
+  const { data: preferences } = useUserPreferencesQuery(user?.id || '', {
+    enabled: !!user?.id,
+  });
 
   if (!permission) {
     return <View style={styles.container} />;
@@ -66,6 +76,7 @@ export default function CameraScreen() {
       const photo = await cameraRef.current.takePictureAsync({
         quality: 0.8,
         base64: false,
+        exif: true, // keep camera settings so they can be recorded with the image
         skipProcessing: false,
       });
 
@@ -77,7 +88,7 @@ export default function CameraScreen() {
 
       // Initialize services
       const imageService = new ImageService(supabase);
-      const geminiService = createGeminiService();
+      const visionProvider = createVisionProvider();
 
       // Test connection first
       const connectionOk = await imageService.testConnection();
@@ -85,25 +96,37 @@ export default function CameraScreen() {
         throw new Error('Unable to connect to storage service');
       }
 
+      // Warn before uploading a near-duplicate; its analysis can be reused
+      const duplicateCheck = await checkDuplicateUpload(user.id, photo.uri);
+      if (!duplicateCheck) return;
+      const { reusedAnalysis } = duplicateCheck;
+
       // Upload image (use .jpeg extension for proper MIME type)
       const uploadResult = await imageService.uploadImage(
         photo.uri,
         user.id,
-        `camera_${Date.now()}.jpeg`
+        `camera_${Date.now()}.jpeg`,
+        {},
+        resolveMetadataPrivacy(preferences)
       );
 
       // Create image record with initial status
       const imageRecord = await createImageMutation.mutateAsync({
         user_id: user.id,
         original_url: uploadResult.publicUrl,
-        status: 'uploaded',
-        analysis_data: null,
+        status: reusedAnalysis ? 'analyzed' : 'uploaded',
+        analysis_data: reusedAnalysis && encodeAnalysisData(reusedAnalysis),
         processed_url: null,
+        metadata: uploadResult.metadata as Json,
+        phash: duplicateCheck.hash?.phash ?? null,
+        dhash: duplicateCheck.hash?.dhash ?? null,
       });
 
       Alert.alert(
         'Photo Captured!',
-        'Your image is being processed. You can view the progress in the Gallery.',
+        reusedAnalysis
+          ? 'Reused the analysis from your earlier copy.'
+          : 'Your image is being processed. You can view the progress in the Gallery.',
         [
           {
             text: 'View Gallery',
@@ -117,7 +140,9 @@ export default function CameraScreen() {
       );
 
       // Start background processing
-      processImageInBackground(photo.uri, imageRecord.id, imageService, geminiService);
+      if (!reusedAnalysis) {
+        processImageInBackground(photo.uri, imageRecord.id, imageService, visionProvider);
+      }
 
     } catch (error) {
       console.error('Camera capture failed:', error);
@@ -136,7 +161,7 @@ export default function CameraScreen() {
     imageUri: string,
     imageId: string,
     imageService: ImageService,
-    geminiService: any
+    visionProvider: VisionProvider
   ) => {
     try {
       // Update status to analyzing
@@ -145,12 +170,15 @@ export default function CameraScreen() {
       // Convert to base64 for analysis
       const base64 = await imageService.imageToBase64(imageUri);
       
-      // Analyze with Gemini
-      const analysis = await geminiService.analyzeImage(base64);
+      // Analyze with the vision provider, then add the measured color palette
+      const analysis = await AnalysisEngine.withPalette(
+        await visionProvider.analyzeImage(base64),
+        imageUri
+      );
 
       // Update with analysis results
       await imageService.updateImageStatus(imageId, 'analyzed', {
-        analysis_data: analysis,
+        analysis_data: encodeAnalysisData(analysis),
       });
 
       // TODO: Trigger editing pipeline here
@@ -0,0 +1,440 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  Dimensions,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router } from 'expo-router';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../hooks/useAuth';
+import { useSupabase } from '../hooks/useSupabase';
+import { useUserImagesQuery } from '../hooks/queries/useImages';
+import { useSaveCarouselMutation } from '../hooks/queries/useCarousels';
+import { ImageService } from '../services/imageService';
+import {
+  CarouselBuilder,
+  MAX_IMAGES_PER_SLIDE,
+  type CarouselDraft,
+} from '../services/carouselBuilder';
+import { SLIDE_RATIOS, type CollageLayout, type SlideRatio } from '../services/imaging/carousel';
+import type { Image as ImageRecord } from '../lib/database/queries/images';
+
+type CarouselMode = 'panorama' | 'collage';
+
+const { width: screenWidth } = Dimensions.get('window');
+const THUMBNAIL_SIZE = 72;
+const SLIDE_PREVIEW_WIDTH = screenWidth - 40;
+
+const RATIO_OPTIONS = Object.keys(SLIDE_RATIOS) as SlideRatio[];
+const LAYOUT_OPTIONS: { key: CollageLayout; label: string }[] = [
+  { key: 'grid', label: 'Grid' },
+  { key: 'feature', label: 'Feature' },
+  { key: 'strip', label: 'Strip' },
+];
+const GUTTER_OPTIONS = [0, 8, 16, 32];
+const BACKGROUND_OPTIONS = ['#FFFFFF', '#000000', '#F2F2F7', '#E8DCCB'];
+const PER_SLIDE_OPTIONS = [2, 3, 4, 6, MAX_IMAGES_PER_SLIDE];
+
+const imageSource = (image: ImageRecord) => image.processed_url ?? image.original_url;
+
+export default function CarouselScreen() {
+  const [mode, setMode] = useState<CarouselMode>('collage');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [ratio, setRatio] = useState<SlideRatio>('4:5');
+  const [layout, setLayout] = useState<CollageLayout>('grid');
+  const [gutter, setGutter] = useState(8);
+  const [background, setBackground] = useState(BACKGROUND_OPTIONS[0]);
+  const [imagesPerSlide, setImagesPerSlide] = useState(4);
+  const [draft, setDraft] = useState<CarouselDraft | null>(null);
+  const [building, setBuilding] = useState(false);
+  const insets = useSafeAreaInsets();
+
+  const { user } = useAuth();
+  const supabase = useSupabase();
+  const saveCarouselMutation = useSaveCarouselMutation();
+
+  const { data: allImages = [] } = useUserImagesQuery(user?.id || '', {
+    enabled: !!user?.id,
+  });
+  const images = React.useMemo(() => allImages.filter((image) => !image.archived_at), [allImages]);
+
+  const selectedImages = selectedIds
+    .map((id) => images.find((image) => image.id === id))
+    .filter((image): image is ImageRecord => !!image);
+  const canBuild = mode === 'panorama' ? selectedImages.length === 1 : selectedImages.length >= 2;
+
+  const changeMode = (nextMode: CarouselMode) => {
+    setMode(nextMode);
+    setSelectedIds((ids) => (nextMode === 'panorama' ? ids.slice(0, 1) : ids));
+    setDraft(null);
+  };
+
+  const toggleImage = (image: ImageRecord) => {
+    setDraft(null);
+    setSelectedIds((ids) => {
+      if (ids.includes(image.id)) return ids.filter((id) => id !== image.id);
+      return mode === 'panorama' ? [image.id] : [...ids, image.id];
+    });
+  };
+
+  const buildSlides = async () => {
+    try {
+      setBuilding(true);
+      const imageService = new ImageService(supabase);
+      const builder = new CarouselBuilder(supabase);
+      const localUris: string[] = [];
+      for (const image of selectedImages) {
+        localUris.push(await imageService.downloadToCache(imageSource(image)));
+      }
+
+      setDraft(
+        mode === 'panorama'
+          ? await builder.splitPanorama(localUris[0], ratio)
+          : await builder.composeCollage(localUris, {
+              layout,
+              ratio,
+              gutter,
+              background,
+              imagesPerSlide,
+            })
+      );
+    } catch (error) {
+      console.error('Carousel build failed:', error);
+      Alert.alert('Build Failed', error instanceof Error ? error.message : 'Unable to build carousel');
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const saveCarousel = async () => {
+    if (!draft || !user) return;
+
+    try {
+      await saveCarouselMutation.mutateAsync({ userId: user.id, draft });
+      Alert.alert('Carousel Saved', `${draft.slides.length} slides were added to your gallery.`, [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('Carousel save failed:', error);
+      Alert.alert('Save Failed', 'Unable to save the carousel. Please try again.');
+    }
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={() => {
+        onPress();
+        setDraft(null);
+      }}
+      disabled={building}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <>
+      <StatusBar style="dark" backgroundColor="#FFFFFF" />
+      <SafeAreaView style={styles.container} edges={['left', 'right']}>
+        <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+          <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+            <Ionicons name="arrow-back" size={24} color="#007AFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Carousel Builder</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <View style={styles.card}>
+            <View style={styles.chipRow}>
+              {renderChip('Collage', mode === 'collage', () => changeMode('collage'))}
+              {renderChip('Split Panorama', mode === 'panorama', () => changeMode('panorama'))}
+            </View>
+            <Text style={styles.hint}>
+              {mode === 'panorama'
+                ? 'Pick one wide image to split into seamless slides.'
+                : 'Pick two or more images, in the order they should appear.'}
+            </Text>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.thumbnailRow}>
+              {images.map((image) => {
+                const position = selectedIds.indexOf(image.id);
+                return (
+                  <TouchableOpacity
+                    key={image.id}
+                    style={[styles.thumbnail, position >= 0 && styles.thumbnailSelected]}
+                    onPress={() => toggleImage(image)}
+                    disabled={building}
+                  >
+                    <Image source={{ uri: imageSource(image) }} style={styles.thumbnailImage} contentFit="cover" />
+                    {position >= 0 && (
+                      <View style={styles.thumbnailBadge}>
+                        <Text style={styles.thumbnailBadgeText}>{position + 1}</Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Slide Ratio</Text>
+            <View style={styles.chipRow}>
+              {RATIO_OPTIONS.map((option) => renderChip(option, ratio === option, () => setRatio(option)))}
+            </View>
+
+            {mode === 'collage' && (
+              <>
+                <Text style={styles.sectionTitle}>Layout</Text>
+                <View style={styles.chipRow}>
+                  {LAYOUT_OPTIONS.map((option) =>
+                    renderChip(option.label, layout === option.key, () => setLayout(option.key))
+                  )}
+                </View>
+
+                <Text style={styles.sectionTitle}>Images per Slide</Text>
+                <View style={styles.chipRow}>
+                  {PER_SLIDE_OPTIONS.map((count) =>
+                    renderChip(String(count), imagesPerSlide === count, () => setImagesPerSlide(count))
+                  )}
+                </View>
+
+                <Text style={styles.sectionTitle}>Gutter</Text>
+                <View style={styles.chipRow}>
+                  {GUTTER_OPTIONS.map((size) =>
+                    renderChip(size === 0 ? 'None' : `${size}px`, gutter === size, () => setGutter(size))
+                  )}
+                </View>
+
+                <Text style={styles.sectionTitle}>Background</Text>
+                <View style={styles.chipRow}>
+                  {BACKGROUND_OPTIONS.map((color) => (
+                    <TouchableOpacity
+                      key={color}
+                      style={[
+                        styles.swatch,
+                        { backgroundColor: color },
+                        background === color && styles.swatchActive,
+                      ]}
+                      onPress={() => {
+                        setBackground(color);
+                        setDraft(null);
+                      }}
+                      disabled={building}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+
+            <TouchableOpacity
+              style={[styles.actionButton, !canBuild && styles.actionButtonDisabled]}
+              onPress={buildSlides}
+              disabled={!canBuild || building}
+            >
+              <Ionicons name="albums" size={20} color="white" />
+              <Text style={styles.actionButtonText}>{building ? 'Building...' : 'Build Slides'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {draft && (
+            <View style={styles.card}>
+              <Text style={styles.sectionTitle}>
+                Preview · {draft.slides.length} slide{draft.slides.length === 1 ? '' : 's'}
+              </Text>
+              <ScrollView horizontal pagingEnabled showsHorizontalScrollIndicator={false}>
+                {draft.slides.map((slide, index) => (
+                  <Image
+                    key={slide.uri}
+                    source={{ uri: slide.uri }}
+                    style={[
+                      styles.slidePreview,
+                      { height: ((SLIDE_PREVIEW_WIDTH - 32) * slide.height) / slide.width },
+                      index > 0 && styles.slidePreviewSpaced,
+                    ]}
+                    contentFit="contain"
+                  />
+                ))}
+              </ScrollView>
+
+              <TouchableOpacity
+                style={[styles.actionButton, styles.saveButton]}
+                onPress={saveCarousel}
+                disabled={saveCarouselMutation.isPending}
+              >
+                <Ionicons name="cloud-upload" size={20} color="white" />
+                <Text style={styles.actionButtonText}>
+                  {saveCarouselMutation.isPending ? 'Saving...' : 'Save Carousel'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#F2F2F7',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    gap: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#1C1C1E',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  thumbnailRow: {
+    marginTop: 12,
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: 8,
+    marginRight: 8,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  thumbnailSelected: {
+    borderColor: '#007AFF',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  thumbnailBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  thumbnailBadgeText: {
+    fontSize: 11,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  swatchActive: {
+    borderWidth: 3,
+    borderColor: '#007AFF',
+  },
+  slidePreview: {
+    width: SLIDE_PREVIEW_WIDTH - 32,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  slidePreviewSpaced: {
+    marginLeft: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 20,
+  },
+  actionButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  saveButton: {
+    backgroundColor: '#34C759',
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
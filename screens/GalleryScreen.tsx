@@ -14,31 +14,90 @@ import * as ImagePicker from 'expo-image-picker';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../hooks/useAuth';
 import { useSupabase } from '../hooks/useSupabase';
-import { useUserImagesQuery, useCreateImageMutation } from '../hooks/queries/useImages';
+import { useDuplicateUploadCheck } from '../hooks/useDuplicateUploadCheck';
+import {
+  useUserImagesQuery,
+  useCreateImageMutation,
+  useDuplicateClustersQuery,
+  useShotGroupsQuery,
+  useSetImagesArchivedMutation,
+} from '../hooks/queries/useImages';
+import { useUserPreferencesQuery } from '../hooks/queries/useUserPreferences';
 import { ImageService } from '../services/imageService';
-import { createGeminiService } from '../services/geminiService';
+import { resolveMetadataPrivacy } from '../services/imageMetadata';
+import { decodeAnalysisData, encodeAnalysisData } from '../services/analysisData';
+import { createVisionProvider, type VisionProvider } from '../services/visionProvider';
+import { AnalysisEngine } from '../services/analysisEngine';
+import { groupSimilarShots } from '../services/shotCuller';
+import type { Json } from '../lib/database/types';
+import {
+  COLOR_FAMILIES,
+  paletteHasFamily,
+  type ColorFamily,
+  type PaletteSwatch,
+} from '../services/imaging/palette';
 import ImageGrid from '../components/ImageGrid';
 import type { Image } from '../lib/database/queries/images';
 
-type FilterType = 'all' | 'uploaded' | 'analyzed' | 'processed' | 'failed';
+type FilterType =
+  | 'all'
+  | 'uploaded'
+  | 'analyzed'
+  | 'processed'
+  | 'failed'
+  | 'duplicates'
+  | 'best'
+  | 'archived';
 
 export default function GalleryScreen() {
   const [filter, setFilter] = useState<FilterType>('all');
   const [uploading, setUploading] = useState(false);
+  const [colorFilter, setColorFilter] = useState<ColorFamily | null>(null);
   const insets = useSafeAreaInsets();
   
   const { user } = useAuth();
   const supabase = useSupabase();
+  const checkDuplicateUpload = useDuplicateUploadCheck();
   const createImageMutation = useCreateImageMutation();
+  const archiveMutation = useSetImagesArchivedMutation();
+  const { data: preferences } = useUserPreferencesQuery(user?.id || '', {
+    enabled: !!user?.id,
+  });
   
   const {
-    data: images = [],
+    data: allImages = [],
     isLoading,
     refetch,
     isRefetching,
   } = useUserImagesQuery(user?.id || '', {
     enabled: !!user?.id,
   });
+  const images = React.useMemo(() => allImages.filter(image => !image.archived_at), [allImages]);
+  const archivedImages = React.useMemo(() => allImages.filter(image => !!image.archived_at), [allImages]);
+  // Decoded once per fetch rather than on every render of the color filter
+  const palettes = React.useMemo(
+    () => new Map<string, PaletteSwatch[]>(
+      allImages.map(image => [image.id, decodeAnalysisData(image.analysis_data)?.palette ?? []])
+    ),
+    [allImages]
+  );
+  // Grouping is cheap, so the tab count doesn't wait for ranking
+  const similarShotCount = React.useMemo(
+    () => groupSimilarShots(images).reduce((sum, group) => sum + group.length, 0),
+    [images]
+  );
+
+  const { data: duplicateClusters = [] } = useDuplicateClustersQuery(user?.id || '', {
+    enabled: !!user?.id,
+  });
+
+  // Ranking measures every grouped image, so only do it while the tab is open
+  const {
+    data: shotGroups = [],
+    isLoading: rankingShots,
+  } = useShotGroupsQuery(user?.id || '', {
+    enabled: !!user?.id && filter === 'best',
+  });
 
   // Refresh data when screen comes into focus
   useFocusEffect(
@@ -47,10 +106,39 @@ export default function GalleryScreen() {
     }, [refetch])
   );
 
-  const filteredImages = images.filter(image => {
-    if (filter === 'all') return true;
-    return image.status === filter;
-  });
+  // Duplicates are listed cluster by cluster so copies sit next to each other
+  const duplicateImages = React.useMemo(() => {
+    const byId = new Map(images.map((image) => [image.id, image]));
+    return duplicateClusters.flatMap((cluster) =>
+      cluster.map((row) => byId.get(row.id)).filter((image): image is Image => !!image)
+    );
+  }, [images, duplicateClusters]);
+
+  // Groups are listed best shot first
+  const bestShotImages = React.useMemo(
+    () => shotGroups.flatMap((group) => group.shots.map((shot) => shot.image)),
+    [shotGroups]
+  );
+  const pickedIds = React.useMemo(
+    () => new Set(shotGroups.map((group) => group.shots[0].image.id)),
+    [shotGroups]
+  );
+  const rejectedIds = bestShotImages.filter(image => !pickedIds.has(image.id)).map(image => image.id);
+
+  const statusFilteredImages = filter === 'duplicates'
+    ? duplicateImages
+    : filter === 'best'
+      ? bestShotImages
+      : filter === 'archived'
+        ? archivedImages
+        : images.filter(image => {
+            if (filter === 'all') return true;
+            return image.status === filter;
+          });
+
+  const filteredImages = colorFilter
+    ? statusFilteredImages.filter(image => paletteHasFamily(palettes.get(image.id) ?? [], colorFilter))
+    : statusFilteredImages;
 
   const filterOptions = [
     { key: 'all', label: 'All', count: images.length },
@@ -58,12 +146,45 @@ export default function GalleryScreen() {
     { key: 'analyzed', label: 'Analyzed', count: images.filter(img => img.status === 'analyzed').length },
     { key: 'processed', label: 'Processed', count: images.filter(img => img.status === 'processed').length },
     { key: 'failed', label: 'Failed', count: images.filter(img => img.status === 'failed').length },
+    { key: 'duplicates', label: 'Duplicates', count: duplicateImages.length },
+    { key: 'best', label: 'Best Shots', count: similarShotCount },
+    { key: 'archived', label: 'Archived', count: archivedImages.length },
   ];
 
+  const archiveRejectedShots = () => {
+    Alert.alert(
+      'Archive Other Shots',
+      `Keep the best shot of each group and archive the other ${rejectedIds.length}? They stay available under Archived.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Archive',
+          style: 'destructive',
+          onPress: () =>
+            archiveMutation.mutate(
+              { imageIds: rejectedIds, archived: true },
+              { onError: () => Alert.alert('Error', 'Failed to archive images') }
+            ),
+        },
+      ]
+    );
+  };
+
+  const restoreArchivedImages = () => {
+    archiveMutation.mutate(
+      { imageIds: archivedImages.map(image => image.id), archived: false },
+      { onError: () => Alert.alert('Error', 'Failed to restore images') }
+    );
+  };
+
   const openCamera = () => {
     router.push('/camera');
   };
 
+  const openCarouselBuilder = () => {
+    router.push('/carousel');
+  };
+
   const pickImage = async () => {
     try {
       const result = await ImagePicker.launchImageLibraryAsync({
@@ -91,7 +212,7 @@ export default function GalleryScreen() {
 
     try {
       const imageService = new ImageService(supabase);
-      const geminiService = createGeminiService();
+      const visionProvider = createVisionProvider();
 
       // Test connection first
       const connectionOk = await imageService.testConnection();
@@ -99,22 +220,37 @@ export default function GalleryScreen() {
         throw new Error('Unable to connect to storage service');
       }
 
+      // Warn before uploading a near-duplicate; its analysis can be reused
+      const duplicateCheck = await checkDuplicateUpload(user.id, imageUri);
+      if (!duplicateCheck) return;
+      const { reusedAnalysis } = duplicateCheck;
+
       // Upload image (use .jpeg extension for proper MIME type)
       const uploadResult = await imageService.uploadImage(
         imageUri,
         user.id,
-        `gallery_${Date.now()}.jpeg`
+        `gallery_${Date.now()}.jpeg`,
+        {},
+        resolveMetadataPrivacy(preferences)
       );
 
       // Create image record
       const imageRecord = await createImageMutation.mutateAsync({
         user_id: user.id,
         original_url: uploadResult.publicUrl,
-        status: 'uploaded',
-        analysis_data: null,
+        status: reusedAnalysis ? 'analyzed' : 'uploaded',
+        analysis_data: reusedAnalysis && encodeAnalysisData(reusedAnalysis),
         processed_url: null,
+        metadata: uploadResult.metadata as Json,
+        phash: duplicateCheck.hash?.phash ?? null,
+        dhash: duplicateCheck.hash?.dhash ?? null,
       });
 
+      if (reusedAnalysis) {
+        Alert.alert('Image Uploaded!', 'Reused the analysis from your earlier copy.', [{ text: 'OK' }]);
+        return;
+      }
+
       Alert.alert(
         'Image Uploaded!',
         'Your image is being processed. You can view the progress below.',
@@ -122,7 +258,7 @@ export default function GalleryScreen() {
       );
 
       // Start background processing
-      processImageInBackground(imageUri, imageRecord.id, imageService, geminiService);
+      processImageInBackground(imageUri, imageRecord.id, imageService, visionProvider);
 
     } catch (error) {
       console.error('Image upload failed:', error);
@@ -134,7 +270,7 @@ export default function GalleryScreen() {
     imageUri: string,
     imageId: string,
     imageService: ImageService,
-    geminiService: any
+    visionProvider: VisionProvider
   ) => {
     try {
       // Update status to analyzing
@@ -143,12 +279,15 @@ export default function GalleryScreen() {
       // Convert to base64 for analysis
       const base64 = await imageService.imageToBase64(imageUri);
       
-      // Analyze with Gemini
-      const analysis = await geminiService.analyzeImage(base64);
+      // Analyze with the vision provider, then add the measured color palette
+      const analysis = await AnalysisEngine.withPalette(
+        await visionProvider.analyzeImage(base64),
+        imageUri
+      );
 
       // Update with analysis results
       await imageService.updateImageStatus(imageId, 'analyzed', {
-        analysis_data: analysis,
+        analysis_data: encodeAnalysisData(analysis),
       });
 
       console.log('Image processed successfully:', imageId);
@@ -205,6 +344,12 @@ export default function GalleryScreen() {
           >
             <Ionicons name="image" size={24} color="#007AFF" />
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={openCarouselBuilder}
+          >
+            <Ionicons name="albums" size={24} color="#007AFF" />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.headerButton}
             onPress={openCamera}
@@ -224,20 +369,74 @@ export default function GalleryScreen() {
         >
           {filterOptions.map(renderFilterButton)}
         </ScrollView>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterScrollView}
+          contentContainerStyle={[styles.filterScrollContent, styles.colorFilterContent]}
+        >
+          {COLOR_FAMILIES.map(color => (
+            <TouchableOpacity
+              key={color.key}
+              style={[
+                styles.colorFilterButton,
+                { backgroundColor: color.hex },
+                colorFilter === color.key && styles.colorFilterButtonActive,
+              ]}
+              onPress={() => setColorFilter(colorFilter === color.key ? null : color.key)}
+              accessibilityLabel={`Show ${color.key} images`}
+            />
+          ))}
+        </ScrollView>
       </View>
 
+      {/* Culling actions */}
+      {filter === 'best' && rejectedIds.length > 0 && (
+        <View style={styles.cullBar}>
+          <Text style={styles.cullText}>
+            {shotGroups.length} {shotGroups.length === 1 ? 'group' : 'groups'} of similar shots
+          </Text>
+          <TouchableOpacity
+            style={styles.cullButton}
+            onPress={archiveRejectedShots}
+            disabled={archiveMutation.isPending}
+          >
+            <Text style={styles.cullButtonText}>Archive {rejectedIds.length} Others</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {filter === 'archived' && archivedImages.length > 0 && (
+        <View style={styles.cullBar}>
+          <Text style={styles.cullText}>Archived images are hidden everywhere else</Text>
+          <TouchableOpacity
+            style={styles.cullButton}
+            onPress={restoreArchivedImages}
+            disabled={archiveMutation.isPending}
+          >
+            <Text style={styles.cullButtonText}>Restore All</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Image Grid */}
       <View style={styles.contentArea}>
         <ImageGrid
           images={filteredImages}
-          loading={isLoading}
+          loading={isLoading || (filter === 'best' && rankingShots)}
+          pickedIds={filter === 'best' ? pickedIds : undefined}
           onImagePress={handleImagePress}
           onRefresh={refetch}
           refreshing={isRefetching}
           emptyMessage={
-            filter === 'all' 
-              ? 'No images yet' 
-              : `No ${filter} images`
+            colorFilter
+              ? `No images with much ${colorFilter}`
+              : filter === 'all'
+                ? 'No images yet'
+                : filter === 'duplicates'
+                  ? 'No duplicates found'
+                  : filter === 'best'
+                    ? 'No similar shots to compare'
+                    : `No ${filter} images`
           }
         />
       </View>
@@ -301,6 +500,21 @@ const styles = StyleSheet.create({
     gap: 12,
     paddingRight: 20, // Extra padding at the end for better scrolling
   },
+  colorFilterContent: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  colorFilterButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  colorFilterButtonActive: {
+    borderWidth: 3,
+    borderColor: '#007AFF',
+  },
   filterButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -323,6 +537,33 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '400',
   },
+  cullBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  cullText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8E8E93',
+    marginRight: 12,
+  },
+  cullButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#007AFF',
+  },
+  cullButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   contentArea: {
     flex: 1,
     backgroundColor: '#F2F2F7',
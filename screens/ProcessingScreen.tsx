@@ -13,9 +13,19 @@ import { Image } from 'expo-image';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useImageQuery, useUpdateImageStatusMutation } from '../hooks/queries/useImages';
+import { useUserPreferencesQuery } from '../hooks/queries/useUserPreferences';
+import { useUserEditingPresetsQuery } from '../hooks/queries/useEditingPresets';
+import { useUserLutPresetsQuery } from '../hooks/queries/useLutPresets';
 import { useSupabase } from '../hooks/useSupabase';
 import { ImageService } from '../services/imageService';
-import { createGeminiService } from '../services/geminiService';
+import { createVisionProvider } from '../services/visionProvider';
+import { AnalysisEngine } from '../services/analysisEngine';
+import { decodeAnalysisData, encodeAnalysisData } from '../services/analysisData';
+import { EditingEngine } from '../services/editingEngine';
+import { createEditRecipe, toEditRecipeJson } from '../services/editRecipe';
+import { decodeEditingPreset, resolveEditingStyle } from '../services/editingPresets';
+import { normalizeEnhancementStrength } from '../services/editingPreferences';
+import { fromLutPresetRow, type LutPreset } from '../services/lutPresets';
 import ProcessingProgress from '../components/ProcessingProgress';
 import type { ImageAnalysisResult } from '../services/geminiService';
 
@@ -44,6 +54,19 @@ export default function ProcessingScreen() {
     refetchInterval: 2000, // Refetch every 2 seconds during processing
   });
 
+  // The default editing_style is applied during enhancement, so wait for it
+  const userId = image?.user_id || '';
+  const { data: preferences, isFetched: preferencesFetched } = useUserPreferencesQuery(userId, {
+    enabled: !!userId,
+  });
+  const { data: presetRows, isFetched: presetsFetched } = useUserEditingPresetsQuery(userId, {
+    enabled: !!userId,
+  });
+  const { data: lutPresetRows, isFetched: lutPresetsFetched } = useUserLutPresetsQuery(userId, {
+    enabled: !!userId,
+  });
+  const defaultStyleLoaded = !userId || (preferencesFetched && presetsFetched && lutPresetsFetched);
+
   // Initialize processing steps based on image status
   useEffect(() => {
     if (!image) return;
@@ -90,15 +113,9 @@ export default function ProcessingScreen() {
     setSteps(initialSteps);
 
     // Parse analysis data if available
-    if (image.analysis_data) {
-      try {
-        const parsed = typeof image.analysis_data === 'string' 
-          ? JSON.parse(image.analysis_data)
-          : image.analysis_data;
-        setAnalysisResult(parsed);
-      } catch (error) {
-        console.error('Failed to parse analysis data:', error);
-      }
+    const storedAnalysis = decodeAnalysisData(image.analysis_data);
+    if (storedAnalysis) {
+      setAnalysisResult(storedAnalysis);
     }
   }, [image]);
 
@@ -113,8 +130,7 @@ export default function ProcessingScreen() {
         if (image.status === 'uploaded') {
           // Start analysis
           await startAnalysis(imageService);
-        } else if (image.status === 'analyzed' && !image.processed_url) {
-          // Start enhancement (mock for now)
+        } else if (image.status === 'analyzed' && !image.processed_url && defaultStyleLoaded) {
           await startEnhancement(imageService);
         }
       } catch (error) {
@@ -124,7 +140,7 @@ export default function ProcessingScreen() {
     };
 
     triggerNextStep();
-  }, [image?.status, imageId, supabase]);
+  }, [image?.status, imageId, supabase, defaultStyleLoaded]);
 
   const startAnalysis = async (imageService: ImageService) => {
     if (!image || !imageId) return;
@@ -135,15 +151,18 @@ export default function ProcessingScreen() {
         status: 'analyzing',
       });
 
-      const geminiService = createGeminiService();
+      const visionProvider = createVisionProvider();
       const base64 = await imageService.imageToBase64(image.original_url);
-      const analysis = await geminiService.analyzeImage(base64);
+      const analysis = await AnalysisEngine.withPalette(
+        await visionProvider.analyzeImage(base64),
+        await imageService.downloadToCache(image.original_url)
+      );
 
       await updateImageStatusMutation.mutateAsync({
         imageId,
         status: 'analyzed',
         updates: {
-          analysis_data: analysis as any,
+          analysis_data: encodeAnalysisData(analysis),
         },
       });
 
@@ -166,6 +185,42 @@ export default function ProcessingScreen() {
         status: 'processing',
       });
 
+      // Start the recipe with the user's default editing style, if they picked one
+      const defaultOptions = resolveEditingStyle(
+        preferences?.editing_style,
+        (presetRows ?? []).map(decodeEditingPreset)
+      );
+      if (defaultOptions && userId) {
+        const editingEngine = new EditingEngine();
+        editingEngine.registerLutPresets(
+          (lutPresetRows ?? []).map(fromLutPresetRow).filter((preset): preset is LutPreset => !!preset)
+        );
+
+        const recipe = createEditRecipe([
+          EditingEngine.withEnhancementStrength(
+            defaultOptions,
+            normalizeEnhancementStrength(preferences?.enhancement_strength)
+          ),
+        ]);
+        const originalUri = await imageService.downloadToCache(image.original_url);
+        const rendered = await editingEngine.renderRecipe(originalUri, recipe);
+        const uploadResult = await imageService.uploadImage(
+          rendered.uri,
+          userId,
+          `edited_${Date.now()}.jpeg`
+        );
+
+        await updateImageStatusMutation.mutateAsync({
+          imageId,
+          status: 'processed',
+          updates: {
+            processed_url: uploadResult.publicUrl,
+            edit_recipe: toEditRecipeJson(recipe),
+          },
+        });
+        return;
+      }
+
       // Mock enhancement process (replace with actual editing engine)
       await new Promise(resolve => setTimeout(resolve, 3000));
 
@@ -204,6 +259,7 @@ export default function ProcessingScreen() {
                 updates: {
                   analysis_data: null,
                   processed_url: null,
+                  edit_recipe: null,
                 },
               });
               setAnalysisResult(null);
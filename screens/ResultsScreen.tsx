@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,6 +7,7 @@ import {
   ScrollView,
   Alert,
   Share,
+  Switch,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
@@ -15,16 +16,168 @@ import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import * as FileSystem from 'expo-file-system';
 import * as MediaLibrary from 'expo-media-library';
-import { useImageQuery } from '../hooks/queries/useImages';
+import * as DocumentPicker from 'expo-document-picker';
+import { SaveFormat } from 'expo-image-manipulator';
+import { useImageQuery, useUpdateImageMutation } from '../hooks/queries/useImages';
+import {
+  useUserPreferencesQuery,
+  useUpdateUserPreferencesMutation,
+  useUpdatePrivacyPreferencesMutation,
+} from '../hooks/queries/useUserPreferences';
+import {
+  useUserEditingPresetsQuery,
+  useCreateEditingPresetMutation,
+  useRenameEditingPresetMutation,
+  useDeleteEditingPresetMutation,
+} from '../hooks/queries/useEditingPresets';
+import {
+  useUserLutPresetsQuery,
+  useCreateLutPresetMutation,
+  useDeleteLutPresetMutation,
+} from '../hooks/queries/useLutPresets';
+import { useSupabase } from '../hooks/useSupabase';
+import { useEditHistory } from '../hooks/useEditHistory';
 import ImageComparison from '../components/ImageComparison';
-import type { ImageAnalysisResult } from '../services/geminiService';
+import DifferenceOverlay from '../components/DifferenceOverlay';
+import LutPresetList from '../components/LutPresetList';
+import CropPreview from '../components/CropPreview';
+import UserPresetList from '../components/UserPresetList';
+import TextPromptModal from '../components/TextPromptModal';
+import { ImageService } from '../services/imageService';
+import {
+  AnalysisEngine,
+  compareMetrics,
+  getModelMetrics,
+  rationaleToOptions,
+  withoutAppliedAdjustments,
+  type AdjustmentName,
+} from '../services/analysisEngine';
+import type { PixelMetrics } from '../services/imaging/metrics';
+import type { CompositionAnalysis, CompositionAspect } from '../services/imaging/composition';
+import { describeCamera, describeCameraSettings } from '../services/imaging/exif';
+import { parseImageMetadata, resolveMetadataPrivacy } from '../services/imageMetadata';
+import {
+  EditingEngine,
+  type CropSuggestions,
+  type GeometrySuggestion,
+  type EditingOptions,
+  type ImageDifference,
+} from '../services/editingEngine';
+import { findOverProcessing } from '../services/imaging/difference';
+import { MIN_STRAIGHTEN_ANGLE } from '../services/imaging/geometry';
+import { CROP_RATIOS, type CropRatio } from '../services/imaging/smartCrop';
+import {
+  appendOperation,
+  createEditRecipe,
+  getGeometryOperations,
+  parseEditRecipe,
+  toEditRecipeJson,
+  type EditRecipe,
+} from '../services/editRecipe';
+import {
+  EDITING_PRESET_VERSION,
+  PRESET_CODE_PREFIX,
+  decodeEditingPreset,
+  decodePresetCode,
+  encodePresetCode,
+  isUserPresetStyle,
+  mergePresetOptions,
+  toPresetOptionsJson,
+  userPresetStyle,
+  type UserEditingPreset,
+} from '../services/editingPresets';
+import {
+  DEFAULT_EXPORT_PROFILE,
+  EXPORT_PROFILES,
+  describeExportProfile,
+  type ExportProfileId,
+} from '../services/exportProfiles';
+import {
+  normalizeEnhancementStrength,
+  resolveRecommendationPreferences,
+} from '../services/editingPreferences';
+import {
+  createLutPreset,
+  fromLutPresetRow,
+  releaseLutPreset,
+  toLutPresetInsert,
+  type LutPreset,
+} from '../services/lutPresets';
+import { decodeAnalysisData } from '../services/analysisData';
+
+const EDIT_ACTIONS: { label: string; options: EditingOptions }[] = [
+  ...Object.entries(EditingEngine.PRESETS).map(([name, options]) => ({
+    label: name.charAt(0) + name.slice(1).toLowerCase().replace(/_/g, ' '),
+    options,
+  })),
+  { label: 'Vignette', options: { vignette: { amount: -40, midpoint: 50, feather: 50 } } },
+  { label: 'Fade', options: { fade: 25 } },
+  { label: 'Split Tone', options: { splitToning: { shadowHue: 210, shadowSaturation: 30, highlightHue: 35, highlightSaturation: 30 } } },
+  { label: 'Grain', options: { grain: { amount: 25, size: 25, seed: 1 } } },
+  { label: 'Rotate', options: { rotate: 90 } },
+  { label: 'Auto Straighten', options: { autoStraighten: true } },
+];
+
+const LUT_INTENSITIES = [0.25, 0.5, 0.75, 1];
+
+const CROP_RATIO_OPTIONS = Object.keys(CROP_RATIOS) as CropRatio[];
+
+const COMPOSITION_ROWS: { key: CompositionAspect; label: string }[] = [
+  { key: 'ruleOfThirds', label: 'Rule of thirds' },
+  { key: 'balance', label: 'Balance' },
+  { key: 'headroom', label: 'Headroom' },
+  { key: 'horizon', label: 'Horizon' },
+];
+
+const EXPORT_PROFILE_OPTIONS = Object.keys(EXPORT_PROFILES) as ExportProfileId[];
+
+type ViewMode = 'compare' | 'enhanced' | 'difference';
+
+const VIEW_MODES: { key: ViewMode; label: string }[] = [
+  { key: 'compare', label: 'Before & After' },
+  { key: 'enhanced', label: 'Enhanced' },
+  { key: 'difference', label: 'Difference' },
+];
+
+type PresetPrompt =
+  | { kind: 'save' }
+  | { kind: 'import' }
+  | { kind: 'rename'; preset: UserEditingPreset };
 
 export default function ResultsScreen() {
   const { imageId } = useLocalSearchParams<{ imageId: string }>();
-  const [showComparison, setShowComparison] = useState(true);
+  const [viewMode, setViewMode] = useState<ViewMode>('compare');
+  const [difference, setDifference] = useState<ImageDifference | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [pixelMetrics, setPixelMetrics] = useState<PixelMetrics | null>(null);
+  const [composition, setComposition] = useState<CompositionAnalysis | null>(null);
+  const [rejectedAdjustments, setRejectedAdjustments] = useState<AdjustmentName[]>([]);
   const [saving, setSaving] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const [exportProfileId, setExportProfileId] = useState<ExportProfileId>(DEFAULT_EXPORT_PROFILE);
+  const [rendering, setRendering] = useState(false);
+  const [importingLut, setImportingLut] = useState(false);
+  const [lutIntensity, setLutIntensity] = useState(1);
+  const [previewSourceUri, setPreviewSourceUri] = useState<string | null>(null);
+  const [frameSourceUri, setFrameSourceUri] = useState<string | null>(null);
+  const [cropSuggestions, setCropSuggestions] = useState<CropSuggestions | null>(null);
+  const [findingCrops, setFindingCrops] = useState(false);
+  const [cropRatio, setCropRatio] = useState<CropRatio | null>(null);
+  const [geometry, setGeometry] = useState<GeometrySuggestion | null>(null);
+  const [detectingGeometry, setDetectingGeometry] = useState(false);
+  const [presetPrompt, setPresetPrompt] = useState<PresetPrompt | null>(null);
   const insets = useSafeAreaInsets();
 
+  const supabase = useSupabase();
+  const updateImageMutation = useUpdateImageMutation();
+  const createLutPresetMutation = useCreateLutPresetMutation();
+  const deleteLutPresetMutation = useDeleteLutPresetMutation();
+  const updatePreferencesMutation = useUpdateUserPreferencesMutation();
+  const updatePrivacyMutation = useUpdatePrivacyPreferencesMutation();
+  const createPresetMutation = useCreateEditingPresetMutation();
+  const renamePresetMutation = useRenameEditingPresetMutation();
+  const deletePresetMutation = useDeleteEditingPresetMutation();
+
   const {
     data: image,
     isLoading,
@@ -32,18 +185,273 @@ export default function ResultsScreen() {
     enabled: !!imageId,
   });
 
-  const analysisResult: ImageAnalysisResult | null = React.useMemo(() => {
-    if (!image?.analysis_data) return null;
-    
+  const analysisResult = React.useMemo(
+    () => decodeAnalysisData(image?.analysis_data),
+    [image?.analysis_data]
+  );
+
+  const storedRecipe = React.useMemo(
+    () => parseEditRecipe(image?.edit_recipe),
+    [image?.edit_recipe]
+  );
+  const editHistory = useEditHistory(storedRecipe);
+
+  const { data: preferences } = useUserPreferencesQuery(image?.user_id || '', {
+    enabled: !!image?.user_id,
+  });
+  const enhancementStrength = normalizeEnhancementStrength(preferences?.enhancement_strength);
+  const recommendationPreferences = React.useMemo(
+    () => resolveRecommendationPreferences(preferences),
+    [preferences]
+  );
+  const metadataPrivacy = resolveMetadataPrivacy(preferences);
+  const cameraMetadata = React.useMemo(
+    () => parseImageMetadata(image?.metadata),
+    [image?.metadata]
+  );
+  const cameraSettings = cameraMetadata ? describeCameraSettings(cameraMetadata) : null;
+  const { data: lutPresetRows } = useUserLutPresetsQuery(image?.user_id || '', {
+    enabled: !!image?.user_id,
+  });
+  const lutPresets = React.useMemo(
+    () => (lutPresetRows ?? []).map(fromLutPresetRow).filter((preset): preset is LutPreset => !!preset),
+    [lutPresetRows]
+  );
+
+  const { data: presetRows } = useUserEditingPresetsQuery(image?.user_id || '', {
+    enabled: !!image?.user_id,
+  });
+  const userPresets = React.useMemo(
+    () => (presetRows ?? []).map(decodeEditingPreset),
+    [presetRows]
+  );
+  const defaultPresetId = userPresets.find((preset) =>
+    isUserPresetStyle(preferences?.editing_style, preset.id)
+  )?.id;
+
+  // Keep a local copy of the original for LUT previews
+  useEffect(() => {
+    if (!image?.original_url) return;
+
+    let cancelled = false;
+    new ImageService(supabase)
+      .downloadToCache(image.original_url)
+      .then((uri) => {
+        if (!cancelled) setPreviewSourceUri(uri);
+      })
+      .catch((error) => console.error('Failed to prepare preview source:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [image?.original_url, supabase]);
+
+  // Measured metrics for the original, shown next to the model's scores
+  useEffect(() => {
+    if (!previewSourceUri) return;
+
+    let cancelled = false;
+    AnalysisEngine.measureImage(previewSourceUri)
+      .then((metrics) => {
+        if (!cancelled) setPixelMetrics(metrics);
+      })
+      .catch((error) => console.error('Failed to measure image metrics:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewSourceUri]);
+
+  // Crops and angles are appended to the recipe and replayed after its
+  // earlier crops and rotations, so they are measured on that frame
+  const geometryKey = JSON.stringify(getGeometryOperations(editHistory.recipe));
+  const geometryRecipe = React.useMemo(
+    () => createEditRecipe(JSON.parse(geometryKey) as EditingOptions[]),
+    [geometryKey]
+  );
+  useEffect(() => {
+    setCropSuggestions(null);
+    setCropRatio(null);
+    setGeometry(null);
+    if (!previewSourceUri || geometryRecipe.operations.length === 0) {
+      setFrameSourceUri(previewSourceUri);
+      return;
+    }
+
+    let cancelled = false;
+    setFrameSourceUri(null);
+    new EditingEngine()
+      .renderRecipe(previewSourceUri, geometryRecipe, { compress: 1, format: SaveFormat.PNG })
+      .then((result) => {
+        if (!cancelled) setFrameSourceUri(result.uri);
+      })
+      .catch((error) => console.error('Failed to render the current frame:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewSourceUri, geometryRecipe]);
+
+  // Subject regions refer to the original, so they only apply until the frame changes
+  const subjectRegions = geometryRecipe.operations.length === 0 ? analysisResult?.subjectRegions : undefined;
+  useEffect(() => {
+    setComposition(null);
+    if (!frameSourceUri) return;
+
+    let cancelled = false;
+    new EditingEngine()
+      .analyzeComposition(frameSourceUri, subjectRegions)
+      .then((result) => {
+        if (!cancelled) setComposition(result);
+      })
+      .catch((error) => console.error('Failed to analyze composition:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [frameSourceUri, subjectRegions]);
+
+  // A new render invalidates the previous difference map
+  useEffect(() => {
+    setDifference(null);
+  }, [image?.processed_url]);
+
+  useEffect(() => {
+    if (viewMode !== 'difference' || difference || !previewSourceUri || !image?.processed_url) return;
+
+    let cancelled = false;
+    setComparing(true);
+    new ImageService(supabase)
+      .downloadToCache(image.processed_url)
+      .then((processedUri) => new EditingEngine().compareImages(previewSourceUri, processedUri))
+      .then((result) => {
+        if (!cancelled) setDifference(result);
+      })
+      .catch((error) => {
+        console.error('Difference map failed:', error);
+        if (!cancelled) {
+          Alert.alert('Comparison Failed', 'Unable to build the difference map');
+          setViewMode('compare');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setComparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewMode, difference, previewSourceUri, image?.processed_url, supabase]);
+
+  const selectedCrop = cropSuggestions?.candidates.find((candidate) => candidate.ratio === cropRatio);
+
+  const selectCropRatio = async (ratio: CropRatio) => {
+    if (ratio === cropRatio) {
+      setCropRatio(null);
+      return;
+    }
+    setCropRatio(ratio);
+    if (cropSuggestions || !frameSourceUri) return;
+
+    try {
+      setFindingCrops(true);
+      const suggestions = await new EditingEngine().suggestCrops(frameSourceUri, CROP_RATIO_OPTIONS, subjectRegions);
+      setCropSuggestions(suggestions);
+    } catch (error) {
+      console.error('Smart crop failed:', error);
+      Alert.alert('Crop Failed', 'Unable to find crop suggestions');
+      setCropRatio(null);
+    } finally {
+      setFindingCrops(false);
+    }
+  };
+
+  const addCrop = () => {
+    if (!selectedCrop) return;
+
+    editHistory.addOperation({
+      crop: {
+        originX: selectedCrop.x,
+        originY: selectedCrop.y,
+        width: selectedCrop.width,
+        height: selectedCrop.height,
+      },
+    });
+    setCropRatio(null);
+  };
+
+  // Recommendations are recomputed from the measured original, so they
+  // follow the current preferences rather than those at analysis time
+  const recommendations = React.useMemo(() => {
+    if (!analysisResult || !pixelMetrics) return null;
+    const metrics = AnalysisEngine.calculateMetrics(analysisResult, pixelMetrics, composition);
+    return AnalysisEngine.generateRecommendations(analysisResult, metrics, recommendationPreferences);
+  }, [analysisResult, pixelMetrics, composition, recommendationPreferences]);
+  const pendingAdjustments = withoutAppliedAdjustments(
+    recommendations?.rationale ?? [],
+    editHistory.recipe.operations
+  );
+  const appliedAdjustmentCount = (recommendations?.rationale?.length ?? 0) - pendingAdjustments.length;
+  const acceptedAdjustments = pendingAdjustments.filter(
+    (entry) => !rejectedAdjustments.includes(entry.adjustment)
+  );
+
+  const toggleAdjustment = (adjustment: AdjustmentName) => {
+    setRejectedAdjustments((current) =>
+      current.includes(adjustment)
+        ? current.filter((name) => name !== adjustment)
+        : [...current, adjustment]
+    );
+  };
+
+  const applyAdjustments = () => {
+    if (acceptedAdjustments.length === 0) return;
+
+    const recipe = appendOperation(editHistory.recipe, rationaleToOptions(acceptedAdjustments));
+    editHistory.pushRecipe(recipe);
+    renderEdits(recipe);
+  };
+
+  const addSuggestedFraming = () => {
+    if (!composition?.bestFraming) return;
+
+    const { x, y, width, height } = composition.bestFraming;
+    editHistory.addOperation({ crop: { originX: x, originY: y, width, height } });
+  };
+
+  const detectGeometry = async () => {
+    if (!frameSourceUri) return;
+
+    try {
+      setDetectingGeometry(true);
+      setGeometry(await new EditingEngine().suggestGeometry(frameSourceUri));
+    } catch (error) {
+      console.error('Geometry detection failed:', error);
+      Alert.alert('Detection Failed', 'Unable to analyze the horizon and verticals');
+    } finally {
+      setDetectingGeometry(false);
+    }
+  };
+
+  const exportProcessedImage = async () => {
+    const localUri = await new ImageService(supabase).downloadToCache(image!.processed_url!);
+    return await new EditingEngine().exportImage(
+      localUri,
+      exportProfileId,
+      cameraMetadata ? { metadata: cameraMetadata, privacy: metadataPrivacy } : undefined
+    );
+  };
+
+  const updateMetadataPrivacy = async (stripGps: boolean, stripSerialNumbers: boolean) => {
+    if (!image?.user_id) return;
+
     try {
-      return typeof image.analysis_data === 'string' 
-        ? JSON.parse(image.analysis_data)
-        : image.analysis_data;
+      await updatePrivacyMutation.mutateAsync({ userId: image.user_id, stripGps, stripSerialNumbers });
     } catch (error) {
-      console.error('Failed to parse analysis data:', error);
-      return null;
+      console.error('Privacy setting update failed:', error);
+      Alert.alert('Update Failed', 'Unable to save your privacy setting');
     }
-  }, [image?.analysis_data]);
+  };
 
   const saveToGallery = async () => {
     if (!image?.processed_url) {
@@ -61,18 +469,14 @@ export default function ResultsScreen() {
         return;
       }
 
-      // Download the image
-      const downloadResult = await FileSystem.downloadAsync(
-        image.processed_url,
-        FileSystem.documentDirectory + `processed_${Date.now()}.jpg`
-      );
+      const exported = await exportProcessedImage();
 
       // Save to media library
-      await MediaLibrary.saveToLibraryAsync(downloadResult.uri);
+      await MediaLibrary.saveToLibraryAsync(exported.uri);
 
       Alert.alert(
         'Success!',
-        'Enhanced image saved to your photo library',
+        `Enhanced image saved to your photo library (${EXPORT_PROFILES[exportProfileId].name})`,
         [{ text: 'OK' }]
       );
 
@@ -91,8 +495,11 @@ export default function ResultsScreen() {
     }
 
     try {
+      setSharing(true);
+      const exported = await exportProcessedImage();
+
       const result = await Share.share({
-        url: image.processed_url,
+        url: exported.uri,
         message: 'Enhanced with AI Image Editor',
       });
 
@@ -102,9 +509,192 @@ export default function ResultsScreen() {
     } catch (error) {
       console.error('Share failed:', error);
       Alert.alert('Share Failed', 'Unable to share image');
+    } finally {
+      setSharing(false);
     }
   };
 
+  const renderEdits = async (recipe: EditRecipe = editHistory.recipe) => {
+    if (!image?.user_id) return;
+
+    try {
+      setRendering(true);
+
+      const imageService = new ImageService(supabase);
+      const editingEngine = new EditingEngine();
+      editingEngine.registerLutPresets(lutPresets);
+
+      // Always start from the original so edits don't compound compression losses
+      const originalUri = await imageService.downloadToCache(image.original_url);
+      const rendered = await editingEngine.renderRecipe(originalUri, recipe);
+
+      const uploadResult = await imageService.uploadImage(
+        rendered.uri,
+        image.user_id,
+        `edited_${Date.now()}.jpeg`
+      );
+
+      await updateImageMutation.mutateAsync({
+        imageId: image.id,
+        updates: {
+          processed_url: uploadResult.publicUrl,
+          edit_recipe: toEditRecipeJson(recipe),
+        },
+      });
+    } catch (error) {
+      console.error('Re-render failed:', error);
+      Alert.alert('Render Failed', 'Unable to apply your edits');
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  const importLut = async () => {
+    if (!image?.user_id) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      if (!asset.name.toLowerCase().endsWith('.cube')) {
+        Alert.alert('Unsupported File', 'Please choose a .cube LUT file');
+        return;
+      }
+
+      setImportingLut(true);
+      const cubeText = await FileSystem.readAsStringAsync(asset.uri);
+      const preset = createLutPreset(asset.name.replace(/\.cube$/i, ''), cubeText);
+
+      await createLutPresetMutation.mutateAsync(toLutPresetInsert(preset, image.user_id));
+    } catch (error) {
+      console.error('LUT import failed:', error);
+      Alert.alert(
+        'Import Failed',
+        error instanceof Error ? error.message : 'Unable to import LUT'
+      );
+    } finally {
+      setImportingLut(false);
+    }
+  };
+
+  const deleteLut = (preset: LutPreset) => {
+    if (!image?.user_id) return;
+    const userId = image.user_id;
+
+    Alert.alert('Delete Look', `Remove "${preset.name}" from your presets?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteLutPresetMutation.mutateAsync({ presetId: preset.id, userId });
+            releaseLutPreset(preset.id);
+          } catch (error) {
+            console.error('LUT delete failed:', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const savePreset = async (name: string, options: EditingOptions) => {
+    if (!image?.user_id) return;
+
+    try {
+      await createPresetMutation.mutateAsync({
+        user_id: image.user_id,
+        name,
+        schema_version: EDITING_PRESET_VERSION,
+        options: toPresetOptionsJson(options),
+      });
+    } catch (error) {
+      console.error('Preset save failed:', error);
+      Alert.alert('Save Failed', 'Unable to save preset');
+    }
+  };
+
+  const saveCurrentAsPreset = () => {
+    if (Object.keys(mergePresetOptions(editHistory.recipe.operations)).length === 0) {
+      Alert.alert('Nothing to Save', 'Add some edits before saving them as a preset');
+      return;
+    }
+    setPresetPrompt({ kind: 'save' });
+  };
+
+  const submitPresetPrompt = async (value: string) => {
+    const prompt = presetPrompt;
+    setPresetPrompt(null);
+    if (!prompt) return;
+
+    if (prompt.kind === 'save') {
+      await savePreset(value, mergePresetOptions(editHistory.recipe.operations));
+    } else if (prompt.kind === 'rename') {
+      try {
+        await renamePresetMutation.mutateAsync({ presetId: prompt.preset.id, name: value });
+      } catch (error) {
+        console.error('Preset rename failed:', error);
+        Alert.alert('Rename Failed', 'Unable to rename preset');
+      }
+    } else {
+      try {
+        const imported = decodePresetCode(value);
+        await savePreset(imported.name, imported.options);
+      } catch (error) {
+        Alert.alert(
+          'Import Failed',
+          error instanceof Error ? error.message : 'Unable to import preset'
+        );
+      }
+    }
+  };
+
+  const setDefaultPreset = async (preset: UserEditingPreset) => {
+    if (!image?.user_id) return;
+
+    try {
+      await updatePreferencesMutation.mutateAsync({
+        userId: image.user_id,
+        updates: { editing_style: userPresetStyle(preset.id) },
+      });
+    } catch (error) {
+      console.error('Default preset update failed:', error);
+      Alert.alert('Update Failed', 'Unable to set default preset');
+    }
+  };
+
+  const sharePreset = async (preset: UserEditingPreset) => {
+    try {
+      await Share.share({ message: encodePresetCode(preset) });
+    } catch (error) {
+      console.error('Preset share failed:', error);
+    }
+  };
+
+  const deletePreset = (preset: UserEditingPreset) => {
+    if (!image?.user_id) return;
+    const userId = image.user_id;
+
+    Alert.alert('Delete Preset', `Remove "${preset.name}" from your presets?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deletePresetMutation.mutateAsync({ presetId: preset.id, userId });
+          } catch (error) {
+            console.error('Preset delete failed:', error);
+          }
+        },
+      },
+    ]);
+  };
+
   const goBack = () => {
     router.back();
   };
@@ -151,7 +741,7 @@ export default function ResultsScreen() {
           <Ionicons name="arrow-back" size={24} color="#007AFF" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Enhanced Result</Text>
-        <TouchableOpacity style={styles.headerButton} onPress={shareImage}>
+        <TouchableOpacity style={styles.headerButton} onPress={shareImage} disabled={sharing}>
           <Ionicons name="share" size={24} color="#007AFF" />
         </TouchableOpacity>
       </View>
@@ -159,30 +749,39 @@ export default function ResultsScreen() {
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {/* Toggle View */}
         <View style={styles.toggleContainer}>
-          <TouchableOpacity
-            style={[styles.toggleButton, showComparison && styles.toggleButtonActive]}
-            onPress={() => setShowComparison(true)}
-          >
-            <Text style={[styles.toggleText, showComparison && styles.toggleTextActive]}>
-              Before & After
-            </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.toggleButton, !showComparison && styles.toggleButtonActive]}
-            onPress={() => setShowComparison(false)}
-          >
-            <Text style={[styles.toggleText, !showComparison && styles.toggleTextActive]}>
-              Enhanced Only
-            </Text>
-          </TouchableOpacity>
+          {VIEW_MODES.map((mode) => (
+            <TouchableOpacity
+              key={mode.key}
+              style={[styles.toggleButton, viewMode === mode.key && styles.toggleButtonActive]}
+              onPress={() => setViewMode(mode.key)}
+            >
+              <Text style={[styles.toggleText, viewMode === mode.key && styles.toggleTextActive]}>
+                {mode.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
 
         {/* Image Display */}
-        {showComparison ? (
+        {viewMode === 'compare' ? (
           <ImageComparison
             originalUrl={image.original_url}
             processedUrl={image.processed_url}
           />
+        ) : viewMode === 'difference' ? (
+          difference ? (
+            <DifferenceOverlay
+              imageUrl={image.processed_url}
+              heatmaps={difference.heatmaps}
+              aspectRatio={difference.width / difference.height}
+            />
+          ) : (
+            <View style={styles.differencePlaceholder}>
+              <Text style={styles.loadingText}>
+                {comparing ? 'Measuring changes...' : 'Preparing comparison...'}
+              </Text>
+            </View>
+          )
         ) : (
           <View style={styles.singleImageContainer}>
             <Image
@@ -194,6 +793,58 @@ export default function ResultsScreen() {
           </View>
         )}
 
+        {/* Change Report */}
+        {viewMode === 'difference' && difference && (
+          <View style={styles.analysisContainer}>
+            <Text style={styles.sectionTitle}>Change Report</Text>
+            <View style={styles.summaryGrid}>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Mean ΔE</Text>
+                <Text style={styles.summaryValue}>{difference.stats.meanDeltaE.toFixed(1)}</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>95th pct ΔE</Text>
+                <Text style={styles.summaryValue}>{difference.stats.p95DeltaE.toFixed(1)}</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Visibly Changed</Text>
+                <Text style={styles.summaryValue}>{Math.round(difference.stats.changedPercent)}%</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Brightness Shift</Text>
+                <Text style={styles.summaryValue}>
+                  {difference.stats.meanLumaShift > 0 ? '+' : ''}
+                  {difference.stats.meanLumaShift.toFixed(1)} L*
+                </Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Clipped Highlights</Text>
+                <Text style={styles.summaryValue}>
+                  {difference.stats.clipping.before.highlights}% → {difference.stats.clipping.after.highlights}%
+                </Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryLabel}>Crushed Shadows</Text>
+                <Text style={styles.summaryValue}>
+                  {difference.stats.clipping.before.shadows}% → {difference.stats.clipping.after.shadows}%
+                </Text>
+              </View>
+            </View>
+
+            {difference.geometryChanged && (
+              <Text style={styles.editStepsText}>
+                The framing changed, so part of the difference comes from cropping or rotation.
+              </Text>
+            )}
+            {findOverProcessing(difference.stats).map((warning) => (
+              <View key={warning} style={styles.warningRow}>
+                <Ionicons name="warning" size={16} color="#FF9500" />
+                <Text style={styles.warningText}>{warning}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Analysis Summary */}
         {analysisResult && (
           <View style={styles.analysisContainer}>
@@ -242,6 +893,384 @@ export default function ResultsScreen() {
           </View>
         )}
 
+        {/* Image Metrics */}
+        {(pixelMetrics || analysisResult) && (
+          <View style={styles.analysisContainer}>
+            <Text style={styles.sectionTitle}>Image Metrics</Text>
+            <View style={styles.metricsRow}>
+              <Text style={[styles.metricsLabel, styles.metricsHeader]}>Metric</Text>
+              <Text style={[styles.metricsValue, styles.metricsHeader]}>Measured</Text>
+              <Text style={[styles.metricsValue, styles.metricsHeader]}>Model</Text>
+            </View>
+            {compareMetrics(
+              pixelMetrics && { ...pixelMetrics, composition: composition?.scores.overall },
+              analysisResult ? getModelMetrics(analysisResult) : null
+            ).map((row) => (
+              <View key={row.key} style={styles.metricsRow}>
+                <Text style={styles.metricsLabel}>{row.label}</Text>
+                <Text style={styles.metricsValue}>
+                  {row.measured !== undefined ? Math.round(row.measured) : '—'}
+                </Text>
+                <Text style={styles.metricsValue}>
+                  {row.model !== undefined ? Math.round(row.model) : '—'}
+                </Text>
+              </View>
+            ))}
+            <Text style={styles.metricsNote}>
+              Measured from the original's pixels. Model scores from the vision provider rate quality, so they are a second opinion rather than the same scale.
+            </Text>
+          </View>
+        )}
+
+        {/* Composition */}
+        {composition && (
+          <View style={styles.analysisContainer}>
+            <Text style={styles.sectionTitle}>Composition</Text>
+            {COMPOSITION_ROWS.map((row) => (
+              <View key={row.key} style={styles.compositionRow}>
+                <View style={styles.metricsRow}>
+                  <Text style={styles.metricsLabel}>{row.label}</Text>
+                  <Text style={styles.metricsValue}>{composition.scores[row.key]}</Text>
+                </View>
+                <Text style={styles.compositionNote}>{composition.explanations[row.key]}</Text>
+              </View>
+            ))}
+            {composition.bestFraming && composition.bestFramingScore !== null && (
+              <View style={styles.cropFooter}>
+                <Text style={styles.cropScoreText}>
+                  Tighter framing scores {composition.bestFramingScore} (now {composition.scores.overall})
+                </Text>
+                <TouchableOpacity style={styles.objectTag} onPress={addSuggestedFraming} disabled={rendering}>
+                  <Text style={styles.objectTagText}>Add Crop</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Recommended Adjustments */}
+        {recommendations && pendingAdjustments.length > 0 && (
+          <View style={styles.analysisContainer}>
+            <Text style={styles.sectionTitle}>Recommended Adjustments</Text>
+            {pendingAdjustments.map((entry) => (
+              <View key={entry.adjustment} style={styles.compositionRow}>
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>
+                    {entry.adjustment === 'reduceNoise'
+                      ? 'Noise reduction'
+                      : `${entry.adjustment.charAt(0).toUpperCase()}${entry.adjustment.slice(1)} ${entry.value > 0 ? '+' : ''}${Math.round(entry.value)}`}
+                  </Text>
+                  <Switch
+                    value={!rejectedAdjustments.includes(entry.adjustment)}
+                    onValueChange={() => toggleAdjustment(entry.adjustment)}
+                    disabled={rendering}
+                  />
+                </View>
+                <Text style={styles.compositionNote}>{entry.reason}</Text>
+              </View>
+            ))}
+            {recommendations.adjustedFor?.map((adjustment) => (
+              <Text key={adjustment.preference} style={styles.metricsNote}>
+                {adjustment.description}
+              </Text>
+            ))}
+            {appliedAdjustmentCount > 0 && (
+              <Text style={styles.metricsNote}>
+                {appliedAdjustmentCount} more already applied in your edits.
+              </Text>
+            )}
+            <TouchableOpacity
+              style={[styles.actionButton, styles.galleryButton]}
+              onPress={applyAdjustments}
+              disabled={rendering || acceptedAdjustments.length === 0}
+            >
+              <Ionicons name="checkmark-done" size={20} color="white" />
+              <Text style={styles.actionButtonText}>
+                {rendering
+                  ? 'Rendering...'
+                  : `Apply ${acceptedAdjustments.length} & Render`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Color Palette */}
+        {analysisResult?.palette && analysisResult.palette.length > 0 && (
+          <View style={styles.analysisContainer}>
+            <Text style={styles.sectionTitle}>Colors</Text>
+            <View style={styles.paletteBar}>
+              {analysisResult.palette.map((swatch) => (
+                <View
+                  key={swatch.hex}
+                  style={{ flex: swatch.proportion, backgroundColor: swatch.hex }}
+                />
+              ))}
+            </View>
+            <View style={styles.objectTags}>
+              {analysisResult.palette.map((swatch) => (
+                <View key={swatch.hex} style={styles.paletteSwatch}>
+                  <View style={[styles.paletteDot, { backgroundColor: swatch.hex }]} />
+                  <Text style={styles.paletteText}>
+                    {swatch.hex} · {Math.round(swatch.proportion * 100)}%
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Camera Metadata */}
+        {cameraMetadata && (describeCamera(cameraMetadata) || cameraSettings || cameraMetadata.capturedAt) && (
+          <View style={styles.analysisContainer}>
+            <Text style={styles.sectionTitle}>Camera</Text>
+            {[
+              {
+                label: 'Camera',
+                value: describeCamera(cameraMetadata),
+              },
+              { label: 'Lens', value: cameraMetadata.lensModel },
+              { label: 'Settings', value: cameraSettings },
+              {
+                label: 'Captured',
+                value: cameraMetadata.capturedAt && new Date(cameraMetadata.capturedAt).toLocaleString(),
+              },
+              {
+                label: 'Location',
+                value: cameraMetadata.gps &&
+                  `${cameraMetadata.gps.latitude.toFixed(4)}, ${cameraMetadata.gps.longitude.toFixed(4)}`,
+              },
+              { label: 'Serial', value: cameraMetadata.bodySerialNumber },
+            ]
+              .filter((row) => !!row.value)
+              .map((row) => (
+                <View key={row.label} style={styles.metricsRow}>
+                  <Text style={styles.metricsLabel}>{row.label}</Text>
+                  <Text style={styles.cameraValue}>{row.value}</Text>
+                </View>
+              ))}
+          </View>
+        )}
+
+        {/* Edit Recipe */}
+        <View style={styles.analysisContainer}>
+          <View style={styles.editHeader}>
+            <Text style={styles.sectionTitle}>Edits</Text>
+            <View style={styles.editHistoryButtons}>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={editHistory.undo}
+                disabled={!editHistory.canUndo || rendering}
+              >
+                <Ionicons name="arrow-undo" size={20} color={editHistory.canUndo ? '#007AFF' : '#C7C7CC'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={editHistory.redo}
+                disabled={!editHistory.canRedo || rendering}
+              >
+                <Ionicons name="arrow-redo" size={20} color={editHistory.canRedo ? '#007AFF' : '#C7C7CC'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.objectTags}>
+            {EDIT_ACTIONS.map((action) => (
+              <TouchableOpacity
+                key={action.label}
+                style={styles.objectTag}
+                onPress={() =>
+                  editHistory.addOperation(EditingEngine.withEnhancementStrength(action.options, enhancementStrength))
+                }
+                disabled={rendering}
+              >
+                <Text style={styles.objectTagText}>{action.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={[styles.objectsTitle, styles.editSubsectionTitle]}>My Presets</Text>
+          <UserPresetList
+            presets={userPresets}
+            defaultPresetId={defaultPresetId}
+            disabled={rendering}
+            onApply={(preset) =>
+              editHistory.addOperation(EditingEngine.withEnhancementStrength(preset.options, enhancementStrength))
+            }
+            onSaveCurrent={saveCurrentAsPreset}
+            onImport={() => setPresetPrompt({ kind: 'import' })}
+            onSetDefault={setDefaultPreset}
+            onDuplicate={(preset) => savePreset(`${preset.name} copy`, preset.options)}
+            onRename={(preset) => setPresetPrompt({ kind: 'rename', preset })}
+            onShare={sharePreset}
+            onDelete={deletePreset}
+          />
+
+          <Text style={[styles.objectsTitle, styles.editSubsectionTitle]}>Looks</Text>
+          <View style={styles.intensityRow}>
+            {LUT_INTENSITIES.map((intensity) => (
+              <TouchableOpacity
+                key={intensity}
+                style={[styles.intensityChip, lutIntensity === intensity && styles.intensityChipActive]}
+                onPress={() => setLutIntensity(intensity)}
+              >
+                <Text style={[styles.intensityText, lutIntensity === intensity && styles.intensityTextActive]}>
+                  {Math.round(intensity * 100)}%
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <LutPresetList
+            presets={lutPresets}
+            previewSourceUri={previewSourceUri}
+            intensity={lutIntensity}
+            importing={importingLut}
+            disabled={rendering}
+            onImport={importLut}
+            onDelete={deleteLut}
+            onSelect={(preset) =>
+              editHistory.addOperation({ lut: { presetId: preset.id, intensity: lutIntensity } })
+            }
+          />
+
+          <Text style={[styles.objectsTitle, styles.editSubsectionTitle]}>Smart Crop</Text>
+          <View style={styles.intensityRow}>
+            {CROP_RATIO_OPTIONS.map((ratio) => (
+              <TouchableOpacity
+                key={ratio}
+                style={[styles.intensityChip, cropRatio === ratio && styles.intensityChipActive]}
+                onPress={() => selectCropRatio(ratio)}
+                disabled={!frameSourceUri || findingCrops || rendering}
+              >
+                <Text style={[styles.intensityText, cropRatio === ratio && styles.intensityTextActive]}>
+                  {ratio}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {findingCrops && <Text style={styles.editStepsText}>Finding the best crop...</Text>}
+          {cropSuggestions && selectedCrop && frameSourceUri && (
+            <View>
+              <CropPreview
+                imageUri={frameSourceUri}
+                imageWidth={cropSuggestions.width}
+                imageHeight={cropSuggestions.height}
+                crop={selectedCrop}
+              />
+              <View style={styles.cropFooter}>
+                <Text style={styles.cropScoreText}>
+                  Crop score {Math.round(selectedCrop.score * 100)}%
+                </Text>
+                <TouchableOpacity style={styles.objectTag} onPress={addCrop} disabled={rendering}>
+                  <Text style={styles.objectTagText}>Add Crop</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          <Text style={[styles.objectsTitle, styles.editSubsectionTitle]}>Straighten</Text>
+          <TouchableOpacity
+            style={styles.objectTag}
+            onPress={detectGeometry}
+            disabled={!frameSourceUri || detectingGeometry || rendering}
+          >
+            <Text style={styles.objectTagText}>
+              {detectingGeometry ? 'Detecting...' : 'Detect Horizon & Verticals'}
+            </Text>
+          </TouchableOpacity>
+          {geometry && (
+            <View>
+              <View style={styles.cropFooter}>
+                <Text style={styles.cropScoreText}>
+                  {geometry.straighten && Math.abs(geometry.straighten.angle) >= MIN_STRAIGHTEN_ANGLE
+                    ? `${geometry.straighten.family === 'horizon' ? 'Horizon' : 'Verticals'} off by ${Math.abs(geometry.straighten.angle).toFixed(1)}° (${Math.round(geometry.straighten.confidence * 100)}% confidence)`
+                    : 'No tilt detected'}
+                </Text>
+                {geometry.straighten && Math.abs(geometry.straighten.angle) >= MIN_STRAIGHTEN_ANGLE && (
+                  <TouchableOpacity
+                    style={styles.objectTag}
+                    onPress={() => editHistory.addOperation({ straighten: geometry.straighten!.angle })}
+                    disabled={rendering}
+                  >
+                    <Text style={styles.objectTagText}>Straighten</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {geometry.keystone !== 0 && (
+                <View style={styles.cropFooter}>
+                  <Text style={styles.cropScoreText}>
+                    Verticals {geometry.keystone > 0 ? 'converge' : 'diverge'} toward the top
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.objectTag}
+                    onPress={() => editHistory.addOperation({ keystone: { vertical: geometry.keystone } })}
+                    disabled={rendering}
+                  >
+                    <Text style={styles.objectTagText}>Fix Keystone</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          )}
+
+          <Text style={styles.editStepsText}>
+            {editHistory.recipe.operations.length === 0
+              ? 'No edits yet'
+              : `${editHistory.recipe.operations.length} edit${editHistory.recipe.operations.length === 1 ? '' : 's'} in recipe`}
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.actionButton, styles.galleryButton]}
+            onPress={() => renderEdits()}
+            disabled={rendering}
+          >
+            <Ionicons name="color-wand" size={20} color="white" />
+            <Text style={styles.actionButtonText}>
+              {rendering ? 'Rendering...' : 'Render from Original'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Export Profile */}
+        <View style={styles.analysisContainer}>
+          <Text style={styles.sectionTitle}>Export</Text>
+          <View style={styles.objectTags}>
+            {EXPORT_PROFILE_OPTIONS.map((profileId) => (
+              <TouchableOpacity
+                key={profileId}
+                style={[styles.intensityChip, exportProfileId === profileId && styles.intensityChipActive]}
+                onPress={() => setExportProfileId(profileId)}
+                disabled={saving || sharing}
+              >
+                <Text style={[styles.intensityText, exportProfileId === profileId && styles.intensityTextActive]}>
+                  {EXPORT_PROFILES[profileId].name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.exportDescription}>
+            {describeExportProfile(EXPORT_PROFILES[exportProfileId])}
+          </Text>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Include location</Text>
+            <Switch
+              value={!metadataPrivacy.stripGps}
+              onValueChange={(include) => updateMetadataPrivacy(!include, metadataPrivacy.stripSerialNumbers)}
+              disabled={updatePrivacyMutation.isPending || !preferences}
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Include camera serial numbers</Text>
+            <Switch
+              value={!metadataPrivacy.stripSerialNumbers}
+              onValueChange={(include) => updateMetadataPrivacy(metadataPrivacy.stripGps, !include)}
+              disabled={updatePrivacyMutation.isPending || !preferences}
+            />
+          </View>
+          <Text style={styles.metricsNote}>
+            Applies to uploaded and exported JPEGs. Other camera settings are always kept.
+          </Text>
+        </View>
+
         {/* Action Buttons */}
         <View style={styles.actionContainer}>
           <TouchableOpacity
@@ -264,6 +1293,24 @@ export default function ResultsScreen() {
           </TouchableOpacity>
         </View>
       </ScrollView>
+
+      <TextPromptModal
+        visible={!!presetPrompt}
+        title={
+          presetPrompt?.kind === 'import'
+            ? 'Import Preset'
+            : presetPrompt?.kind === 'rename'
+              ? 'Rename Preset'
+              : 'Save Preset'
+        }
+        message={presetPrompt?.kind === 'import' ? 'Paste a preset code shared with you' : undefined}
+        placeholder={presetPrompt?.kind === 'import' ? `${PRESET_CODE_PREFIX}...` : 'Preset name'}
+        initialValue={presetPrompt?.kind === 'rename' ? presetPrompt.preset.name : ''}
+        submitLabel={presetPrompt?.kind === 'import' ? 'Import' : 'Save'}
+        multiline={presetPrompt?.kind === 'import'}
+        onSubmit={submitPresetPrompt}
+        onCancel={() => setPresetPrompt(null)}
+      />
       </SafeAreaView>
     </>
   );
@@ -373,6 +1420,25 @@ const styles = StyleSheet.create({
   toggleTextActive: {
     color: '#FFFFFF',
   },
+  differencePlaceholder: {
+    margin: 16,
+    height: 240,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
   singleImageContainer: {
     margin: 16,
     borderRadius: 16,
@@ -435,6 +1501,88 @@ const styles = StyleSheet.create({
     color: '#1C1C1E',
     fontWeight: '700',
   },
+  metricsRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  metricsHeader: {
+    color: '#8E8E93',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  metricsLabel: {
+    flex: 2,
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  metricsValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1C1C1E',
+    textAlign: 'right',
+  },
+  paletteBar: {
+    flexDirection: 'row',
+    height: 32,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  paletteSwatch: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+  },
+  paletteDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  paletteText: {
+    fontSize: 12,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  cameraValue: {
+    flex: 3,
+    fontSize: 14,
+    color: '#1C1C1E',
+    textAlign: 'right',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  compositionRow: {
+    marginBottom: 8,
+  },
+  compositionNote: {
+    fontSize: 12,
+    color: '#8E8E93',
+    lineHeight: 16,
+  },
+  metricsNote: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 12,
+    lineHeight: 16,
+  },
   objectsSection: {
     marginTop: 20,
   },
@@ -460,6 +1608,63 @@ const styles = StyleSheet.create({
     color: '#1C1C1E',
     fontWeight: '500',
   },
+  editHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  editHistoryButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  editSubsectionTitle: {
+    marginTop: 20,
+  },
+  intensityRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  intensityChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+  },
+  intensityChipActive: {
+    backgroundColor: '#007AFF',
+  },
+  intensityText: {
+    fontSize: 13,
+    color: '#1C1C1E',
+    fontWeight: '600',
+  },
+  intensityTextActive: {
+    color: '#FFFFFF',
+  },
+  cropFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  cropScoreText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    fontWeight: '500',
+  },
+  exportDescription: {
+    fontSize: 14,
+    color: '#8E8E93',
+    fontWeight: '500',
+    marginTop: 12,
+  },
+  editStepsText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    fontWeight: '500',
+    marginVertical: 16,
+  },
   actionContainer: {
     padding: 16,
     gap: 12,
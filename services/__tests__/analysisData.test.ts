@@ -0,0 +1,111 @@
+import { ANALYSIS_SCHEMA_VERSION, decodeAnalysisData, encodeAnalysisData } from '../analysisData';
+import type { ImageAnalysisResult } from '../geminiService';
+
+const analysis: ImageAnalysisResult = {
+  imageType: 'landscape',
+  confidence: 0.9,
+  technicalQuality: { exposure: 0.8, sharpness: 0.6, composition: 0.7, overall: 0.7 },
+  detectedObjects: ['mountain', 'lake'],
+  subjectRegions: [{ label: 'mountain', x: 0.2, y: 0.1, width: 0.5, height: 0.4 }],
+  mood: 'calm',
+  suggestedImprovements: ['Boost contrast'],
+  editingIntensity: 'light',
+  palette: [{ hex: '#336699', proportion: 0.4 }],
+};
+
+describe('decodeAnalysisData', () => {
+  it('returns null for missing or unrelated values', () => {
+    expect(decodeAnalysisData(null)).toBeNull();
+    expect(decodeAnalysisData('')).toBeNull();
+    expect(decodeAnalysisData([1, 2])).toBeNull();
+    expect(decodeAnalysisData({ foo: 'bar' })).toBeNull();
+  });
+
+  it('returns null for unparseable strings', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(decodeAnalysisData('{not json')).toBeNull();
+  });
+
+  it('round-trips what encodeAnalysisData writes', () => {
+    const decoded = decodeAnalysisData(encodeAnalysisData(analysis));
+    expect(decoded).toEqual({ ...analysis, schemaVersion: ANALYSIS_SCHEMA_VERSION });
+  });
+
+  it('parses rows stored as JSON strings', () => {
+    expect(decodeAnalysisData(JSON.stringify(analysis))?.imageType).toBe('landscape');
+  });
+
+  it('fills defaults and clamps out-of-range values', () => {
+    const decoded = decodeAnalysisData({
+      imageType: 'portrait',
+      confidence: 4,
+      technicalQuality: { exposure: -1, sharpness: 'high' },
+      detectedObjects: ['face', 3],
+      subjectRegions: [{ x: 0.8, y: 0.5, width: 0.9, height: 0.2 }, { x: 'left' }],
+      editingIntensity: 'extreme',
+      palette: [{ hex: '#abcdef', proportion: 2 }, { hex: 'blue', proportion: 0.1 }],
+    })!;
+
+    expect(decoded.schemaVersion).toBe(ANALYSIS_SCHEMA_VERSION);
+    expect(decoded.confidence).toBe(1);
+    expect(decoded.technicalQuality).toEqual({ exposure: 0, sharpness: 0.7, composition: 0.7, overall: 0.7 });
+    expect(decoded.detectedObjects).toEqual(['face']);
+    expect(decoded.subjectRegions).toHaveLength(1);
+    expect(decoded.subjectRegions![0].width).toBeCloseTo(0.2);
+    expect(decoded.mood).toBe('neutral');
+    expect(decoded.editingIntensity).toBe('medium');
+    expect(decoded.palette).toEqual([{ hex: '#ABCDEF', proportion: 1 }]);
+  });
+
+  it('drops malformed measured details', () => {
+    const decoded = decodeAnalysisData({
+      ...analysis,
+      metrics: { sharpness: 50 },
+      composition: { scores: 'good' },
+      recommendations: { adjustBrightness: 10 },
+    })!;
+
+    expect(decoded.metrics).toBeUndefined();
+    expect(decoded.composition).toBeUndefined();
+    expect(decoded.recommendations).toBeUndefined();
+  });
+
+  it('keeps valid recommendations with their rationale', () => {
+    const decoded = decodeAnalysisData({
+      ...analysis,
+      recommendations: {
+        adjustBrightness: 12,
+        adjustContrast: 0,
+        adjustSaturation: 0,
+        adjustSharpness: 0,
+        reduceNoise: 'yes',
+        rationale: [
+          {
+            adjustment: 'brightness',
+            value: 12,
+            metric: 'brightness',
+            comparison: 'below',
+            threshold: 40,
+            before: 30,
+            expectedAfter: 41,
+            reason: 'Brightness is low',
+          },
+          { adjustment: 'contrast' },
+        ],
+      },
+    })!;
+
+    expect(decoded.recommendations!.reduceNoise).toBe(false);
+    expect(decoded.recommendations!.rationale).toHaveLength(1);
+  });
+
+  it('warns about rows written by a newer version', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    decodeAnalysisData({ ...analysis, schemaVersion: ANALYSIS_SCHEMA_VERSION + 1 });
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
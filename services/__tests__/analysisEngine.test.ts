@@ -0,0 +1,88 @@
+import { AnalysisEngine, compareMetrics, rationaleToOptions, withoutAppliedAdjustments } from '../analysisEngine';
+import type { ImageAnalysisResult } from '../geminiService';
+
+describe('compareMetrics', () => {
+  it('compares the model exposure rating with measured exposure quality, not brightness', () => {
+    const rows = compareMetrics(
+      { brightness: 30, sharpness: 60 },
+      { exposure: 55, sharpness: 70, composition: 65, overall: 60 }
+    );
+
+    expect(rows.find((row) => row.key === 'brightness')).toEqual({
+      key: 'brightness',
+      label: 'Brightness',
+      measured: 30,
+    });
+    const exposure = rows.find((row) => row.key === 'exposure')!;
+    expect(exposure.model).toBe(55);
+    expect(exposure.measured).toBeGreaterThanOrEqual(0);
+    expect(exposure.measured).toBeLessThan(100);
+  });
+
+  it('leaves measured values empty without pixel metrics', () => {
+    expect(compareMetrics(null, null).every((row) => row.measured === undefined && row.model === undefined)).toBe(
+      true
+    );
+  });
+});
+
+describe('generateRecommendations', () => {
+  const analysis: ImageAnalysisResult = {
+    imageType: 'street',
+    confidence: 0.9,
+    technicalQuality: { exposure: 0.9, sharpness: 0.8, composition: 0.7, overall: 0.8 },
+    detectedObjects: [],
+    mood: 'calm',
+    suggestedImprovements: [],
+    editingIntensity: 'medium',
+  };
+  const metrics = { sharpness: 80, brightness: 60, contrast: 25, saturation: 40, noise: 10, composition: 70 };
+
+  it('explains adjustments that only the editing style asked for', () => {
+    const recommendations = AnalysisEngine.generateRecommendations(analysis, metrics, {
+      editingStyle: 'vibrant',
+      enhancementStrength: 1,
+      analysisIntensity: null,
+    });
+
+    expect(recommendations.adjustSaturation).toBe(10);
+    expect(recommendations.rationale).toEqual([
+      expect.objectContaining({ adjustment: 'saturation', value: 10, source: 'style', metric: 'saturation', before: 40 }),
+    ]);
+    expect(rationaleToOptions(recommendations.rationale!)).toEqual({ saturation: 10 });
+  });
+
+  it('has no rationale when nothing crossed a threshold and there is no style', () => {
+    expect(AnalysisEngine.generateRecommendations(analysis, metrics).rationale).toEqual([]);
+  });
+
+  it('recommends nothing for a well-rated image whose pixels could not be read', () => {
+    const fallback = AnalysisEngine.calculateMetrics(analysis, null, null);
+    const recommendations = AnalysisEngine.generateRecommendations(analysis, fallback);
+
+    expect(fallback.sharpness).toBe(80);
+    expect(recommendations.adjustBrightness).toBe(0);
+    expect(recommendations.rationale).toEqual([]);
+  });
+});
+
+describe('withoutAppliedAdjustments', () => {
+  const entry = (adjustment: 'brightness' | 'contrast' | 'reduceNoise') => ({
+    adjustment,
+    value: 10,
+    source: 'metric' as const,
+    metric: 'brightness' as const,
+    before: 30,
+    expectedAfter: 40,
+    reason: '',
+  });
+
+  it('hides adjustments an earlier edit already makes', () => {
+    const rationale = [entry('brightness'), entry('contrast'), entry('reduceNoise')];
+
+    expect(withoutAppliedAdjustments(rationale, [{ brightness: 10 }, { saturation: 5, reduceNoise: true }])).toEqual([
+      entry('contrast'),
+    ]);
+    expect(withoutAppliedAdjustments(rationale, [{ brightness: 0 }])).toEqual(rationale);
+  });
+});
@@ -0,0 +1,32 @@
+import { runBatch } from '../batchRunner';
+
+describe('runBatch', () => {
+  it('falls back to the default concurrency for invalid values', async () => {
+    for (const concurrency of [NaN, Infinity, 0]) {
+      const results = await runBatch([1, 2, 3], async (item) => item * 2, { concurrency });
+      expect(results.map((result) => result.status === 'fulfilled' && result.value)).toEqual([2, 4, 6]);
+    }
+  });
+
+  it('passes the signal to running tasks and marks the rest aborted', async () => {
+    const controller = new AbortController();
+    const seen: (AbortSignal | undefined)[] = [];
+
+    const results = await runBatch(
+      ['a', 'b', 'c'],
+      async (_item, _index, signal) => {
+        seen.push(signal);
+        controller.abort();
+        throw new Error('stopped');
+      },
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    expect(seen).toEqual([controller.signal]);
+    expect(results.map((result) => result.status === 'rejected' && result.error.reason)).toEqual([
+      'aborted',
+      'aborted',
+      'aborted',
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { createEditRecipe, getGeometryOperations } from '../editRecipe';
+
+describe('getGeometryOperations', () => {
+  it('keeps only the settings that change the frame, in order', () => {
+    const recipe = createEditRecipe([
+      { brightness: 10, crop: { originX: 10, originY: 20, width: 300, height: 200 } },
+      { saturation: -20, lut: { presetId: 'lut_1' } },
+      { straighten: 1.5, contrast: 5 },
+      { rotate: 90, flip: 'horizontal', keystone: { vertical: 20 } },
+    ]);
+
+    expect(getGeometryOperations(recipe)).toEqual([
+      { crop: { originX: 10, originY: 20, width: 300, height: 200 } },
+      { straighten: 1.5 },
+      { rotate: 90, flip: 'horizontal', keystone: { vertical: 20 } },
+    ]);
+  });
+
+  it('is empty for tonal-only recipes', () => {
+    expect(getGeometryOperations(createEditRecipe([{ brightness: 10 }, { autoEnhance: true }]))).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  EDITING_PRESET_VERSION,
+  decodePresetCode,
+  encodePresetCode,
+  resolveEditingStyle,
+  sanitizePresetOptions,
+} from '../editingPresets';
+import { EditingEngine } from '../editingEngine';
+
+describe('preset codes', () => {
+  it('round-trips names outside ASCII and leaves LUTs out', () => {
+    const code = encodePresetCode({
+      id: 'p1',
+      name: 'Crème brûlée ☕',
+      version: EDITING_PRESET_VERSION,
+      options: { brightness: 12, fade: 20, lut: { presetId: 'lut_1' } },
+    });
+
+    expect(decodePresetCode(code)).toEqual({
+      name: 'Crème brûlée ☕',
+      version: EDITING_PRESET_VERSION,
+      options: { brightness: 12, fade: 20 },
+    });
+  });
+
+  it('rejects codes that are not presets', () => {
+    expect(() => decodePresetCode('hello')).toThrow('This is not a preset code');
+    expect(() => decodePresetCode('NPRESET1:bm90IGpzb24=')).toThrow('Preset code is damaged or incomplete');
+    expect(() => decodePresetCode(`NPRESET1:${btoa('{"n":"x","o":[]}')}`)).toThrow(
+      'Preset code is damaged or incomplete'
+    );
+  });
+});
+
+describe('sanitizePresetOptions', () => {
+  it('clamps values to the editor ranges and drops malformed nested options', () => {
+    expect(
+      sanitizePresetOptions({
+        brightness: 500,
+        enhancementStrength: -1,
+        curves: { rgb: [[0, 0], [128, 'x']], red: [[-10, 300]] },
+        hsl: { blues: { hue: 1e9 }, nonsense: { hue: 10 } },
+        vignette: { midpoint: 50 },
+        grain: { amount: 30, seed: 12.4 },
+        lut: { presetId: 'lut_1', intensity: 3 },
+      })
+    ).toEqual({
+      brightness: 100,
+      enhancementStrength: 0,
+      curves: { rgb: [[0, 0]], red: [[0, 255]] },
+      hsl: { blues: { hue: 100 } },
+      grain: { amount: 30, seed: 12 },
+      lut: { presetId: 'lut_1', intensity: 1 },
+    });
+  });
+
+  it('drops all geometry', () => {
+    expect(
+      sanitizePresetOptions({
+        contrast: 10,
+        crop: { originX: 0, originY: 0, width: 10, height: 10 },
+        resize: { width: 100000 },
+        rotate: 90,
+        straighten: 2,
+        autoStraighten: true,
+        keystone: { vertical: 20 },
+        flip: 'horizontal',
+      })
+    ).toEqual({ contrast: 10 });
+  });
+});
+
+describe('resolveEditingStyle', () => {
+  const presets = [{ id: 'p1', name: 'Mine', version: 1, options: { contrast: 15 } }];
+
+  it('finds built-in and user presets', () => {
+    expect(resolveEditingStyle('vintage', presets)).toEqual(EditingEngine.PRESETS.VINTAGE);
+    expect(resolveEditingStyle('preset:p1', presets)).toEqual({ contrast: 15 });
+  });
+
+  it('is null for unset or deleted styles', () => {
+    expect(resolveEditingStyle(null, presets)).toBeNull();
+    expect(resolveEditingStyle('preset:gone', presets)).toBeNull();
+    expect(resolveEditingStyle('nonsense', presets)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { EXPORT_PROFILES, describeExportProfile, fitExportScale, formatFileSize, getExportProfile } from '../exportProfiles';
+
+describe('fitExportScale', () => {
+  const feed = EXPORT_PROFILES['instagram-feed'];
+
+  it('scales down to fit the tighter side of the box', () => {
+    expect(fitExportScale(4000, 3000, feed)).toBeCloseTo(1080 / 4000);
+    expect(fitExportScale(3000, 6000, feed)).toBeCloseTo(1350 / 6000);
+  });
+
+  it('never scales up, and keeps full size without a box', () => {
+    expect(fitExportScale(800, 600, feed)).toBe(1);
+    expect(fitExportScale(8000, 6000, EXPORT_PROFILES.print)).toBe(1);
+    expect(fitExportScale(8000, 6000, EXPORT_PROFILES.web)).toBeCloseTo(1200 / 8000);
+  });
+});
+
+describe('describeExportProfile', () => {
+  it('lists size, format and budget', () => {
+    expect(describeExportProfile(EXPORT_PROFILES['instagram-feed'])).toBe('up to 1080×1350 · JPEG · under 1.5 MB');
+    expect(describeExportProfile(EXPORT_PROFILES.web)).toBe('up to 1200px wide · WEBP · under 300 KB');
+    expect(describeExportProfile({ ...EXPORT_PROFILES.archive, color: 'grayscale' })).toBe(
+      'full size · PNG · black & white'
+    );
+  });
+});
+
+describe('getExportProfile', () => {
+  it('looks up built-in ids and passes custom profiles through', () => {
+    const custom = { ...EXPORT_PROFILES.print, id: 'custom', maxBytes: 50_000 };
+
+    expect(getExportProfile('archive')).toBe(EXPORT_PROFILES.archive);
+    expect(getExportProfile(custom)).toBe(custom);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses KB under a megabyte', () => {
+    expect(formatFileSize(999_400)).toBe('999 KB');
+    expect(formatFileSize(2_345_678)).toBe('2.3 MB');
+  });
+});
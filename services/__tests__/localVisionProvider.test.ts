@@ -0,0 +1,43 @@
+import { analyzeRaster, captionRaster } from '../localVisionProvider';
+import { createRaster, RasterImage } from '../imaging/raster';
+
+// Wide frame: blue sky over a green field, with some texture so it isn't flat
+function landscape(): RasterImage {
+  const width = 160;
+  const height = 90;
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const texture = ((x * 7 + y * 13) % 9) * 4;
+      const pixel = y < height / 2 ? [40 + texture, 90 + texture, 200] : [50 + texture, 150 + texture, 40];
+      raster.data.set([...pixel, 255], (y * width + x) * 4);
+    }
+  }
+  return raster;
+}
+
+describe('analyzeRaster', () => {
+  it('analyzes a raster without a network or API key', () => {
+    const result = analyzeRaster(landscape());
+
+    expect(result.imageType).toBe('landscape');
+    expect(result.detectedObjects).toEqual([]);
+    Object.values(result.technicalQuality).forEach((score) => {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    });
+    expect(['light', 'medium', 'heavy']).toContain(result.editingIntensity);
+  });
+
+  it('gives the same result for the same pixels', () => {
+    expect(analyzeRaster(landscape())).toEqual(analyzeRaster(landscape()));
+  });
+});
+
+describe('captionRaster', () => {
+  it('names the scene and its main tones', () => {
+    const caption = captionRaster(landscape());
+
+    expect(caption).toMatch(/landscape in (blue|green) and (blue|green) tones\.$/);
+  });
+});
@@ -0,0 +1,52 @@
+import type { Image } from '../../lib/database/queries/images';
+import { groupSimilarShots } from '../shotCuller';
+
+function image(id: string, overrides: Partial<Image> = {}): Image {
+  return {
+    id,
+    analysis_data: null,
+    archived_at: null,
+    carousel_id: null,
+    carousel_index: null,
+    created_at: '2024-06-01T12:00:00Z',
+    dhash: null,
+    edit_recipe: null,
+    metadata: null,
+    original_url: `https://example.com/${id}.jpg`,
+    phash: null,
+    processed_url: null,
+    status: 'processed',
+    updated_at: null,
+    user_id: 'user',
+    ...overrides,
+  };
+}
+
+const capturedAt = (time: string) => ({ capturedAt: time });
+const ids = (groups: Image[][]) => groups.map((group) => group.map((item) => item.id));
+
+describe('groupSimilarShots', () => {
+  it('groups unhashed frames shot within the burst window', () => {
+    const groups = groupSimilarShots([
+      image('a', { metadata: capturedAt('2024-06-01T10:00:00Z') }),
+      image('b', { metadata: capturedAt('2024-06-01T10:00:01Z') }),
+      image('c', { metadata: capturedAt('2024-06-01T10:05:00Z') }),
+    ]);
+
+    expect(ids(groups)).toEqual([['a', 'b']]);
+  });
+
+  it('does not treat upload time as capture time', () => {
+    expect(groupSimilarShots([image('a'), image('b'), image('c')])).toEqual([]);
+  });
+
+  it('leaves carousel slides out', () => {
+    const slide = { carousel_id: 'carousel', phash: '0000000000000000', dhash: '0000000000000000' };
+    expect(groupSimilarShots([image('a', slide), image('b', slide)])).toEqual([]);
+  });
+
+  it('groups near-duplicates regardless of time', () => {
+    const hashes = { phash: '0000000000000000', dhash: '0000000000000000' };
+    expect(ids(groupSimilarShots([image('a', hashes), image('b', hashes)]))).toEqual([['a', 'b']]);
+  });
+});
@@ -0,0 +1,262 @@
+import type { Json } from '../lib/database/types';
+import type {
+  AdjustmentRationale,
+  AnalysisMetrics,
+  DetailedAnalysis,
+  EnhancementRecommendations,
+  ModelMetrics,
+  PreferenceAdjustment,
+  PreferenceKey,
+} from './analysisEngine';
+import type { ImageAnalysisResult } from './geminiService';
+import type { CompositionAnalysis, CompositionAspect, CompositionScores } from './imaging/composition';
+import type { PaletteSwatch } from './imaging/palette';
+import type { CropRect, SubjectRegion } from './imaging/smartCrop';
+
+/**
+ * Schema version written with every analysis. Bump it and add a migration
+ * when an existing field changes meaning; new optional fields need neither,
+ * because missing ones get defaults and malformed ones are dropped when
+ * decoding. Rows saved before analyses carried a version count as 1.
+ */
+export const ANALYSIS_SCHEMA_VERSION = 1;
+
+/**
+ * What images.analysis_data holds: Gemini's result plus whatever measured
+ * details were available when it was saved.
+ */
+export type StoredAnalysis = ImageAnalysisResult &
+  Partial<
+    Pick<
+      DetailedAnalysis,
+      'metrics' | 'metricsSource' | 'modelMetrics' | 'composition' | 'recommendations' | 'processingTime'
+    >
+  > & {
+    schemaVersion: number;
+  };
+
+type RawAnalysis = { [key: string]: unknown };
+
+/**
+ * Upgrades from version N to N + 1, keyed by N.
+ */
+const ANALYSIS_MIGRATIONS: Record<number, (analysis: RawAnalysis) => RawAnalysis> = {};
+
+const EDITING_INTENSITIES = ['light', 'medium', 'heavy'] as const;
+const METRIC_KEYS = ['sharpness', 'brightness', 'contrast', 'saturation', 'noise', 'composition'] as const;
+const MODEL_METRIC_KEYS = ['exposure', 'sharpness', 'composition', 'overall'] as const;
+const COMPOSITION_ASPECTS: CompositionAspect[] = ['ruleOfThirds', 'balance', 'headroom', 'horizon'];
+const RECOMMENDATION_KEYS = ['adjustBrightness', 'adjustContrast', 'adjustSaturation', 'adjustSharpness'] as const;
+const PREFERENCE_KEYS: PreferenceKey[] = ['analysis_intensity', 'editing_style', 'enhancement_strength'];
+const HEX_COLOR = /^#[0-9A-F]{6}$/i;
+
+function isObject(value: unknown): value is RawAnalysis {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function unitValue(value: unknown, fallback: number): number {
+  return isNumber(value) ? Math.max(0, Math.min(1, value)) : fallback;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Pick the given numeric fields; null if any is missing.
+ */
+function numberRecord<K extends string>(value: unknown, keys: readonly K[]): Record<K, number> | null {
+  if (!isObject(value) || !keys.every((key) => isNumber(value[key]))) return null;
+  return Object.fromEntries(keys.map((key) => [key, value[key]])) as Record<K, number>;
+}
+
+function cropRect(value: unknown): CropRect | null {
+  const rect = numberRecord(value, ['x', 'y', 'width', 'height']);
+  return rect && rect.width > 0 && rect.height > 0 ? rect : null;
+}
+
+/**
+ * Subject boxes as fractions of the frame, clamped so they stay inside it.
+ */
+export function sanitizeSubjectRegions(regions: unknown): SubjectRegion[] {
+  if (!Array.isArray(regions)) return [];
+
+  return regions
+    .filter((region): region is RawAnalysis =>
+      isObject(region) && ['x', 'y', 'width', 'height'].every((key) => isNumber(region[key]))
+    )
+    .map((region) => {
+      const x = Math.max(0, Math.min(1, region.x as number));
+      const y = Math.max(0, Math.min(1, region.y as number));
+      return {
+        label: typeof region.label === 'string' ? region.label : undefined,
+        x,
+        y,
+        width: Math.max(0, Math.min(1 - x, region.width as number)),
+        height: Math.max(0, Math.min(1 - y, region.height as number)),
+        ...(isNumber(region.weight) && { weight: region.weight }),
+      };
+    })
+    .filter((region) => region.width > 0 && region.height > 0);
+}
+
+function sanitizePalette(value: unknown): PaletteSwatch[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  return value
+    .filter((swatch): swatch is RawAnalysis =>
+      isObject(swatch) && typeof swatch.hex === 'string' && HEX_COLOR.test(swatch.hex) && isNumber(swatch.proportion)
+    )
+    .map((swatch) => ({
+      hex: (swatch.hex as string).toUpperCase(),
+      proportion: unitValue(swatch.proportion, 0),
+    }));
+}
+
+function sanitizeComposition(value: unknown): CompositionAnalysis | undefined {
+  if (!isObject(value)) return undefined;
+
+  const scores = numberRecord(value.scores, [...COMPOSITION_ASPECTS, 'overall']) as CompositionScores | null;
+  if (!scores) return undefined;
+
+  const explanations = isObject(value.explanations) ? value.explanations : {};
+  return {
+    scores,
+    explanations: Object.fromEntries(
+      COMPOSITION_ASPECTS.map((aspect) => [
+        aspect,
+        typeof explanations[aspect] === 'string' ? explanations[aspect] : '',
+      ])
+    ) as Record<CompositionAspect, string>,
+    subjectSource: value.subjectSource === 'subjects' ? 'subjects' : 'saliency',
+    bestFraming: cropRect(value.bestFraming),
+    bestFramingScore: isNumber(value.bestFramingScore) ? value.bestFramingScore : null,
+  };
+}
+
+function sanitizeRecommendations(value: unknown): EnhancementRecommendations | undefined {
+  const adjustments = numberRecord(value, RECOMMENDATION_KEYS);
+  if (!adjustments || !isObject(value)) return undefined;
+
+  const crop = cropRect(value.cropSuggestion);
+  return {
+    ...adjustments,
+    reduceNoise: value.reduceNoise === true,
+    ...(crop && { cropSuggestion: crop }),
+    ...(isNumber(value.straightenAngle) && { straightenAngle: value.straightenAngle }),
+    ...(isNumber(value.keystoneCorrection) && { keystoneCorrection: value.keystoneCorrection }),
+    ...(Array.isArray(value.rationale) && {
+      rationale: value.rationale
+        .filter(
+          (entry): entry is AdjustmentRationale =>
+            isObject(entry) &&
+            typeof entry.adjustment === 'string' &&
+            typeof entry.metric === 'string' &&
+            typeof entry.reason === 'string' &&
+            ['value', 'before', 'expectedAfter'].every((key) => isNumber(entry[key])) &&
+            (entry.source === 'style' || isNumber(entry.threshold))
+        )
+        // Rationale saved before style entries existed always came from a metric
+        .map((entry) => ({ ...entry, source: entry.source === 'style' ? 'style' : 'metric' })),
+    }),
+    ...(Array.isArray(value.adjustedFor) && {
+      adjustedFor: value.adjustedFor.filter(
+        (adjustment): adjustment is PreferenceAdjustment =>
+          isObject(adjustment) &&
+          (PREFERENCE_KEYS as readonly unknown[]).includes(adjustment.preference) &&
+          typeof adjustment.description === 'string'
+      ),
+    }),
+  };
+}
+
+/**
+ * Rebuild an analysis field by field, keeping only what this version
+ * understands. Gemini's core fields get the same defaults GeminiService
+ * uses; optional measured details are dropped when malformed.
+ */
+function sanitizeAnalysis(raw: RawAnalysis): StoredAnalysis {
+  const quality = isObject(raw.technicalQuality) ? raw.technicalQuality : {};
+  const metrics = numberRecord(raw.metrics, METRIC_KEYS) as AnalysisMetrics | null;
+  const modelMetrics = numberRecord(raw.modelMetrics, MODEL_METRIC_KEYS) as ModelMetrics | null;
+  const palette = sanitizePalette(raw.palette);
+  const composition = sanitizeComposition(raw.composition);
+  const recommendations = sanitizeRecommendations(raw.recommendations);
+
+  return {
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    imageType: typeof raw.imageType === 'string' && raw.imageType ? raw.imageType : 'other',
+    confidence: unitValue(raw.confidence, 0.5),
+    technicalQuality: {
+      exposure: unitValue(quality.exposure, 0.7),
+      sharpness: unitValue(quality.sharpness, 0.7),
+      composition: unitValue(quality.composition, 0.7),
+      overall: unitValue(quality.overall, 0.7),
+    },
+    detectedObjects: stringList(raw.detectedObjects),
+    subjectRegions: sanitizeSubjectRegions(raw.subjectRegions),
+    mood: typeof raw.mood === 'string' && raw.mood ? raw.mood : 'neutral',
+    suggestedImprovements: stringList(raw.suggestedImprovements),
+    editingIntensity: (EDITING_INTENSITIES as readonly unknown[]).includes(raw.editingIntensity)
+      ? (raw.editingIntensity as ImageAnalysisResult['editingIntensity'])
+      : 'medium',
+    ...(palette && { palette }),
+    ...(metrics && { metrics }),
+    ...(raw.metricsSource === 'pixels' || raw.metricsSource === 'model'
+      ? { metricsSource: raw.metricsSource }
+      : {}),
+    ...(modelMetrics && { modelMetrics }),
+    ...(composition && { composition }),
+    ...(recommendations && { recommendations }),
+    ...(isNumber(raw.processingTime) && { processingTime: raw.processingTime }),
+  };
+}
+
+function migrateAnalysis(version: number, analysis: RawAnalysis): RawAnalysis {
+  let migrated = analysis;
+  for (let from = version; from < ANALYSIS_SCHEMA_VERSION; from++) {
+    migrated = ANALYSIS_MIGRATIONS[from]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+/**
+ * Read images.analysis_data, upgrading older versions. Returns null when
+ * the value is missing or isn't an analysis at all.
+ */
+export function decodeAnalysisData(value: unknown): StoredAnalysis | null {
+  if (!value) return null;
+
+  let raw: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value);
+    } catch (error) {
+      console.error('Failed to parse analysis data:', error);
+      return null;
+    }
+  }
+
+  // Without Gemini's core fields there is nothing to fill the rest from
+  if (!isObject(raw) || (typeof raw.imageType !== 'string' && !isObject(raw.technicalQuality))) {
+    return null;
+  }
+
+  const version = isNumber(raw.schemaVersion) ? raw.schemaVersion : 1;
+  if (version > ANALYSIS_SCHEMA_VERSION) {
+    console.warn(`Analysis schema ${version} is newer than supported ${ANALYSIS_SCHEMA_VERSION}`);
+  }
+
+  return sanitizeAnalysis(migrateAnalysis(version, raw));
+}
+
+/**
+ * Stamp an analysis with the current schema version for images.analysis_data.
+ */
+export function encodeAnalysisData(analysis: ImageAnalysisResult | DetailedAnalysis): Json {
+  return JSON.parse(JSON.stringify({ ...analysis, schemaVersion: ANALYSIS_SCHEMA_VERSION }));
+}
@@ -1,4 +1,23 @@
-import { createGeminiService, ImageAnalysisResult } from './geminiService';
+import { ImageAnalysisResult } from './geminiService';
+import { BatchItemResult, BatchOptions, runBatch } from './batchRunner';
+import { EditingEngine, type EditingOptions } from './editingEngine';
+import { AnalysisIntensity, RecommendationPreferences } from './editingPreferences';
+import { isAnyUserPresetStyle } from './editingPresets';
+import * as FileSystem from 'expo-file-system';
+import { loadRasterPreview, writeCachedImage } from './imaging/codec';
+import { CompositionAnalysis, analyzeComposition } from './imaging/composition';
+import { MIN_STRAIGHTEN_ANGLE } from './imaging/geometry';
+import {
+  METRICS_PREVIEW_EDGE,
+  PixelMetrics,
+  SHARPNESS_MIDPOINT,
+  exposureQuality,
+  measurePixelMetrics,
+} from './imaging/metrics';
+import { PaletteSwatch, extractPalette } from './imaging/palette';
+import { MAX_SHARPEN_AMOUNT, NOISE_REDUCTION_STRENGTH } from './imaging/pipeline';
+import { CropCandidate, CropRatio, SubjectRegion, scaleCrop } from './imaging/smartCrop';
+import { VisionProvider, createVisionProvider } from './visionProvider';
 
 export interface AnalysisMetrics {
   sharpness: number;
@@ -9,6 +28,25 @@ export interface AnalysisMetrics {
   composition: number;
 }
 
+export type MetricsSource = 'pixels' | 'model';
+
+/**
+ * Gemini's own 0-100 scores, kept as a second opinion next to the measured metrics.
+ */
+export interface ModelMetrics {
+  exposure: number;
+  sharpness: number;
+  composition: number;
+  overall: number;
+}
+
+export interface MetricComparison {
+  key: keyof AnalysisMetrics | 'exposure';
+  label: string;
+  measured?: number;
+  model?: number;
+}
+
 export interface EnhancementRecommendations {
   adjustBrightness: number; // -100 to 100
   adjustContrast: number; // -100 to 100
@@ -21,35 +59,211 @@ export interface EnhancementRecommendations {
     width: number;
     height: number;
   };
+  cropCandidates?: CropCandidate[];
+  straightenAngle?: number; // degrees, clockwise
+  keystoneCorrection?: number; // KeystoneSettings.vertical
+  adjustedFor?: PreferenceAdjustment[]; // how the user's preferences changed the values above
+  rationale?: AdjustmentRationale[]; // one per non-zero adjustment, brightness to reduceNoise
+}
+
+export type AdjustmentName = 'brightness' | 'contrast' | 'saturation' | 'sharpness' | 'reduceNoise';
+
+export type RationaleSource = 'metric' | 'style';
+
+/**
+ * Why an adjustment was recommended: the measured metric crossed a
+ * threshold, or the editing style asks for it regardless of the image.
+ * expectedAfter is estimated from the pipeline's math on the mean values,
+ * so treat it as approximate.
+ */
+export interface AdjustmentRationale {
+  adjustment: AdjustmentName;
+  value: number; // the recommended delta, 1 for reduceNoise
+  source: RationaleSource;
+  metric: keyof AnalysisMetrics;
+  comparison?: 'below' | 'above'; // set when source is 'metric'
+  threshold?: number;
+  before: number;
+  expectedAfter: number;
+  reason: string;
+}
+
+type PendingRationale = Pick<AdjustmentRationale, 'adjustment' | 'metric' | 'before'> & {
+  comparison: 'below' | 'above';
+  threshold: number;
+  subject: string; // what the reason calls the measured value, e.g. "Landscape saturation"
+};
+
+export type PreferenceKey = 'analysis_intensity' | 'editing_style' | 'enhancement_strength';
+
+export interface PreferenceAdjustment {
+  preference: PreferenceKey;
+  description: string;
+}
+
+export interface AnalyzeImageOptions {
+  imageUri?: string; // local copy of the image, needed for pixel-based suggestions
+  cropRatio?: CropRatio; // fills cropSuggestion with the best window at this ratio
+  preferences?: RecommendationPreferences; // from resolveRecommendationPreferences
+  signal?: AbortSignal; // cancels the vision request; pixel work stops after it
 }
 
 export interface DetailedAnalysis extends ImageAnalysisResult {
   metrics: AnalysisMetrics;
+  metricsSource: MetricsSource; // 'model' when the pixels couldn't be measured
+  modelMetrics: ModelMetrics;
+  composition?: CompositionAnalysis; // bestFraming in source pixels
   recommendations: EnhancementRecommendations;
   processingTime: number;
 }
 
+// Thresholds on the measured metrics (see imaging/metrics for the scales)
+const LOW_BRIGHTNESS = 40;
+const HIGH_BRIGHTNESS = 80;
+const LOW_CONTRAST = 15;
+const LOW_LANDSCAPE_SATURATION = 30;
+const HIGH_PORTRAIT_SATURATION = 50;
+const LOW_SHARPNESS = 60;
+const HIGH_NOISE = 30;
+
+// Used for metrics Gemini has no opinion on when the pixels can't be read;
+// chosen so they trigger no adjustment. Its exposure score rates quality,
+// not mean brightness, so brightness gets one too.
+const NEUTRAL_BRIGHTNESS = 60;
+const NEUTRAL_CONTRAST = 20;
+const NEUTRAL_SATURATION = 40;
+
+// Palettes don't need detail, so they are extracted from a smaller preview
+const PALETTE_PREVIEW_EDGE = 256;
+
+type AdjustmentKey = 'adjustBrightness' | 'adjustContrast' | 'adjustSaturation' | 'adjustSharpness';
+
+const RECOMMENDATION_KEYS: Record<Exclude<AdjustmentName, 'reduceNoise'>, AdjustmentKey> = {
+  brightness: 'adjustBrightness',
+  contrast: 'adjustContrast',
+  saturation: 'adjustSaturation',
+  sharpness: 'adjustSharpness',
+};
+
+const ADJUSTMENT_LABELS: Record<AdjustmentKey, string> = {
+  adjustBrightness: 'brightness',
+  adjustContrast: 'contrast',
+  adjustSaturation: 'saturation',
+  adjustSharpness: 'sharpening',
+};
+
+interface StyleRule {
+  name: string;
+  summary: string;
+  limits: Partial<Record<AdjustmentKey, { min?: number; max?: number }>>;
+}
+
+// How each built-in editing_style bounds the image-based adjustments,
+// keyed by the lowercased EditingEngine.PRESETS name
+const STYLE_RULES: Record<string, StyleRule> = {
+  natural: {
+    name: 'Natural',
+    summary: 'keeps saturation within ±10, contrast within ±15 and sharpening at most 15',
+    limits: {
+      adjustSaturation: { min: -10, max: 10 },
+      adjustContrast: { min: -15, max: 15 },
+      adjustSharpness: { max: 15 },
+    },
+  },
+  vibrant: {
+    name: 'Vibrant',
+    summary: 'adds at least 10 saturation and never lowers contrast',
+    limits: { adjustSaturation: { min: 10 }, adjustContrast: { min: 0 } },
+  },
+  portrait: {
+    name: 'Portrait',
+    summary: 'never boosts saturation, to protect skin tones, and keeps sharpening at most 10',
+    limits: { adjustSaturation: { max: 0 }, adjustSharpness: { max: 10 } },
+  },
+  landscape: {
+    name: 'Landscape',
+    summary: 'adds at least 5 saturation and 5 contrast',
+    limits: { adjustSaturation: { min: 5 }, adjustContrast: { min: 5 } },
+  },
+  black_and_white: {
+    name: 'Black & White',
+    summary: 'leaves saturation alone because the style removes color',
+    limits: { adjustSaturation: { min: 0, max: 0 } },
+  },
+  vintage: {
+    name: 'Vintage',
+    summary: 'keeps contrast at most 10 and sharpening at most 5 for a soft look',
+    limits: { adjustContrast: { max: 10 }, adjustSharpness: { max: 5 } },
+  },
+};
+
+const INTENSITY_EFFECTS: Record<AnalysisIntensity, string> = {
+  light: 'adjustments were halved',
+  medium: 'adjustments were kept as measured',
+  heavy: 'adjustments were strengthened by 30%',
+};
+
+function formatAdjustment(value: number): string {
+  const rounded = Math.round(value);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+const MIN_KEYSTONE_CORRECTION = 10;
+
 export class AnalysisEngine {
-  private geminiService = createGeminiService();
+  private visionProvider: VisionProvider;
+  private editingEngine = new EditingEngine();
+
+  constructor(visionProvider: VisionProvider = createVisionProvider()) {
+    this.visionProvider = visionProvider;
+  }
 
-  async analyzeImage(base64Image: string): Promise<DetailedAnalysis> {
+  async analyzeImage(
+    base64Image: string,
+    options: AnalyzeImageOptions = {}
+  ): Promise<DetailedAnalysis> {
     const startTime = Date.now();
 
     try {
-      // Get base analysis from Gemini
-      const baseAnalysis = await this.geminiService.analyzeImage(base64Image);
-
-      // Calculate detailed metrics
-      const metrics = this.calculateMetrics(baseAnalysis);
+      // Get base analysis from the configured vision provider
+      const baseAnalysis = await this.visionProvider.analyzeImage(base64Image, options.signal);
+      if (options.signal?.aborted) {
+        throw new Error('Analysis was aborted');
+      }
+
+      // Measure the pixels; Gemini's scores are kept as a second opinion
+      const pixels = await this.measurePixels(base64Image, options.imageUri, baseAnalysis.subjectRegions);
+      const pixelMetrics = pixels?.metrics ?? null;
+      const composition = pixels?.composition ?? null;
+      const metrics = AnalysisEngine.calculateMetrics(baseAnalysis, pixelMetrics, composition);
+      const modelMetrics = getModelMetrics(baseAnalysis);
 
       // Generate enhancement recommendations
-      const recommendations = this.generateRecommendations(baseAnalysis, metrics);
+      const recommendations = AnalysisEngine.generateRecommendations(baseAnalysis, metrics, options.preferences);
+
+      if (options.imageUri) {
+        await this.addCropRecommendations(recommendations, options.imageUri, baseAnalysis, options.cropRatio);
+        await this.addGeometryRecommendations(recommendations, options.imageUri, baseAnalysis);
+      }
+      if (composition) {
+        this.addCompositionRecommendations(recommendations, composition);
+      }
 
       const processingTime = Date.now() - startTime;
 
       return {
         ...baseAnalysis,
+        ...(pixels && { palette: pixels.palette }),
+        ...(composition && {
+          composition,
+          suggestedImprovements: [
+            ...baseAnalysis.suggestedImprovements,
+            ...Object.values(composition.explanations),
+          ],
+        }),
         metrics,
+        metricsSource: pixelMetrics ? 'pixels' : 'model',
+        modelMetrics,
         recommendations,
         processingTime,
       };
@@ -60,53 +274,108 @@ export class AnalysisEngine {
     }
   }
 
-  private calculateMetrics(analysis: ImageAnalysisResult): AnalysisMetrics {
-    // Convert Gemini analysis to detailed metrics
-    // This is a simplified implementation - in production, you'd use image processing libraries
-    
-    const overall = analysis.technicalQuality.overall;
-    const brightness = analysis.technicalQuality.exposure;
-    const sharpness = analysis.technicalQuality.sharpness;
+  /**
+   * Measure objective metrics on a preview of the image. Analysis continues
+   * without them if the image can't be decoded.
+   */
+  static async measureImage(imageUri: string): Promise<PixelMetrics> {
+    const { raster } = await loadRasterPreview(imageUri, METRICS_PREVIEW_EDGE);
+    return measurePixelMetrics(raster);
+  }
 
-    return {
-      sharpness: sharpness * 100,
-      brightness: brightness * 100,
-      contrast: this.estimateContrast(analysis),
-      saturation: this.estimateSaturation(analysis),
-      noise: this.estimateNoise(analysis),
-      composition: overall * 100,
-    };
+  static async extractPalette(imageUri: string): Promise<PaletteSwatch[]> {
+    const { raster } = await loadRasterPreview(imageUri, PALETTE_PREVIEW_EDGE);
+    return extractPalette(raster);
   }
 
-  private estimateContrast(analysis: ImageAnalysisResult): number {
-    // Estimate contrast based on mood and lighting
-    if (analysis.mood === 'dramatic' || analysis.mood === 'moody') {
-      return 80;
-    } else if (analysis.mood === 'bright' || analysis.mood === 'cheerful') {
-      return 60;
+  /**
+   * Add the measured color palette to a Gemini result. The result is
+   * returned unchanged if the image can't be decoded.
+   */
+  static async withPalette(
+    analysis: ImageAnalysisResult,
+    imageUri: string
+  ): Promise<ImageAnalysisResult> {
+    try {
+      return { ...analysis, palette: await AnalysisEngine.extractPalette(imageUri) };
+    } catch (error) {
+      console.error('Palette extraction failed:', error);
+      return analysis;
     }
-    return 70;
   }
 
-  private estimateSaturation(analysis: ImageAnalysisResult): number {
-    // Estimate saturation based on image type and mood
-    if (analysis.imageType === 'portrait') {
-      return 65; // Lower saturation for skin tones
-    } else if (analysis.imageType === 'landscape') {
-      return 80; // Higher for nature scenes
+  private async measurePixels(
+    base64Image: string,
+    imageUri?: string,
+    subjects: SubjectRegion[] = []
+  ): Promise<{ metrics: PixelMetrics; palette: PaletteSwatch[]; composition: CompositionAnalysis } | null> {
+    let tempUri: string | undefined;
+    try {
+      if (!imageUri) {
+        tempUri = await writeCachedImage(base64Image);
+      }
+      const { raster, sourceWidth, sourceHeight } = await loadRasterPreview(
+        imageUri ?? tempUri!,
+        METRICS_PREVIEW_EDGE
+      );
+      const composition = analyzeComposition(raster, subjects);
+      const source = { width: sourceWidth, height: sourceHeight };
+
+      return {
+        metrics: measurePixelMetrics(raster),
+        palette: extractPalette(raster),
+        composition: {
+          ...composition,
+          bestFraming: composition.bestFraming && scaleCrop(composition.bestFraming, raster, source),
+        },
+      };
+    } catch (error) {
+      console.error('Pixel metrics failed, using model scores:', error);
+      return null;
+    } finally {
+      if (tempUri) {
+        await FileSystem.deleteAsync(tempUri, { idempotent: true });
+      }
     }
-    return 70;
   }
 
-  private estimateNoise(analysis: ImageAnalysisResult): number {
-    // Estimate noise based on overall quality
-    const quality = analysis.technicalQuality.overall;
-    return Math.max(0, (1 - quality) * 100);
+  static calculateMetrics(
+    analysis: ImageAnalysisResult,
+    pixels: PixelMetrics | null,
+    measuredComposition: CompositionAnalysis | null
+  ): AnalysisMetrics {
+    const { technicalQuality } = analysis;
+    const composition = measuredComposition?.scores.overall ?? technicalQuality.overall * 100;
+
+    if (!pixels) {
+      return {
+        sharpness: technicalQuality.sharpness * 100,
+        brightness: NEUTRAL_BRIGHTNESS,
+        contrast: NEUTRAL_CONTRAST,
+        saturation: NEUTRAL_SATURATION,
+        noise: 0,
+        composition,
+      };
+    }
+
+    return {
+      sharpness: pixels.sharpness,
+      brightness: pixels.brightness,
+      contrast: pixels.contrast,
+      saturation: pixels.saturation,
+      noise: pixels.noise,
+      composition,
+    };
   }
 
-  private generateRecommendations(
+  /**
+   * Suggested adjustments from measured metrics. Needs no Gemini call, so
+   * stored analyses can be re-explained once their pixels are measured.
+   */
+  static generateRecommendations(
     analysis: ImageAnalysisResult,
-    metrics: AnalysisMetrics
+    metrics: AnalysisMetrics,
+    preferences?: RecommendationPreferences
   ): EnhancementRecommendations {
     const recommendations: EnhancementRecommendations = {
       adjustBrightness: 0,
@@ -116,53 +385,281 @@ export class AnalysisEngine {
       reduceNoise: false,
     };
 
+    const pending: PendingRationale[] = [];
+    const trigger = (
+      adjustment: AdjustmentName,
+      metric: keyof AnalysisMetrics,
+      comparison: 'below' | 'above',
+      threshold: number,
+      subject: string
+    ) => pending.push({ adjustment, metric, comparison, threshold, before: metrics[metric], subject });
+
     // Brightness adjustments
-    if (metrics.brightness < 40) {
+    if (metrics.brightness < LOW_BRIGHTNESS) {
       recommendations.adjustBrightness = Math.min(30, 50 - metrics.brightness);
-    } else if (metrics.brightness > 80) {
+      trigger('brightness', 'brightness', 'below', LOW_BRIGHTNESS, 'Brightness');
+    } else if (metrics.brightness > HIGH_BRIGHTNESS) {
       recommendations.adjustBrightness = Math.max(-30, 70 - metrics.brightness);
+      trigger('brightness', 'brightness', 'above', HIGH_BRIGHTNESS, 'Brightness');
     }
 
-    // Contrast adjustments
-    if (metrics.contrast < 50) {
-      recommendations.adjustContrast = Math.min(25, 60 - metrics.contrast);
+    // Contrast adjustments (RMS contrast rarely exceeds 30 in real photos)
+    if (metrics.contrast < LOW_CONTRAST) {
+      recommendations.adjustContrast = Math.min(25, (LOW_CONTRAST + 5 - metrics.contrast) * 3);
+      trigger('contrast', 'contrast', 'below', LOW_CONTRAST, 'Contrast');
     }
 
     // Saturation adjustments
-    if (analysis.imageType === 'landscape' && metrics.saturation < 70) {
-      recommendations.adjustSaturation = Math.min(20, 75 - metrics.saturation);
-    } else if (analysis.imageType === 'portrait' && metrics.saturation > 70) {
-      recommendations.adjustSaturation = Math.max(-15, 65 - metrics.saturation);
+    if (analysis.imageType === 'landscape' && metrics.saturation < LOW_LANDSCAPE_SATURATION) {
+      recommendations.adjustSaturation = Math.min(20, LOW_LANDSCAPE_SATURATION + 5 - metrics.saturation);
+      trigger('saturation', 'saturation', 'below', LOW_LANDSCAPE_SATURATION, 'Landscape saturation');
+    } else if (analysis.imageType === 'portrait' && metrics.saturation > HIGH_PORTRAIT_SATURATION) {
+      recommendations.adjustSaturation = Math.max(-15, HIGH_PORTRAIT_SATURATION - 5 - metrics.saturation);
+      trigger('saturation', 'saturation', 'above', HIGH_PORTRAIT_SATURATION, 'Portrait saturation');
     }
 
     // Sharpness adjustments
-    if (metrics.sharpness < 60) {
-      recommendations.adjustSharpness = Math.min(20, 70 - metrics.sharpness);
+    if (metrics.sharpness < LOW_SHARPNESS) {
+      recommendations.adjustSharpness = Math.min(20, LOW_SHARPNESS + 10 - metrics.sharpness);
+      trigger('sharpness', 'sharpness', 'below', LOW_SHARPNESS, 'Sharpness');
     }
 
     // Noise reduction
-    if (metrics.noise > 30) {
+    if (metrics.noise > HIGH_NOISE) {
       recommendations.reduceNoise = true;
+      trigger('reduceNoise', 'noise', 'above', HIGH_NOISE, 'Noise');
+    }
+
+    // Intensity-based adjustments; the user's analysis_intensity overrides the suggested one
+    const intensity = preferences?.analysisIntensity ?? analysis.editingIntensity;
+    if (intensity === 'light') {
+      AnalysisEngine.reduceIntensity(recommendations, 0.5);
+    } else if (intensity === 'heavy') {
+      AnalysisEngine.increaseIntensity(recommendations, 1.3);
     }
 
-    // Intensity-based adjustments
-    if (analysis.editingIntensity === 'light') {
-      this.reduceIntensity(recommendations, 0.5);
-    } else if (analysis.editingIntensity === 'heavy') {
-      this.increaseIntensity(recommendations, 1.3);
+    if (preferences) {
+      recommendations.adjustedFor = [
+        ...AnalysisEngine.describeIntensity(analysis, preferences),
+        ...AnalysisEngine.applyEditingStyle(recommendations, preferences.editingStyle),
+        ...AnalysisEngine.applyEnhancementStrength(recommendations, preferences.enhancementStrength),
+      ];
     }
 
+    // Explain what survived intensity and preferences, using the final values
+    const rationale = pending
+      .map((entry) => AnalysisEngine.explainAdjustment(entry, recommendations))
+      .filter((entry): entry is AdjustmentRationale => entry !== null);
+
+    // Whatever is left non-zero without a crossed threshold came from a style minimum
+    const style = preferences?.editingStyle ? STYLE_RULES[preferences.editingStyle.toLowerCase()] : undefined;
+    (Object.keys(RECOMMENDATION_KEYS) as (keyof typeof RECOMMENDATION_KEYS)[]).forEach((adjustment) => {
+      const value = recommendations[RECOMMENDATION_KEYS[adjustment]];
+      if (style && Math.round(value) !== 0 && !rationale.some((entry) => entry.adjustment === adjustment)) {
+        rationale.push(AnalysisEngine.explainStyleAdjustment(adjustment, value, metrics, style));
+      }
+    });
+    recommendations.rationale = rationale;
+
     return recommendations;
   }
 
-  private reduceIntensity(recommendations: EnhancementRecommendations, factor: number): void {
+  private static explainAdjustment(
+    entry: PendingRationale,
+    recommendations: EnhancementRecommendations
+  ): AdjustmentRationale | null {
+    const { subject, ...rationale } = entry;
+    const value = entry.adjustment === 'reduceNoise'
+      ? (recommendations.reduceNoise ? 1 : 0)
+      : recommendations[RECOMMENDATION_KEYS[entry.adjustment]];
+    if (Math.round(value) === 0) return null;
+
+    const expectedAfter = Math.round(predictMetric(entry.adjustment, entry.before, value) * 10) / 10;
+    const action = entry.adjustment === 'reduceNoise'
+      ? 'noise reduction'
+      : `${entry.adjustment} ${formatAdjustment(value)}`;
+
+    return {
+      ...rationale,
+      value,
+      source: 'metric',
+      expectedAfter,
+      reason: `${subject} ${Math.round(entry.before)} is ${entry.comparison} ${entry.threshold}, ` +
+        `so ${action} should bring it to about ${Math.round(expectedAfter)}.`,
+    };
+  }
+
+  private static explainStyleAdjustment(
+    adjustment: keyof typeof RECOMMENDATION_KEYS,
+    value: number,
+    metrics: AnalysisMetrics,
+    style: StyleRule
+  ): AdjustmentRationale {
+    const before = metrics[adjustment];
+    const expectedAfter = Math.round(predictMetric(adjustment, before, value) * 10) / 10;
+
+    return {
+      adjustment,
+      value,
+      source: 'style',
+      metric: adjustment,
+      before,
+      expectedAfter,
+      reason: `${style.name} style ${style.summary}, so ${adjustment} ${formatAdjustment(value)} ` +
+        `should take it from ${Math.round(before)} to about ${Math.round(expectedAfter)}.`,
+    };
+  }
+
+  private static describeIntensity(
+    analysis: ImageAnalysisResult,
+    preferences: RecommendationPreferences
+  ): PreferenceAdjustment[] {
+    const { analysisIntensity } = preferences;
+    if (!analysisIntensity) return [];
+
+    return [{
+      preference: 'analysis_intensity',
+      description: analysisIntensity === analysis.editingIntensity
+        ? `Analysis intensity "${analysisIntensity}" matches the suggested intensity, so ${INTENSITY_EFFECTS[analysisIntensity]}.`
+        : `Analysis intensity "${analysisIntensity}" replaced the suggested "${analysis.editingIntensity}", so ${INTENSITY_EFFECTS[analysisIntensity]}.`,
+    }];
+  }
+
+  /**
+   * Clamp the adjustments to what the user's editing style allows. User
+   * presets carry their own options, so they don't limit recommendations.
+   */
+  private static applyEditingStyle(
+    recommendations: EnhancementRecommendations,
+    editingStyle: string | null
+  ): PreferenceAdjustment[] {
+    if (!editingStyle) return [];
+
+    if (isAnyUserPresetStyle(editingStyle)) {
+      return [{
+        preference: 'editing_style',
+        description: 'Your editing style is one of your presets; it is applied when editing and does not limit these recommendations.',
+      }];
+    }
+    const rule = STYLE_RULES[editingStyle.toLowerCase()];
+    if (!rule) return [];
+
+    const changes: string[] = [];
+    (Object.keys(rule.limits) as AdjustmentKey[]).forEach((key) => {
+      const { min = -Infinity, max = Infinity } = rule.limits[key]!;
+      const before = recommendations[key];
+      const after = Math.max(min, Math.min(max, before));
+      if (Math.round(after) !== Math.round(before)) {
+        changes.push(`${ADJUSTMENT_LABELS[key]} ${formatAdjustment(before)} → ${formatAdjustment(after)}`);
+      }
+      recommendations[key] = after;
+    });
+
+    return [{
+      preference: 'editing_style',
+      description: changes.length > 0
+        ? `${rule.name} style ${rule.summary}: ${changes.join(', ')}.`
+        : `${rule.name} style ${rule.summary}; the measured adjustments already fit.`,
+    }];
+  }
+
+  private static applyEnhancementStrength(
+    recommendations: EnhancementRecommendations,
+    strength: number
+  ): PreferenceAdjustment[] {
+    if (strength >= 1) return [];
+
+    (Object.keys(ADJUSTMENT_LABELS) as AdjustmentKey[]).forEach((key) => {
+      recommendations[key] *= strength;
+    });
+    const droppedNoiseReduction = strength === 0 && recommendations.reduceNoise;
+    if (droppedNoiseReduction) {
+      recommendations.reduceNoise = false;
+    }
+
+    const percent = Math.round(strength * 100);
+    return [{
+      preference: 'enhancement_strength',
+      description: strength === 0
+        ? `Enhancement strength 0% turned off every adjustment${droppedNoiseReduction ? ', including noise reduction' : ''}.`
+        : `Enhancement strength ${percent}% scaled every adjustment to ${percent}% of its size.`,
+    }];
+  }
+
+  private async addCropRecommendations(
+    recommendations: EnhancementRecommendations,
+    imageUri: string,
+    analysis: ImageAnalysisResult,
+    cropRatio?: CropRatio
+  ): Promise<void> {
+    try {
+      const { width, height, candidates } = await this.editingEngine.suggestCrops(
+        imageUri,
+        undefined,
+        analysis.subjectRegions
+      );
+      recommendations.cropCandidates = candidates;
+
+      // Only suggest a crop that actually removes part of the frame
+      const preferred = candidates.find((candidate) => candidate.ratio === cropRatio);
+      if (preferred && (preferred.width < width || preferred.height < height)) {
+        recommendations.cropSuggestion = {
+          x: preferred.x,
+          y: preferred.y,
+          width: preferred.width,
+          height: preferred.height,
+        };
+      }
+    } catch (error) {
+      // Crop suggestions are optional; keep the rest of the analysis
+      console.error('Crop suggestion failed:', error);
+    }
+  }
+
+  private async addGeometryRecommendations(
+    recommendations: EnhancementRecommendations,
+    imageUri: string,
+    analysis: ImageAnalysisResult
+  ): Promise<void> {
+    try {
+      const { straighten, keystone } = await this.editingEngine.suggestGeometry(imageUri);
+
+      // Ignore tilts below what the preview can resolve reliably
+      if (straighten && straighten.confidence >= 0.5 && Math.abs(straighten.angle) >= MIN_STRAIGHTEN_ANGLE) {
+        recommendations.straightenAngle = straighten.angle;
+      }
+      // Converging verticals are often intentional outside architecture shots
+      if (analysis.imageType === 'architecture' && Math.abs(keystone) >= MIN_KEYSTONE_CORRECTION) {
+        recommendations.keystoneCorrection = keystone;
+      }
+    } catch (error) {
+      // Geometry suggestions are optional; keep the rest of the analysis
+      console.error('Geometry suggestion failed:', error);
+    }
+  }
+
+  /**
+   * Offer the composition analyzer's best framing as the crop, unless a
+   * crop at the user's preferred ratio was already suggested.
+   */
+  private addCompositionRecommendations(
+    recommendations: EnhancementRecommendations,
+    composition: CompositionAnalysis
+  ): void {
+    if (recommendations.cropSuggestion || !composition.bestFraming) return;
+
+    const { x, y, width, height } = composition.bestFraming;
+    recommendations.cropSuggestion = { x, y, width, height };
+  }
+
+  private static reduceIntensity(recommendations: EnhancementRecommendations, factor: number): void {
     recommendations.adjustBrightness *= factor;
     recommendations.adjustContrast *= factor;
     recommendations.adjustSaturation *= factor;
     recommendations.adjustSharpness *= factor;
   }
 
-  private increaseIntensity(recommendations: EnhancementRecommendations, factor: number): void {
+  private static increaseIntensity(recommendations: EnhancementRecommendations, factor: number): void {
     recommendations.adjustBrightness = Math.sign(recommendations.adjustBrightness) * 
       Math.min(Math.abs(recommendations.adjustBrightness * factor), 50);
     recommendations.adjustContrast = Math.sign(recommendations.adjustContrast) * 
@@ -173,15 +670,16 @@ export class AnalysisEngine {
       Math.min(Math.abs(recommendations.adjustSharpness * factor), 30);
   }
 
-  async batchAnalyze(base64Images: string[]): Promise<DetailedAnalysis[]> {
-    const analyses = await Promise.allSettled(
-      base64Images.map(image => this.analyzeImage(image))
+  async batchAnalyze(
+    base64Images: string[],
+    options: BatchOptions<DetailedAnalysis> = {},
+    preferences?: RecommendationPreferences
+  ): Promise<BatchItemResult<DetailedAnalysis>[]> {
+    return runBatch(
+      base64Images,
+      (image, _index, signal) => this.analyzeImage(image, { preferences, signal }),
+      options
     );
-
-    return analyses
-      .filter((result): result is PromiseFulfilledResult<DetailedAnalysis> => 
-        result.status === 'fulfilled')
-      .map(result => result.value);
   }
 
   getAnalysisSummary(analysis: DetailedAnalysis): string {
@@ -210,4 +708,96 @@ export class AnalysisEngine {
 
     return `Enhanced: ${improvements.join(', ')}`;
   }
+}
+
+/**
+ * Estimate a metric after an adjustment by applying the pixel pipeline's
+ * curves to its mean value.
+ */
+function predictMetric(adjustment: AdjustmentName, before: number, value: number): number {
+  switch (adjustment) {
+    case 'brightness':
+      // Gamma curve, see buildToneTable
+      return 100 * Math.pow(before / 100, Math.pow(2, -value / 100));
+    case 'contrast':
+      // Linear stretch around mid-gray scales RMS contrast directly
+      return Math.min(50, before * (1 + value / 100));
+    case 'saturation':
+      return Math.min(100, before * (1 + value / 100));
+    case 'sharpness': {
+      // Unsharp mask boosts high frequencies by about (1 + amount), so
+      // Laplacian variance grows with its square
+      const variance = (SHARPNESS_MIDPOINT * before) / Math.max(1, 100 - before);
+      const amount = value > 0 ? (value / 100) * MAX_SHARPEN_AMOUNT : value / 100;
+      const sharpened = variance * Math.pow(Math.max(0, 1 + amount), 2);
+      return (sharpened / (sharpened + SHARPNESS_MIDPOINT)) * 100;
+    }
+    case 'reduceNoise':
+      return before * (1 - NOISE_REDUCTION_STRENGTH);
+  }
+}
+
+/**
+ * Editing options for the adjustments the user accepted.
+ */
+export function rationaleToOptions(accepted: AdjustmentRationale[]): EditingOptions {
+  const options: EditingOptions = {};
+  accepted.forEach(({ adjustment, value }) => {
+    if (adjustment === 'reduceNoise') {
+      options.reduceNoise = true;
+    } else {
+      options[adjustment] = Math.round(value);
+    }
+  });
+  return options;
+}
+
+/**
+ * Leave out adjustments the recipe already makes, since recommendations
+ * are measured on the original and applying them again would stack.
+ */
+export function withoutAppliedAdjustments(
+  rationale: AdjustmentRationale[],
+  operations: EditingOptions[]
+): AdjustmentRationale[] {
+  return rationale.filter(({ adjustment }) =>
+    operations.every((operation) =>
+      adjustment === 'reduceNoise' ? !operation.reduceNoise : !operation[adjustment]
+    )
+  );
+}
+
+export function getModelMetrics(analysis: ImageAnalysisResult): ModelMetrics {
+  const { technicalQuality } = analysis;
+  return {
+    exposure: technicalQuality.exposure * 100,
+    sharpness: technicalQuality.sharpness * 100,
+    composition: technicalQuality.composition * 100,
+    overall: technicalQuality.overall * 100,
+  };
+}
+
+/**
+ * Measured metrics next to Gemini's closest score, for showing side by side.
+ * Brightness is a level with no model counterpart; Gemini's exposure rating
+ * is compared with the exposure quality derived from it instead.
+ */
+export function compareMetrics(
+  measured: Partial<AnalysisMetrics> | null,
+  model: ModelMetrics | null
+): MetricComparison[] {
+  return [
+    { key: 'brightness', label: 'Brightness', measured: measured?.brightness },
+    {
+      key: 'exposure',
+      label: 'Exposure',
+      measured: measured?.brightness !== undefined ? exposureQuality(measured.brightness) : undefined,
+      model: model?.exposure,
+    },
+    { key: 'contrast', label: 'Contrast', measured: measured?.contrast },
+    { key: 'saturation', label: 'Saturation', measured: measured?.saturation },
+    { key: 'sharpness', label: 'Sharpness', measured: measured?.sharpness, model: model?.sharpness },
+    { key: 'noise', label: 'Noise', measured: measured?.noise },
+    { key: 'composition', label: 'Composition', measured: measured?.composition, model: model?.composition },
+  ];
 }
\ No newline at end of file
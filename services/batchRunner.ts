@@ -0,0 +1,94 @@
+export type BatchErrorReason = 'failed' | 'aborted';
+
+/**
+ * Error recorded for a single batch item. `cause` holds whatever the
+ * task threw; aborted items that never started have no cause.
+ */
+export class BatchItemError extends Error {
+  readonly index: number;
+  readonly reason: BatchErrorReason;
+  readonly cause?: unknown;
+
+  constructor(index: number, reason: BatchErrorReason, cause?: unknown) {
+    const summary = `Batch item ${index} ${reason === 'aborted' ? 'was aborted' : 'failed'}`;
+    super(cause instanceof Error ? `${summary}: ${cause.message}` : summary);
+    this.name = 'BatchItemError';
+    this.index = index;
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+export type BatchItemResult<T> =
+  | { status: 'fulfilled'; index: number; value: T }
+  | { status: 'rejected'; index: number; error: BatchItemError };
+
+export interface BatchProgress<T> {
+  completed: number;
+  failed: number;
+  total: number;
+  result: BatchItemResult<T>; // the item that just settled
+}
+
+export interface BatchOptions<T> {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: BatchProgress<T>) => void;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Run a task over every item with at most `concurrency` in flight.
+ * Results are index-aligned with the input; failures never reject the batch.
+ * After `signal` aborts, items that have not started are marked aborted and
+ * running tasks receive the signal so they can stop early.
+ */
+export async function runBatch<TItem, TResult>(
+  items: readonly TItem[],
+  task: (item: TItem, index: number, signal?: AbortSignal) => Promise<TResult>,
+  options: BatchOptions<TResult> = {}
+): Promise<BatchItemResult<TResult>[]> {
+  const { concurrency = DEFAULT_CONCURRENCY, signal, onProgress } = options;
+  const results = new Array<BatchItemResult<TResult>>(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+  let failed = 0;
+
+  const settle = (result: BatchItemResult<TResult>) => {
+    results[result.index] = result;
+    completed++;
+    if (result.status === 'rejected') failed++;
+
+    try {
+      onProgress?.({ completed, failed, total: items.length, result });
+    } catch (error) {
+      console.error('Batch progress callback failed:', error);
+    }
+  };
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+
+      if (signal?.aborted) {
+        settle({ status: 'rejected', index, error: new BatchItemError(index, 'aborted') });
+        continue;
+      }
+
+      try {
+        const value = await task(items[index], index, signal);
+        settle({ status: 'fulfilled', index, value });
+      } catch (error) {
+        const reason = signal?.aborted ? 'aborted' : 'failed';
+        settle({ status: 'rejected', index, error: new BatchItemError(index, reason, error) });
+      }
+    }
+  };
+
+  const limit = Number.isFinite(concurrency) ? Math.floor(concurrency) : DEFAULT_CONCURRENCY;
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return results;
+}
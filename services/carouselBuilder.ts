@@ -0,0 +1,188 @@
+import { manipulateAsync, ImageResult, SaveFormat } from 'expo-image-manipulator';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '../lib/database/types';
+import { createCarousel, deleteCarousel, type Carousel } from '../lib/database/queries/carousels';
+import { createImage, type Image } from '../lib/database/queries/images';
+import { loadRaster, saveRaster } from './imaging/codec';
+import {
+  CollageLayout,
+  MAX_CAROUSEL_SLIDES,
+  SLIDE_RATIOS,
+  SlideRatio,
+  computeLayoutCells,
+  coverRect,
+  createFilledRaster,
+  planPanoramaSlides,
+} from './imaging/carousel';
+import { compositeOver } from './imaging/watermark';
+import { ImageService } from './imageService';
+
+export type CarouselKind = 'panorama' | 'collage';
+
+export interface CollageOptions {
+  layout: CollageLayout;
+  ratio?: SlideRatio;
+  gutter?: number; // pixels on a 1080 wide slide
+  background?: string; // #RGB or #RRGGBB
+  imagesPerSlide?: number; // defaults to every image on one slide
+}
+
+export interface CarouselDraft {
+  kind: CarouselKind;
+  ratio: SlideRatio;
+  slides: ImageResult[];
+  collage?: CollageOptions;
+}
+
+export interface SavedCarousel {
+  carousel: Carousel;
+  images: Image[];
+}
+
+export const CAROUSEL_SLIDE_WIDTH = 1080;
+export const MAX_IMAGES_PER_SLIDE = 9;
+
+const SLIDE_QUALITY = 0.95;
+
+/**
+ * Builds Instagram carousels: seamless panorama splits and multi-image
+ * collages. Slides are rendered locally first so they can be previewed,
+ * then uploaded and stored as `images` rows grouped under one carousel.
+ * Source URIs must be local files (see ImageService.downloadToCache).
+ */
+export class CarouselBuilder {
+  private supabase: SupabaseClient<Database>;
+  private imageService: ImageService;
+
+  constructor(supabase: SupabaseClient<Database>) {
+    this.supabase = supabase;
+    this.imageService = new ImageService(supabase);
+  }
+
+  async splitPanorama(imageUri: string, ratio: SlideRatio = '4:5'): Promise<CarouselDraft> {
+    const source = await manipulateAsync(imageUri, []);
+    const regions = planPanoramaSlides(source.width, source.height, ratio);
+    if (regions.length < 2) {
+      throw new Error('Image is not wide enough to split into slides');
+    }
+
+    try {
+      const slides: ImageResult[] = [];
+      for (const region of regions) {
+        slides.push(
+          await manipulateAsync(
+            imageUri,
+            [
+              { crop: { originX: region.x, originY: region.y, width: region.width, height: region.height } },
+              // Every slide is scaled by the same factor, so the seams still line up
+              ...(region.width > CAROUSEL_SLIDE_WIDTH ? [{ resize: { width: CAROUSEL_SLIDE_WIDTH } }] : []),
+            ],
+            { compress: SLIDE_QUALITY, format: SaveFormat.JPEG }
+          )
+        );
+      }
+
+      return { kind: 'panorama', ratio, slides };
+    } catch (error) {
+      console.error('Panorama split failed:', error);
+      throw new Error('Failed to split panorama');
+    }
+  }
+
+  async composeCollage(imageUris: string[], options: CollageOptions): Promise<CarouselDraft> {
+    const { layout, ratio = '4:5', gutter = 0, background = '#FFFFFF' } = options;
+    const perSlide = Math.min(options.imagesPerSlide ?? imageUris.length, MAX_IMAGES_PER_SLIDE);
+    const slideCount = Math.ceil(imageUris.length / Math.max(1, perSlide));
+
+    if (imageUris.length === 0) {
+      throw new Error('Select at least one image');
+    }
+    if (slideCount > MAX_CAROUSEL_SLIDES) {
+      throw new Error(`A carousel can have at most ${MAX_CAROUSEL_SLIDES} slides`);
+    }
+
+    const width = CAROUSEL_SLIDE_WIDTH;
+    const height = Math.round(width / SLIDE_RATIOS[ratio]);
+
+    try {
+      const slides: ImageResult[] = [];
+      for (let start = 0; start < imageUris.length; start += perSlide) {
+        const uris = imageUris.slice(start, start + perSlide);
+        const canvas = createFilledRaster(width, height, background);
+        const cells = computeLayoutCells(uris.length, layout, width, height, gutter);
+
+        for (let i = 0; i < uris.length; i++) {
+          const cell = cells[i];
+          const source = await manipulateAsync(uris[i], []);
+          const region = coverRect(source.width, source.height, cell.width, cell.height);
+          const tile = await loadRaster(uris[i], [
+            { crop: { originX: region.x, originY: region.y, width: region.width, height: region.height } },
+            { resize: { width: cell.width, height: cell.height } },
+          ]);
+          compositeOver(canvas, tile, cell.x, cell.y);
+        }
+
+        slides.push(await saveRaster(canvas, { compress: SLIDE_QUALITY, format: SaveFormat.JPEG }));
+      }
+
+      return { kind: 'collage', ratio, slides, collage: { ...options, ratio, gutter, background } };
+    } catch (error) {
+      console.error('Collage composition failed:', error);
+      throw new Error('Failed to compose collage');
+    }
+  }
+
+  /**
+   * Upload every slide and record it as an image in the carousel, in order.
+   * If any slide fails, the rows created so far are removed again.
+   */
+  async saveCarousel(userId: string, draft: CarouselDraft): Promise<SavedCarousel> {
+    const carousel = await createCarousel(this.supabase, {
+      user_id: userId,
+      kind: draft.kind,
+      slide_count: draft.slides.length,
+      layout: { ratio: draft.ratio, ...draft.collage } as Json,
+    });
+    const images: Image[] = [];
+    const filePaths: string[] = []; // storage paths, index-aligned with the slides uploaded so far
+
+    try {
+      for (let index = 0; index < draft.slides.length; index++) {
+        const slide = draft.slides[index];
+        const upload = await this.imageService.uploadImage(
+          slide.uri,
+          userId,
+          `carousel_${carousel.id}_${index + 1}.jpeg`,
+          { maxWidth: slide.width, maxHeight: slide.height, quality: SLIDE_QUALITY }
+        );
+        filePaths.push(`${userId}/${upload.fileName}`);
+
+        images.push(
+          await createImage(this.supabase, {
+            user_id: userId,
+            original_url: upload.publicUrl,
+            processed_url: upload.publicUrl,
+            status: 'processed',
+            analysis_data: null,
+            carousel_id: carousel.id,
+            carousel_index: index,
+          })
+        );
+      }
+
+      return { carousel, images };
+    } catch (error) {
+      console.error('Failed to save carousel:', error);
+      // Remove every uploaded slide, including one whose row was never created
+      await Promise.allSettled(
+        filePaths.map((filePath, index) =>
+          images[index]
+            ? this.imageService.deleteImage(images[index].id, filePath)
+            : this.supabase.storage.from('images').remove([filePath])
+        )
+      );
+      await deleteCarousel(this.supabase, carousel.id).catch(() => undefined);
+      throw new Error('Failed to save carousel');
+    }
+  }
+}
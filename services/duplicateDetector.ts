@@ -0,0 +1,78 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../lib/database/types';
+import { getImageHashes, getImagesAnalysis, type ImageHashRow } from '../lib/database/queries/images';
+import { StoredAnalysis, decodeAnalysisData } from './analysisData';
+import { loadRaster } from './imaging/codec';
+import {
+  HASH_SOURCE_EDGE,
+  PerceptualHash,
+  computePerceptualHash,
+  hammingDistance,
+  isNearDuplicate,
+} from './imaging/phash';
+
+export interface DuplicateMatch {
+  image: ImageHashRow;
+  distance: number; // pHash Hamming distance, 0 for an identical frame
+}
+
+export interface DuplicateCheck {
+  hash: PerceptualHash | null;
+  duplicates: DuplicateMatch[]; // closest first
+}
+
+export class DuplicateDetector {
+  private supabase: SupabaseClient<Database>;
+
+  constructor(supabase: SupabaseClient<Database>) {
+    this.supabase = supabase;
+  }
+
+  async hashImage(uri: string): Promise<PerceptualHash> {
+    const raster = await loadRaster(uri, [
+      { resize: { width: HASH_SOURCE_EDGE, height: HASH_SOURCE_EDGE } },
+    ]);
+    return computePerceptualHash(raster);
+  }
+
+  async findNearDuplicates(userId: string, hash: PerceptualHash): Promise<DuplicateMatch[]> {
+    const images = await getImageHashes(this.supabase, userId);
+
+    return images
+      .filter((image) => isNearDuplicate(hash, { phash: image.phash ?? '', dhash: image.dhash ?? '' }))
+      .map((image) => ({ image, distance: hammingDistance(hash.phash, image.phash ?? '') }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Hash a local image and look for near-duplicates the user already
+   * uploaded. Hashing failures are logged and treated as "no duplicates"
+   * so they never block an upload.
+   */
+  async checkBeforeUpload(userId: string, uri: string): Promise<DuplicateCheck> {
+    try {
+      const hash = await this.hashImage(uri);
+      return { hash, duplicates: await this.findNearDuplicates(userId, hash) };
+    } catch (error) {
+      console.warn('Duplicate check failed:', error);
+      return { hash: null, duplicates: [] };
+    }
+  }
+
+  /**
+   * Analysis from the closest analyzed duplicate, so the same shot isn't
+   * sent to Gemini twice. Only the matched rows' analysis is fetched.
+   */
+  async findReusableAnalysis(duplicates: DuplicateMatch[]): Promise<StoredAnalysis | null> {
+    const rows = await getImagesAnalysis(
+      this.supabase,
+      duplicates.map(({ image }) => image.id)
+    );
+
+    for (const { image } of duplicates) {
+      const analysis = decodeAnalysisData(rows.find((row) => row.id === image.id)?.analysis_data);
+      if (analysis) return analysis;
+    }
+    return null;
+  }
+}
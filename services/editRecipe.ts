@@ -0,0 +1,145 @@
+import type { Json } from '../lib/database/types';
+import type { EditingOptions } from './editingEngine';
+
+export const EDIT_RECIPE_VERSION = 1;
+
+/**
+ * Serializable, ordered list of edits stored per image.
+ * Re-rendering always starts from the original so edits never compound
+ * compression losses.
+ */
+export interface EditRecipe {
+  version: number;
+  operations: EditingOptions[];
+  updatedAt: string;
+}
+
+export interface EditHistory {
+  past: EditRecipe[];
+  present: EditRecipe;
+  future: EditRecipe[];
+}
+
+const MAX_HISTORY = 50;
+
+export function createEditRecipe(operations: EditingOptions[] = []): EditRecipe {
+  return {
+    version: EDIT_RECIPE_VERSION,
+    operations,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function appendOperation(recipe: EditRecipe, operation: EditingOptions): EditRecipe {
+  return createEditRecipe([...recipe.operations, operation]);
+}
+
+/**
+ * Read a recipe from a stored JSON value, upgrading older versions.
+ * Returns null when the value is missing or not a recipe.
+ */
+export function parseEditRecipe(value: unknown): EditRecipe | null {
+  if (!value) return null;
+
+  let raw: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value);
+    } catch (error) {
+      console.error('Failed to parse edit recipe:', error);
+      return null;
+    }
+  }
+
+  if (typeof raw !== 'object' || raw === null || !('operations' in raw) || !Array.isArray(raw.operations)) {
+    return null;
+  }
+  const { operations, version: storedVersion, updatedAt } = raw as {
+    operations: unknown[];
+    version?: unknown;
+    updatedAt?: unknown;
+  };
+
+  const version = typeof storedVersion === 'number' ? storedVersion : 1;
+  if (version > EDIT_RECIPE_VERSION) {
+    console.warn(`Edit recipe version ${version} is newer than supported version ${EDIT_RECIPE_VERSION}`);
+  }
+
+  return {
+    version: EDIT_RECIPE_VERSION,
+    operations: operations.filter(
+      (operation): operation is EditingOptions => typeof operation === 'object' && operation !== null
+    ),
+    updatedAt: typeof updatedAt === 'string' ? updatedAt : new Date().toISOString(),
+  };
+}
+
+const GEOMETRY_KEYS = [
+  'crop',
+  'resize',
+  'rotate',
+  'straighten',
+  'autoStraighten',
+  'keystone',
+  'flip',
+] as const satisfies readonly (keyof EditingOptions)[];
+
+/**
+ * The operations of a recipe that change the frame, with tonal and color
+ * settings dropped. Crops and angles added to the recipe are replayed on the
+ * output of these, so that is the image they have to be measured on.
+ */
+export function getGeometryOperations(recipe: EditRecipe): EditingOptions[] {
+  return recipe.operations
+    .map(
+      (operation): EditingOptions =>
+        Object.fromEntries(
+          GEOMETRY_KEYS.filter((key) => operation[key] !== undefined).map((key) => [key, operation[key]])
+        )
+    )
+    .filter((geometry) => Object.keys(geometry).length > 0);
+}
+
+export function toEditRecipeJson(recipe: EditRecipe): Json {
+  return recipe as unknown as Json;
+}
+
+// History helpers
+
+export function createEditHistory(recipe: EditRecipe = createEditRecipe()): EditHistory {
+  return {
+    past: [],
+    present: recipe,
+    future: [],
+  };
+}
+
+export function pushEdit(history: EditHistory, recipe: EditRecipe): EditHistory {
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: recipe,
+    future: [],
+  };
+}
+
+export function undoEdit(history: EditHistory): EditHistory {
+  if (history.past.length === 0) return history;
+
+  const previous = history.past[history.past.length - 1];
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoEdit(history: EditHistory): EditHistory {
+  if (history.future.length === 0) return history;
+
+  const [next, ...future] = history.future;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future,
+  };
+}
@@ -1,5 +1,46 @@
-import { manipulateAsync, FlipType, SaveFormat } from 'expo-image-manipulator';
+import * as FileSystem from 'expo-file-system';
+import { manipulateAsync, Action, FlipType, ImageResult, SaveFormat } from 'expo-image-manipulator';
 import { EnhancementRecommendations, DetailedAnalysis } from './analysisEngine';
+import { applySaturation } from './imaging/adjustments';
+import { loadRaster, loadRasterPreview, saveRaster } from './imaging/codec';
+import { coverRect } from './imaging/carousel';
+import { CompositionAnalysis, analyzeComposition } from './imaging/composition';
+import { ToneCurves, hasToneCurves } from './imaging/curves';
+import { AutoEnhanceReport, WhiteBalanceMethod, isNoticeableAutoEnhance } from './imaging/autoEnhance';
+import {
+  GrainSettings,
+  SplitToningSettings,
+  VignetteSettings,
+  hasGrain,
+  hasSplitToning,
+  hasVignette,
+} from './imaging/effects';
+import {
+  DIFFERENCE_MODES,
+  DifferenceMode,
+  DifferenceStats,
+  compareRasters,
+} from './imaging/difference';
+import { ImageMetadata, MetadataPrivacy } from './imaging/exif';
+import { DenoiseMethod } from './imaging/filters';
+import {
+  KeystoneSettings,
+  StraightenSuggestion,
+  detectStraightenAngle,
+  estimateVerticalKeystone,
+  hasKeystone,
+} from './imaging/geometry';
+import { HslAdjustments, hasHslAdjustments } from './imaging/hsl';
+import { CubeLut, applyLut } from './imaging/lut';
+import { applyPixelOperations, hasPixelOperations } from './imaging/pipeline';
+import { CropCandidate, CropRatio, SubjectRegion, findSmartCrops, scaleCrop } from './imaging/smartCrop';
+import { LogoWatermark, TextWatermark, applyWatermark } from './imaging/watermark';
+import { BatchItemResult, BatchOptions, runBatch } from './batchRunner';
+import { EditRecipe } from './editRecipe';
+import { ExportProfile, ExportProfileId, fitExportScale, getExportProfile } from './exportProfiles';
+import { embedMetadata } from './imageMetadata';
+import type { UserEditingPreset } from './editingPresets';
+import { LutPreset, decodeLutPreset } from './lutPresets';
 
 export interface EditingOptions {
   brightness?: number; // -100 to 100
@@ -7,7 +48,16 @@ export interface EditingOptions {
   saturation?: number; // -100 to 100
   sharpness?: number; // -100 to 100
   reduceNoise?: boolean;
+  noiseReductionMethod?: DenoiseMethod;
+  enhancementStrength?: number; // 0 to 1, scales auto enhance, sharpening and noise reduction
   autoEnhance?: boolean;
+  whiteBalanceMethod?: WhiteBalanceMethod;
+  curves?: ToneCurves;
+  hsl?: HslAdjustments;
+  splitToning?: SplitToningSettings;
+  fade?: number; // 0 to 100
+  vignette?: VignetteSettings;
+  grain?: GrainSettings;
   crop?: {
     originX: number;
     originY: number;
@@ -18,8 +68,24 @@ export interface EditingOptions {
     width?: number;
     height?: number;
   };
-  rotate?: number; // degrees
+  rotate?: number; // degrees, clockwise; anything off a quarter turn is straightened
+  straighten?: number; // degrees, clockwise, cropped to the largest inscribed rectangle
+  autoStraighten?: boolean;
+  keystone?: KeystoneSettings;
   flip?: 'horizontal' | 'vertical';
+  lut?: {
+    presetId: string;
+    intensity?: number; // 0 to 1
+  };
+}
+
+export type WatermarkSettings =
+  | TextWatermark
+  | (Omit<LogoWatermark, 'logo'> & { logoUri: string });
+
+export interface EditingOutputOptions {
+  compress?: number;
+  format?: SaveFormat;
 }
 
 export interface EditingResult {
@@ -27,9 +93,56 @@ export interface EditingResult {
   width: number;
   height: number;
   base64?: string;
+  autoEnhancement?: AutoEnhanceReport;
+  straightenAngle?: number;
+}
+
+export type PresetSource = keyof typeof EditingEngine.PRESETS | LutPreset | UserEditingPreset;
+
+export interface ExportResult extends EditingResult {
+  profileId: string;
+  format: SaveFormat;
+  quality: number;
+  fileSize: number;
+}
+
+export interface ExportMetadata {
+  metadata: ImageMetadata;
+  privacy: MetadataPrivacy;
+}
+
+const MAX_QUALITY_SEARCH_STEPS = 6;
+const MAX_DOWNSCALE_STEPS = 4;
+const DOWNSCALE_FACTOR = 0.85;
+
+export interface CropSuggestions {
+  width: number; // source image size the candidates refer to
+  height: number;
+  candidates: CropCandidate[];
+}
+
+export interface GeometrySuggestion {
+  straighten: StraightenSuggestion | null;
+  keystone: number; // KeystoneSettings.vertical, 0 when the verticals look parallel
+}
+
+export interface ImageDifference {
+  width: number;
+  height: number;
+  stats: DifferenceStats;
+  heatmaps: Record<DifferenceMode, string>; // PNG URIs with alpha, sized like the preview
+  geometryChanged: boolean; // crop or rotation changed the framing, so deltas include misalignment
 }
 
+const DIFFERENCE_PREVIEW_EDGE = 512;
+
 export class EditingEngine {
+  private lutPresets = new Map<string, LutPreset>();
+
+  registerLutPresets(presets: LutPreset[]): void {
+    presets.forEach((preset) => this.lutPresets.set(preset.id, preset));
+  }
+
   async enhanceImage(
     imageUri: string,
     analysis: DetailedAnalysis,
@@ -50,9 +163,15 @@ export class EditingEngine {
     }
   }
 
-  async applyEdits(imageUri: string, options: EditingOptions): Promise<EditingResult> {
+  async applyEdits(
+    imageUri: string,
+    options: EditingOptions,
+    output: EditingOutputOptions = {}
+  ): Promise<EditingResult> {
+    const { compress = 0.9, format = SaveFormat.JPEG } = output;
+
     try {
-      const actions = [];
+      const actions: Action[] = [];
 
       // Apply cropping first if specified
       if (options.crop) {
@@ -68,12 +187,18 @@ export class EditingEngine {
         });
       }
 
-      // Apply rotation if specified
-      if (options.rotate && options.rotate !== 0) {
+      // Quarter turns are lossless; the remainder is resampled and cropped
+      const rotate = options.rotate ?? 0;
+      const quarterTurns = Math.round(rotate / 90) * 90;
+      if (quarterTurns % 360 !== 0) {
         actions.push({
-          rotate: options.rotate,
+          rotate: quarterTurns,
         });
       }
+      const residualRotation = rotate - quarterTurns;
+      const pixelOptions = residualRotation
+        ? { ...options, straighten: (options.straighten ?? 0) + residualRotation }
+        : options;
 
       // Apply flip if specified
       if (options.flip) {
@@ -82,16 +207,31 @@ export class EditingEngine {
         });
       }
 
-      // Apply basic adjustments using filters (limited by expo-image-manipulator)
-      // Note: expo-image-manipulator has limited filter support
-      // For production, consider using react-native-image-filter-kit or similar
-      
+      // Tonal and color adjustments run on decoded pixels after geometry
+      if (hasPixelOperations(pixelOptions) || options.lut) {
+        const raster = await loadRaster(imageUri, actions);
+        const { raster: processed, autoEnhancement, straightenAngle } = applyPixelOperations(
+          raster,
+          pixelOptions
+        );
+        let adjusted = processed;
+
+        // Color grading is applied last, on top of the tonal adjustments
+        if (options.lut) {
+          const lut = this.resolveLut(options.lut.presetId);
+          if (lut) adjusted = applyLut(adjusted, lut, options.lut.intensity ?? 1);
+        }
+
+        const saved = await saveRaster(adjusted, { compress, format });
+        return { ...saved, autoEnhancement, straightenAngle };
+      }
+
       const result = await manipulateAsync(
         imageUri,
         actions,
         {
-          compress: 0.9,
-          format: SaveFormat.JPEG,
+          compress,
+          format,
           base64: false,
         }
       );
@@ -103,6 +243,62 @@ export class EditingEngine {
     }
   }
 
+  /**
+   * The registered LUT, or null when it has been deleted since the recipe
+   * was saved. The grading step is then skipped so the rest still renders.
+   */
+  private resolveLut(presetId: string): CubeLut | null {
+    const preset = this.lutPresets.get(presetId);
+    if (!preset) {
+      console.warn(`LUT preset ${presetId} is not available, skipping its grading`);
+      return null;
+    }
+    return decodeLutPreset(preset);
+  }
+
+  /**
+   * Re-render an image from its original by replaying every recipe operation in order.
+   * Intermediate steps are kept lossless; only the final output is compressed.
+   */
+  async renderRecipe(
+    originalUri: string,
+    recipe: EditRecipe,
+    output: EditingOutputOptions = {}
+  ): Promise<EditingResult> {
+    const { operations } = recipe;
+
+    if (operations.length === 0) {
+      return await this.applyEdits(originalUri, {}, output);
+    }
+
+    let currentUri = originalUri;
+    let result: EditingResult | null = null;
+    let autoEnhancement: AutoEnhanceReport | undefined;
+    let straightenAngle: number | undefined;
+
+    for (let i = 0; i < operations.length; i++) {
+      const isLast = i === operations.length - 1;
+      const inputUri = currentUri;
+      try {
+        result = await this.applyEdits(
+          inputUri,
+          operations[i],
+          isLast ? output : { compress: 1, format: SaveFormat.PNG }
+        );
+      } finally {
+        // Intermediate PNGs are full size and only read by the next step
+        if (inputUri !== originalUri) {
+          await FileSystem.deleteAsync(inputUri, { idempotent: true });
+        }
+      }
+      currentUri = result.uri;
+      autoEnhancement = result.autoEnhancement ?? autoEnhancement;
+      straightenAngle = result.straightenAngle ?? straightenAngle;
+    }
+
+    return { ...result!, autoEnhancement, straightenAngle };
+  }
+
   private buildOptionsFromAnalysis(analysis: DetailedAnalysis): EditingOptions {
     const { recommendations } = analysis;
 
@@ -125,25 +321,120 @@ export class EditingEngine {
       };
     }
 
+    if (recommendations.straightenAngle) {
+      options.straighten = recommendations.straightenAngle;
+    }
+    if (recommendations.keystoneCorrection) {
+      options.keystone = { vertical: recommendations.keystoneCorrection };
+    }
+
     return options;
   }
 
   async batchEnhance(
     imageUris: string[],
-    analyses: DetailedAnalysis[]
-  ): Promise<EditingResult[]> {
+    analyses: DetailedAnalysis[],
+    options: BatchOptions<EditingResult> = {}
+  ): Promise<BatchItemResult<EditingResult>[]> {
     if (imageUris.length !== analyses.length) {
       throw new Error('Image URIs and analyses arrays must have the same length');
     }
 
-    const results = await Promise.allSettled(
-      imageUris.map((uri, index) => this.enhanceImage(uri, analyses[index]))
-    );
+    return runBatch(imageUris, (uri, index) => this.enhanceImage(uri, analyses[index]), options);
+  }
 
-    return results
-      .filter((result): result is PromiseFulfilledResult<EditingResult> => 
-        result.status === 'fulfilled')
-      .map(result => result.value);
+  async suggestCrops(
+    imageUri: string,
+    ratios?: CropRatio[],
+    subjects: SubjectRegion[] = []
+  ): Promise<CropSuggestions> {
+    try {
+      const preview = await loadRasterPreview(imageUri);
+      const source = { width: preview.sourceWidth, height: preview.sourceHeight };
+      const candidates = findSmartCrops(preview.raster, ratios, subjects).map((candidate) =>
+        scaleCrop(candidate, preview.raster, source)
+      );
+
+      return { ...source, candidates };
+    } catch (error) {
+      console.error('Smart crop failed:', error);
+      throw new Error('Failed to suggest crops');
+    }
+  }
+
+  /**
+   * Detect a tilted horizon or verticals and, for architecture, converging
+   * verticals. Runs on a small preview, so angles are accurate to about a
+   * quarter degree.
+   */
+  async suggestGeometry(imageUri: string): Promise<GeometrySuggestion> {
+    try {
+      const { raster } = await loadRasterPreview(imageUri);
+      return {
+        straighten: detectStraightenAngle(raster),
+        keystone: estimateVerticalKeystone(raster),
+      };
+    } catch (error) {
+      console.error('Geometry detection failed:', error);
+      throw new Error('Failed to detect image geometry');
+    }
+  }
+
+  /**
+   * Score the framing and find a tighter crop that improves it. Runs on a
+   * small preview; bestFraming is scaled back to the source image.
+   */
+  async analyzeComposition(imageUri: string, subjects: SubjectRegion[] = []): Promise<CompositionAnalysis> {
+    try {
+      const { raster, sourceWidth, sourceHeight } = await loadRasterPreview(imageUri);
+      const composition = analyzeComposition(raster, subjects);
+      const source = { width: sourceWidth, height: sourceHeight };
+
+      return {
+        ...composition,
+        bestFraming: composition.bestFraming && scaleCrop(composition.bestFraming, raster, source),
+      };
+    } catch (error) {
+      console.error('Composition analysis failed:', error);
+      throw new Error('Failed to analyze composition');
+    }
+  }
+
+  /**
+   * Measure how the processed image differs from the original. Both are
+   * compared at preview size; the original is resampled onto the processed
+   * image's grid, so crops and rotations show up as large differences.
+   */
+  async compareImages(originalUri: string, processedUri: string): Promise<ImageDifference> {
+    try {
+      const processed = await loadRasterPreview(processedUri, DIFFERENCE_PREVIEW_EDGE);
+      const { width, height } = processed.raster;
+      const originalSize = await manipulateAsync(originalUri, []);
+      // Trim the original to the processed frame's aspect ratio before
+      // scaling, so a crop doesn't stretch the before image
+      const frame = coverRect(originalSize.width, originalSize.height, width, height);
+      const original = await loadRaster(originalUri, [
+        { crop: { originX: frame.x, originY: frame.y, width: frame.width, height: frame.height } },
+        { resize: { width, height } },
+      ]);
+
+      const { stats, heatmaps } = compareRasters(original, processed.raster);
+      const saved = {} as Record<DifferenceMode, string>;
+      for (const mode of DIFFERENCE_MODES) {
+        saved[mode] = (await saveRaster(heatmaps[mode], { format: SaveFormat.PNG, compress: 1 })).uri;
+      }
+
+      const aspectChange =
+        Math.abs(
+          originalSize.width / originalSize.height - processed.sourceWidth / processed.sourceHeight
+        ) /
+        (processed.sourceWidth / processed.sourceHeight);
+
+      return { width, height, stats, heatmaps: saved, geometryChanged: aspectChange > 0.01 };
+    } catch (error) {
+      console.error('Image comparison failed:', error);
+      throw new Error('Failed to compare images');
+    }
   }
 
   async createThumbnail(imageUri: string, size: number = 200): Promise<EditingResult> {
@@ -166,90 +457,180 @@ export class EditingEngine {
 
   async watermarkImage(
     imageUri: string,
-    watermarkText: string = 'AI Enhanced'
+    watermark: string | WatermarkSettings = 'AI Enhanced'
   ): Promise<EditingResult> {
-    // Note: expo-image-manipulator doesn't support text overlays
-    // For production, you'd need react-native-image-filter-kit or similar
-    // This is a placeholder implementation
-    
+    const settings: WatermarkSettings = typeof watermark === 'string'
+      ? { type: 'text', text: watermark }
+      : watermark;
+
     try {
-      // For now, just return the original image
-      // In production, add watermark using a more capable library
-      const result = await manipulateAsync(
-        imageUri,
-        [],
-        {
-          compress: 0.9,
-          format: SaveFormat.JPEG,
-        }
-      );
+      const raster = await loadRaster(imageUri);
 
-      return result;
+      const watermarked = settings.type === 'text'
+        ? applyWatermark(raster, settings)
+        : applyWatermark(raster, { ...settings, logo: await loadRaster(settings.logoUri) });
+
+      return await saveRaster(watermarked, {
+        compress: 0.9,
+        format: SaveFormat.JPEG,
+      });
     } catch (error) {
       console.error('Watermarking failed:', error);
       throw new Error('Failed to add watermark');
     }
   }
 
-  async optimizeForWeb(imageUri: string): Promise<EditingResult> {
+  async optimizeForWeb(imageUri: string): Promise<ExportResult> {
+    return this.exportImage(imageUri, 'web');
+  }
+
+  async optimizeForPrint(imageUri: string): Promise<ExportResult> {
+    return this.exportImage(imageUri, 'print');
+  }
+
+  /**
+   * Encode an image for an export profile. When the profile has a byte
+   * budget, quality is searched first and the image is scaled down only
+   * if even the lowest accepted quality is too large. Camera metadata, when
+   * given, is written into JPEG exports after the privacy setting is applied.
+   */
+  async exportImage(
+    imageUri: string,
+    profile: ExportProfileId | ExportProfile,
+    metadata?: ExportMetadata
+  ): Promise<ExportResult> {
+    const settings = getExportProfile(profile);
+
     try {
-      const result = await manipulateAsync(
-        imageUri,
-        [{ resize: { width: 1200 } }], // Max width for web
-        {
-          compress: 0.85,
-          format: SaveFormat.JPEG,
+      const source = await manipulateAsync(imageUri, []);
+      let scale = fitExportScale(source.width, source.height, settings);
+      let best: ExportResult | null = null;
+
+      for (let step = 0; step <= MAX_DOWNSCALE_STEPS; step++) {
+        const prepared = await this.prepareExportSource(imageUri, source, scale, settings);
+        best = await this.encodeWithinBudget(prepared.uri, prepared.actions, settings);
+
+        if (!settings.maxBytes || best.fileSize <= settings.maxBytes) {
+          break;
         }
-      );
+        scale *= DOWNSCALE_FACTOR;
+      }
 
-      return result;
+      // Return the smallest attempt rather than failing the export
+      return await this.attachMetadata(best!, metadata);
     } catch (error) {
-      console.error('Web optimization failed:', error);
-      throw new Error('Failed to optimize for web');
+      console.error('Export failed:', error);
+      throw new Error(`Failed to export for ${settings.name}`);
     }
   }
 
-  async optimizeForPrint(imageUri: string): Promise<EditingResult> {
-    try {
-      const result = await manipulateAsync(
-        imageUri,
-        [], // Keep original dimensions for print
-        {
-          compress: 0.95, // Higher quality for print
-          format: SaveFormat.JPEG,
-        }
-      );
-
+  private async attachMetadata(
+    result: ExportResult,
+    metadata?: ExportMetadata
+  ): Promise<ExportResult> {
+    if (!metadata || result.format !== SaveFormat.JPEG) {
       return result;
-    } catch (error) {
-      console.error('Print optimization failed:', error);
-      throw new Error('Failed to optimize for print');
     }
+
+    const uri = await embedMetadata(result.uri, metadata.metadata, metadata.privacy);
+    const info = await FileSystem.getInfoAsync(uri);
+    return { ...result, uri, fileSize: info.exists ? info.size : result.fileSize };
   }
 
-  // Helper method to simulate advanced filters
-  // In production, replace with actual filter implementations
-  private async applyAdvancedFilters(
+  private async prepareExportSource(
     imageUri: string,
-    options: EditingOptions
-  ): Promise<string> {
-    // This is a mock implementation
-    // For real advanced filters, use libraries like:
-    // - react-native-image-filter-kit
-    // - react-native-gl-image-filters
-    // - Custom native modules
+    source: ImageResult,
+    scale: number,
+    settings: ExportProfile
+  ): Promise<{ uri: string; actions: Action[] }> {
+    const actions: Action[] =
+      scale < 1 ? [{ resize: { width: Math.max(1, Math.round(source.width * scale)) } }] : [];
+
+    if (settings.color !== 'grayscale') {
+      return { uri: imageUri, actions };
+    }
 
-    let processedUri = imageUri;
+    // Bake the color change into a lossless intermediate so quality search only re-encodes
+    const raster = await loadRaster(imageUri, actions);
+    applySaturation(raster, -100);
+    const intermediate = await saveRaster(raster, { compress: 1, format: SaveFormat.PNG });
+    return { uri: intermediate.uri, actions: [] };
+  }
+
+  private async encodeWithinBudget(
+    imageUri: string,
+    actions: Action[],
+    settings: ExportProfile
+  ): Promise<ExportResult> {
+    const encode = async (quality: number): Promise<ExportResult> => {
+      const result = await manipulateAsync(imageUri, actions, {
+        compress: quality,
+        format: settings.format,
+      });
+      const info = await FileSystem.getInfoAsync(result.uri);
+
+      return {
+        ...result,
+        profileId: settings.id,
+        format: settings.format,
+        quality,
+        fileSize: info.exists ? info.size : 0,
+      };
+    };
+
+    const highest = await encode(settings.quality);
+    const minQuality = settings.minQuality ?? settings.quality;
+    if (
+      !settings.maxBytes ||
+      highest.fileSize <= settings.maxBytes ||
+      settings.format === SaveFormat.PNG ||
+      minQuality >= settings.quality
+    ) {
+      return highest;
+    }
+
+    const lowest = await encode(minQuality);
+    if (lowest.fileSize > settings.maxBytes) {
+      return lowest;
+    }
 
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    // Binary search for the highest quality that fits the budget
+    let best = lowest;
+    let low = minQuality;
+    let high = settings.quality;
+    for (let step = 0; step < MAX_QUALITY_SEARCH_STEPS; step++) {
+      const quality = Math.round(((low + high) / 2) * 100) / 100;
+      if (quality <= low || quality >= high) break;
+
+      const attempt = await encode(quality);
+      if (attempt.fileSize <= settings.maxBytes) {
+        best = attempt;
+        low = quality;
+      } else {
+        high = quality;
+      }
+    }
 
-    return processedUri;
+    return best;
   }
 
-  getEditingSummary(options: EditingOptions): string {
+  getEditingSummary(options: EditingOptions, result?: EditingResult): string {
     const changes = [];
 
+    if (result?.autoEnhancement) {
+      const { blackPoint, whitePoint, gains, whiteBalance } = result.autoEnhancement;
+      if (isNoticeableAutoEnhance(result.autoEnhancement)) {
+        changes.push(`auto levels (black ${blackPoint}, white ${whitePoint})`);
+        changes.push(
+          `${whiteBalance} white balance (R×${gains[0].toFixed(2)} G×${gains[1].toFixed(2)} B×${gains[2].toFixed(2)})`
+        );
+      } else {
+        changes.push('auto enhance (no correction needed)');
+      }
+    } else if (options.autoEnhance) {
+      changes.push('auto enhanced');
+    }
+
     if (options.brightness && Math.abs(options.brightness) > 5) {
       changes.push(options.brightness > 0 ? 'brightened' : 'darkened');
     }
@@ -259,9 +640,31 @@ export class EditingEngine {
     if (options.saturation && Math.abs(options.saturation) > 5) {
       changes.push('enhanced colors');
     }
+    if (hasToneCurves(options.curves)) {
+      changes.push('tone curve');
+    }
+    if (hasHslAdjustments(options.hsl)) {
+      const bands = Object.keys(options.hsl!).filter((band) => {
+        const adjustment = options.hsl![band as keyof HslAdjustments];
+        return !!(adjustment && (adjustment.hue || adjustment.saturation || adjustment.luminance));
+      });
+      changes.push(`tuned ${bands.join('/')}`);
+    }
+    if (hasSplitToning(options.splitToning)) {
+      changes.push('split toned');
+    }
+    if (options.fade) {
+      changes.push('faded blacks');
+    }
+    if (hasVignette(options.vignette)) {
+      changes.push(options.vignette!.amount < 0 ? 'vignette' : 'white vignette');
+    }
     if (options.sharpness && Math.abs(options.sharpness) > 5) {
       changes.push('sharpened');
     }
+    if (hasGrain(options.grain)) {
+      changes.push('film grain');
+    }
     if (options.reduceNoise) {
       changes.push('noise reduced');
     }
@@ -274,9 +677,22 @@ export class EditingEngine {
     if (options.rotate) {
       changes.push('rotated');
     }
+    const straightenAngle = result?.straightenAngle ?? options.straighten;
+    if (straightenAngle) {
+      changes.push(`straightened ${Math.abs(straightenAngle).toFixed(1)}°`);
+    } else if (options.autoStraighten) {
+      changes.push('auto straighten (already level)');
+    }
+    if (hasKeystone(options.keystone)) {
+      changes.push('keystone corrected');
+    }
     if (options.flip) {
       changes.push('flipped');
     }
+    if (options.lut) {
+      const preset = this.lutPresets.get(options.lut.presetId);
+      changes.push(`graded with ${preset ? preset.name : 'LUT'}`);
+    }
 
     if (changes.length === 0) {
       return 'No changes applied';
@@ -304,12 +720,19 @@ export class EditingEngine {
       contrast: 12,
       saturation: -5, // Lower saturation for skin tones
       sharpness: 20,
+      hsl: {
+        oranges: { saturation: -10, luminance: 10 }, // Softer, brighter skin
+      },
     },
     LANDSCAPE: {
       brightness: 5,
       contrast: 25,
       saturation: 30,
       sharpness: 15,
+      hsl: {
+        greens: { saturation: 10 },
+        blues: { saturation: 15, luminance: -10 }, // Deeper skies
+      },
     },
     BLACK_AND_WHITE: {
       brightness: 0,
@@ -322,14 +745,59 @@ export class EditingEngine {
       contrast: 15,
       saturation: -20,
       sharpness: 5,
+      splitToning: {
+        shadowHue: 200, // Cool teal shadows
+        shadowSaturation: 25,
+        highlightHue: 40, // Warm cream highlights
+        highlightSaturation: 35,
+      },
+      fade: 30,
+      vignette: { amount: -35, midpoint: 45, feather: 60 },
+      grain: { amount: 30, size: 35, seed: 1977 },
     },
-  } as const;
+  } as const satisfies Record<string, EditingOptions>;
+
+  /**
+   * Preset options with the user's enhancement_strength, which replaces any
+   * strength saved in the preset, so built-in and user presets scale alike.
+   */
+  static withEnhancementStrength(options: EditingOptions, enhancementStrength?: number): EditingOptions {
+    return enhancementStrength === undefined ? options : { ...options, enhancementStrength };
+  }
 
   async applyPreset(
     imageUri: string,
-    preset: keyof typeof EditingEngine.PRESETS
+    preset: PresetSource,
+    intensity: number = 1,
+    enhancementStrength?: number
+  ): Promise<EditingResult> {
+    if (typeof preset === 'string') {
+      return await this.applyEdits(
+        imageUri,
+        EditingEngine.withEnhancementStrength(EditingEngine.PRESETS[preset], enhancementStrength)
+      );
+    }
+
+    if ('options' in preset) {
+      return await this.applyEdits(
+        imageUri,
+        EditingEngine.withEnhancementStrength(preset.options, enhancementStrength)
+      );
+    }
+
+    this.registerLutPresets([preset]);
+    return await this.applyEdits(imageUri, {
+      lut: { presetId: preset.id, intensity },
+    });
+  }
+
+  async previewPreset(
+    imageUri: string,
+    preset: PresetSource,
+    intensity: number = 1,
+    size: number = 160
   ): Promise<EditingResult> {
-    const options = EditingEngine.PRESETS[preset];
-    return await this.applyEdits(imageUri, options);
+    const thumbnail = await this.createThumbnail(imageUri, size);
+    return await this.applyPreset(thumbnail.uri, preset, intensity);
   }
 }
\ No newline at end of file
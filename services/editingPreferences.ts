@@ -0,0 +1,51 @@
+/**
+ * Helpers for reading editing-related fields of user_preferences.
+ */
+
+/**
+ * enhancement_strength is stored as a 0-1 multiplier. Values outside that
+ * range are clamped rather than reinterpreted, and unset or non-numeric
+ * values mean full strength.
+ */
+export function normalizeEnhancementStrength(value: number | null | undefined): number {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return 1;
+  }
+
+  return Math.max(0, Math.min(1, value));
+}
+
+export type AnalysisIntensity = 'light' | 'medium' | 'heavy';
+
+const ANALYSIS_INTENSITIES: AnalysisIntensity[] = ['light', 'medium', 'heavy'];
+
+/**
+ * analysis_intensity uses the same levels as Gemini's editingIntensity.
+ * Returns null when unset or unrecognized, so Gemini's suggestion is kept.
+ */
+export function normalizeAnalysisIntensity(value: string | null | undefined): AnalysisIntensity | null {
+  const normalized = value?.trim().toLowerCase();
+  return ANALYSIS_INTENSITIES.find((intensity) => intensity === normalized) ?? null;
+}
+
+/**
+ * The user_preferences fields that shape analysis recommendations.
+ */
+export interface RecommendationPreferences {
+  editingStyle: string | null;
+  enhancementStrength: number; // 0-1
+  analysisIntensity: AnalysisIntensity | null;
+}
+
+export function resolveRecommendationPreferences(
+  preferences:
+    | { editing_style: string | null; enhancement_strength: number | null; analysis_intensity: string | null }
+    | null
+    | undefined
+): RecommendationPreferences {
+  return {
+    editingStyle: preferences?.editing_style?.trim() || null,
+    enhancementStrength: normalizeEnhancementStrength(preferences?.enhancement_strength),
+    analysisIntensity: normalizeAnalysisIntensity(preferences?.analysis_intensity),
+  };
+}
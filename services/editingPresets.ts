@@ -0,0 +1,274 @@
+import type { Json } from '../lib/database/types';
+import type { EditingPreset as EditingPresetRow } from '../lib/database/queries/editing_presets';
+import { base64ToBytes, bytesToBase64 } from './imaging/codec';
+import { EditingEngine, type EditingOptions } from './editingEngine';
+import type { CurvePoint, ToneCurves } from './imaging/curves';
+import type { GrainSettings, SplitToningSettings, VignetteSettings } from './imaging/effects';
+import { HSL_BANDS, type HslAdjustments, type HslBand } from './imaging/hsl';
+
+/**
+ * Schema version written with every preset. Bump it and add a migration
+ * when an existing option changes meaning; new optional options need neither.
+ */
+export const EDITING_PRESET_VERSION = 1;
+
+export const PRESET_CODE_PREFIX = 'NPRESET1:';
+
+const USER_STYLE_PREFIX = 'preset:';
+
+export interface UserEditingPreset {
+  id: string;
+  name: string;
+  version: number;
+  options: EditingOptions;
+}
+
+type RawOptions = { [key: string]: unknown };
+
+/**
+ * Upgrades from version N to N + 1, keyed by N.
+ */
+const PRESET_MIGRATIONS: Record<number, (options: RawOptions) => RawOptions> = {};
+
+// [min, max] the editor allows for each plain number option
+const NUMBER_OPTIONS = {
+  brightness: [-100, 100],
+  contrast: [-100, 100],
+  saturation: [-100, 100],
+  sharpness: [-100, 100],
+  enhancementStrength: [0, 1],
+  fade: [0, 100],
+} as const;
+const BOOLEAN_OPTIONS = ['reduceNoise', 'autoEnhance'] as const;
+const ENUM_OPTIONS = {
+  noiseReductionMethod: ['bilateral', 'median'],
+  whiteBalanceMethod: ['gray-world', 'white-patch'],
+} as const;
+
+const CURVE_CHANNELS = ['rgb', 'red', 'green', 'blue', 'luma'] as const;
+const MAX_CURVE_POINTS = 16;
+
+function isRecord(value: unknown): value is RawOptions {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function clampedNumber(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : undefined;
+}
+
+/** Copy each listed number field that is present, clamped to its range. */
+function numberFields(source: RawOptions, ranges: Record<string, readonly [number, number]>): RawOptions {
+  const fields: RawOptions = {};
+  Object.entries(ranges).forEach(([key, [min, max]]) => {
+    const value = clampedNumber(source[key], min, max);
+    if (value !== undefined) fields[key] = value;
+  });
+  return fields;
+}
+
+function sanitizeCurves(value: RawOptions): ToneCurves | undefined {
+  const curves: ToneCurves = {};
+  CURVE_CHANNELS.forEach((channel) => {
+    const points = value[channel];
+    if (!Array.isArray(points)) return;
+    const valid = points.filter(
+      (point): point is CurvePoint =>
+        Array.isArray(point) && point.length === 2 && point.every((n) => clampedNumber(n, 0, 255) !== undefined)
+    );
+    if (valid.length > 0 && valid.length <= MAX_CURVE_POINTS) {
+      curves[channel] = valid.map(([x, y]) => [clampedNumber(x, 0, 255)!, clampedNumber(y, 0, 255)!]);
+    }
+  });
+  return Object.keys(curves).length > 0 ? curves : undefined;
+}
+
+function sanitizeHsl(value: RawOptions): HslAdjustments | undefined {
+  const hsl: HslAdjustments = {};
+  (Object.keys(HSL_BANDS) as HslBand[]).forEach((band) => {
+    const adjustment = value[band];
+    if (!isRecord(adjustment)) return;
+    const fields = numberFields(adjustment, { hue: [-100, 100], saturation: [-100, 100], luminance: [-100, 100] });
+    if (Object.keys(fields).length > 0) hsl[band] = fields;
+  });
+  return Object.keys(hsl).length > 0 ? hsl : undefined;
+}
+
+function sanitizeSplitToning(value: RawOptions): SplitToningSettings | undefined {
+  const toning = numberFields(value, {
+    shadowHue: [0, 360],
+    shadowSaturation: [0, 100],
+    highlightHue: [0, 360],
+    highlightSaturation: [0, 100],
+    balance: [-100, 100],
+  });
+  return Object.keys(toning).length > 0 ? toning : undefined;
+}
+
+function sanitizeVignette(value: RawOptions): VignetteSettings | undefined {
+  const amount = clampedNumber(value.amount, -100, 100);
+  if (amount === undefined) return undefined;
+  return { ...numberFields(value, { midpoint: [0, 100], feather: [0, 100] }), amount };
+}
+
+function sanitizeGrain(value: RawOptions): GrainSettings | undefined {
+  const amount = clampedNumber(value.amount, 0, 100);
+  if (amount === undefined) return undefined;
+  const seed = clampedNumber(value.seed, 0, 0xffffffff);
+  return {
+    ...numberFields(value, { size: [0, 100] }),
+    amount,
+    ...(seed !== undefined && { seed: Math.round(seed) }),
+  };
+}
+
+function sanitizeLut(value: RawOptions): EditingOptions['lut'] | undefined {
+  if (typeof value.presetId !== 'string') return undefined;
+  return { presetId: value.presetId, ...numberFields(value, { intensity: [0, 1] }) };
+}
+
+const OBJECT_OPTIONS: { [key: string]: (value: RawOptions) => unknown } = {
+  curves: sanitizeCurves,
+  hsl: sanitizeHsl,
+  splitToning: sanitizeSplitToning,
+  vignette: sanitizeVignette,
+  grain: sanitizeGrain,
+  lut: sanitizeLut,
+};
+
+function migratePresetOptions(version: number, options: RawOptions): RawOptions {
+  let migrated = options;
+  for (let from = version; from < EDITING_PRESET_VERSION; from++) {
+    migrated = PRESET_MIGRATIONS[from]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+/**
+ * Keep only options this version understands, so presets written by newer
+ * clients still load, and clamp every value to the editor's range so an
+ * imported code can't push the pixel pipeline past it. Presets are looks,
+ * not framing: all geometry (crop, resize, rotate, straighten, keystone,
+ * flip) is dropped because it only makes sense for the image it was set on.
+ */
+export function sanitizePresetOptions(raw: unknown): EditingOptions {
+  if (!isRecord(raw)) return {};
+
+  const options: RawOptions = numberFields(raw, NUMBER_OPTIONS);
+  BOOLEAN_OPTIONS.forEach((key) => {
+    if (typeof raw[key] === 'boolean') options[key] = raw[key];
+  });
+  Object.entries(OBJECT_OPTIONS).forEach(([key, sanitize]) => {
+    const value = isRecord(raw[key]) ? sanitize(raw[key]) : undefined;
+    if (value !== undefined) options[key] = value;
+  });
+  (Object.keys(ENUM_OPTIONS) as (keyof typeof ENUM_OPTIONS)[]).forEach((key) => {
+    if ((ENUM_OPTIONS[key] as readonly unknown[]).includes(raw[key])) options[key] = raw[key];
+  });
+
+  return options as EditingOptions;
+}
+
+export function decodeEditingPreset(row: EditingPresetRow): UserEditingPreset {
+  const version = row.schema_version ?? 1;
+  if (version > EDITING_PRESET_VERSION) {
+    console.warn(`Preset "${row.name}" uses schema ${version}, newer than supported ${EDITING_PRESET_VERSION}`);
+  }
+
+  const options =
+    row.options && typeof row.options === 'object' && !Array.isArray(row.options)
+      ? (row.options as RawOptions)
+      : {};
+
+  return {
+    id: row.id,
+    name: row.name,
+    version,
+    options: sanitizePresetOptions(migratePresetOptions(version, options)),
+  };
+}
+
+/**
+ * Collapse recipe steps into one set of options; later steps win.
+ */
+export function mergePresetOptions(operations: EditingOptions[]): EditingOptions {
+  return sanitizePresetOptions(Object.assign({}, ...operations));
+}
+
+export function toPresetOptionsJson(options: EditingOptions): Json {
+  return sanitizePresetOptions(options) as unknown as Json;
+}
+
+// editing_style values
+
+export function userPresetStyle(presetId: string): string {
+  return `${USER_STYLE_PREFIX}${presetId}`;
+}
+
+export function isUserPresetStyle(style: string | null | undefined, presetId: string): boolean {
+  return style === userPresetStyle(presetId);
+}
+
+export function isAnyUserPresetStyle(style: string | null | undefined): boolean {
+  return !!style?.startsWith(USER_STYLE_PREFIX);
+}
+
+/**
+ * Options for a stored editing_style: a built-in preset name or one of the
+ * user's own presets. Returns null for unknown or deleted presets.
+ */
+export function resolveEditingStyle(
+  style: string | null | undefined,
+  userPresets: UserEditingPreset[]
+): EditingOptions | null {
+  if (!style) return null;
+
+  if (style.startsWith(USER_STYLE_PREFIX)) {
+    const id = style.slice(USER_STYLE_PREFIX.length);
+    return userPresets.find((preset) => preset.id === id)?.options ?? null;
+  }
+
+  const builtIn = style.toUpperCase() as keyof typeof EditingEngine.PRESETS;
+  return EditingEngine.PRESETS[builtIn] ?? null;
+}
+
+// Share codes
+
+/**
+ * Self-contained import code. LUT references are left out because they
+ * point at the sender's own imported LUTs.
+ */
+export function encodePresetCode(preset: UserEditingPreset): string {
+  const options = { ...preset.options };
+  delete options.lut;
+  const payload = JSON.stringify({ v: EDITING_PRESET_VERSION, n: preset.name, o: options });
+  return `${PRESET_CODE_PREFIX}${bytesToBase64(new TextEncoder().encode(payload))}`;
+}
+
+export function decodePresetCode(code: string): { name: string; version: number; options: EditingOptions } {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(PRESET_CODE_PREFIX)) {
+    throw new Error('This is not a preset code');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(base64ToBytes(trimmed.slice(PRESET_CODE_PREFIX.length))));
+  } catch {
+    throw new Error('Preset code is damaged or incomplete');
+  }
+
+  if (typeof payload !== 'object' || payload === null || !('n' in payload) || !('o' in payload)) {
+    throw new Error('Preset code is damaged or incomplete');
+  }
+  const { n: name, o: options, v: storedVersion } = payload as { n: unknown; o: unknown; v?: unknown };
+  if (typeof name !== 'string' || !options || typeof options !== 'object' || Array.isArray(options)) {
+    throw new Error('Preset code is damaged or incomplete');
+  }
+
+  const version = typeof storedVersion === 'number' ? storedVersion : 1;
+  return {
+    name,
+    version: EDITING_PRESET_VERSION,
+    options: sanitizePresetOptions(migratePresetOptions(version, options as RawOptions)),
+  };
+}
@@ -0,0 +1,112 @@
+import { SaveFormat } from 'expo-image-manipulator';
+
+/**
+ * The manipulator always writes 8-bit sRGB without an embedded profile,
+ * which is what social and web targets expect. 'grayscale' additionally
+ * drops all color before encoding.
+ */
+export type ColorHandling = 'srgb' | 'grayscale';
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  maxWidth?: number; // images are only ever scaled down to fit
+  maxHeight?: number;
+  format: SaveFormat;
+  quality: number; // 0 to 1, highest quality tried
+  minQuality?: number; // lowest quality accepted before scaling down to meet maxBytes
+  maxBytes?: number;
+  color: ColorHandling;
+}
+
+export const EXPORT_PROFILES = {
+  'instagram-feed': {
+    id: 'instagram-feed',
+    name: 'Instagram Feed',
+    maxWidth: 1080,
+    maxHeight: 1350,
+    format: SaveFormat.JPEG,
+    quality: 0.92,
+    minQuality: 0.6,
+    maxBytes: 1_500_000,
+    color: 'srgb',
+  },
+  'instagram-story': {
+    id: 'instagram-story',
+    name: 'Story',
+    maxWidth: 1080,
+    maxHeight: 1920,
+    format: SaveFormat.JPEG,
+    quality: 0.92,
+    minQuality: 0.6,
+    maxBytes: 1_500_000,
+    color: 'srgb',
+  },
+  web: {
+    id: 'web',
+    name: 'Web',
+    maxWidth: 1200,
+    format: SaveFormat.WEBP,
+    quality: 0.85,
+    minQuality: 0.5,
+    maxBytes: 300_000,
+    color: 'srgb',
+  },
+  print: {
+    id: 'print',
+    name: 'Print',
+    format: SaveFormat.JPEG,
+    quality: 0.95,
+    color: 'srgb',
+  },
+  archive: {
+    id: 'archive',
+    name: 'Archive',
+    format: SaveFormat.PNG,
+    quality: 1,
+    color: 'srgb',
+  },
+} as const satisfies Record<string, ExportProfile>;
+
+export type ExportProfileId = keyof typeof EXPORT_PROFILES;
+
+export const DEFAULT_EXPORT_PROFILE: ExportProfileId = 'print';
+
+export function getExportProfile(profile: ExportProfileId | ExportProfile): ExportProfile {
+  return typeof profile === 'string' ? EXPORT_PROFILES[profile] : profile;
+}
+
+/**
+ * Scale factor (never above 1) that fits the image inside the profile's box.
+ */
+export function fitExportScale(width: number, height: number, profile: ExportProfile): number {
+  const widthScale = profile.maxWidth ? profile.maxWidth / width : 1;
+  const heightScale = profile.maxHeight ? profile.maxHeight / height : 1;
+  return Math.min(1, widthScale, heightScale);
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1_000_000) return `${(bytes / 1_000_000).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1000)} KB`;
+}
+
+export function describeExportProfile(profile: ExportProfile): string {
+  const parts: string[] = [];
+
+  if (profile.maxWidth && profile.maxHeight) {
+    parts.push(`up to ${profile.maxWidth}×${profile.maxHeight}`);
+  } else if (profile.maxWidth) {
+    parts.push(`up to ${profile.maxWidth}px wide`);
+  } else {
+    parts.push('full size');
+  }
+  parts.push(profile.format.toUpperCase());
+  if (profile.maxBytes) {
+    parts.push(`under ${formatFileSize(profile.maxBytes)}`);
+  }
+  if (profile.color === 'grayscale') {
+    parts.push('black & white');
+  }
+
+  return parts.join(' · ');
+}
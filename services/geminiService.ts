@@ -1,4 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { sanitizeSubjectRegions } from './analysisData';
+import type { PaletteSwatch } from './imaging/palette';
+import type { SubjectRegion } from './imaging/smartCrop';
+import type { VisionProvider } from './visionProvider';
 
 export interface ImageAnalysisResult {
   imageType: string;
@@ -10,9 +14,11 @@ export interface ImageAnalysisResult {
     overall: number;
   };
   detectedObjects: string[];
+  subjectRegions?: SubjectRegion[];
   mood: string;
   suggestedImprovements: string[];
   editingIntensity: 'light' | 'medium' | 'heavy';
+  palette?: PaletteSwatch[]; // measured from the pixels, not returned by Gemini
 }
 
 export interface RateLimitConfig {
@@ -21,7 +27,15 @@ export interface RateLimitConfig {
   model: 'gemini-1.5-flash' | 'gemini-1.5-pro';
 }
 
-export class GeminiService {
+// Base64 of the PNG signature; providers only get PNG or JPEG
+const PNG_BASE64_PREFIX = 'iVBORw0KGgo';
+
+function imageMimeType(imageBase64: string): 'image/png' | 'image/jpeg' {
+  return imageBase64.startsWith(PNG_BASE64_PREFIX) ? 'image/png' : 'image/jpeg';
+}
+
+export class GeminiService implements VisionProvider {
+  readonly name = 'gemini' as const;
   private genAI: GoogleGenerativeAI;
   private model: any;
   private rateLimitConfig: RateLimitConfig;
@@ -88,6 +102,7 @@ export class GeminiService {
     "overall": 0.0-1.0
   },
   "detectedObjects": ["object1", "object2", "..."],
+  "subjectRegions": [{ "label": "object1", "x": 0.0-1.0, "y": 0.0-1.0, "width": 0.0-1.0, "height": 0.0-1.0 }],
   "mood": "vibrant|calm|dramatic|soft|energetic|moody|neutral",
   "suggestedImprovements": ["improvement1", "improvement2", "..."],
   "editingIntensity": "light|medium|heavy"
@@ -98,6 +113,7 @@ Guidelines:
 - confidence: How certain you are about the classification
 - technicalQuality: Rate each aspect from 0.0 (poor) to 1.0 (excellent)
 - detectedObjects: List main objects/subjects in the image
+- subjectRegions: Bounding boxes of the main subjects, as fractions of image width/height from the top-left corner
 - mood: Overall emotional tone of the image
 - suggestedImprovements: Specific areas that could be enhanced
 - editingIntensity: Recommended processing level based on current quality
@@ -105,7 +121,7 @@ Guidelines:
 Focus on actionable insights for automated image enhancement.`;
   }
 
-  async analyzeImage(imageBase64: string): Promise<ImageAnalysisResult> {
+  async analyzeImage(imageBase64: string, signal?: AbortSignal): Promise<ImageAnalysisResult> {
     try {
       await this.checkRateLimit();
 
@@ -114,11 +130,11 @@ Focus on actionable insights for automated image enhancement.`;
       const imagePart = {
         inlineData: {
           data: imageBase64,
-          mimeType: 'image/jpeg',
+          mimeType: imageMimeType(imageBase64),
         },
       };
 
-      const result = await this.model.generateContent([prompt, imagePart]);
+      const result = await this.model.generateContent([prompt, imagePart], { signal });
       this.recordRequest();
 
       const response = await result.response;
@@ -139,7 +155,7 @@ Focus on actionable insights for automated image enhancement.`;
       console.error('Gemini analysis failed:', error);
       
       // Return fallback analysis if API fails
-      if (error instanceof Error && error.message.includes('quota')) {
+      if (signal?.aborted || (error instanceof Error && error.message.includes('quota'))) {
         throw error; // Re-throw quota errors
       }
       
@@ -147,6 +163,20 @@ Focus on actionable insights for automated image enhancement.`;
     }
   }
 
+  async captionImage(imageBase64: string): Promise<string> {
+    await this.checkRateLimit();
+
+    const prompt = 'Write a one-sentence caption describing this photo. Return only the caption.';
+    const result = await this.model.generateContent([
+      prompt,
+      { inlineData: { data: imageBase64, mimeType: imageMimeType(imageBase64) } },
+    ]);
+    this.recordRequest();
+
+    const response = await result.response;
+    return response.text().trim();
+  }
+
   private validateAnalysisResult(result: any): ImageAnalysisResult {
     // Provide defaults for missing or invalid fields
     return {
@@ -159,6 +189,7 @@ Focus on actionable insights for automated image enhancement.`;
         overall: Math.max(0, Math.min(1, result.technicalQuality?.overall || 0.7)),
       },
       detectedObjects: Array.isArray(result.detectedObjects) ? result.detectedObjects : [],
+      subjectRegions: sanitizeSubjectRegions(result.subjectRegions),
       mood: result.mood || 'neutral',
       suggestedImprovements: Array.isArray(result.suggestedImprovements) ? result.suggestedImprovements : [],
       editingIntensity: ['light', 'medium', 'heavy'].includes(result.editingIntensity) ? result.editingIntensity : 'medium',
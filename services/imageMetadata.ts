@@ -0,0 +1,116 @@
+import * as FileSystem from 'expo-file-system';
+import { Action, FlipType } from 'expo-image-manipulator';
+import type { UserPreferences } from '../lib/database/queries/user_preferences';
+import { base64ToBytes, bytesToBase64, writeCachedImage } from './imaging/codec';
+import {
+  DEFAULT_METADATA_PRIVACY,
+  ImageMetadata,
+  MetadataPrivacy,
+  ORIENTATION_TRANSFORMS,
+  applyMetadataPrivacy,
+  buildExifSegment,
+  embedExifSegment,
+  readImageMetadata,
+  readJpegSize,
+} from './imaging/exif';
+
+// Metadata segments come before the image data, so the head of the file is enough
+const METADATA_READ_BYTES = 256 * 1024;
+
+/**
+ * Read camera metadata from a local JPEG. Returns null for other formats
+ * or when the file can't be read; missing metadata never blocks an upload.
+ */
+export async function readMetadataFromUri(uri: string): Promise<ImageMetadata | null> {
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists || !info.size) return null;
+
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: 0,
+      length: Math.min(info.size, METADATA_READ_BYTES),
+    });
+    return readImageMetadata(base64ToBytes(base64));
+  } catch (error) {
+    console.warn('Failed to read image metadata:', error);
+    return null;
+  }
+}
+
+/**
+ * Manipulator actions that turn the stored pixels upright. Most decoders
+ * already honor the EXIF orientation, so actions are only returned when the
+ * decoded size proves it was ignored: a 90° orientation whose decoded size
+ * still matches the stored (unrotated) size. Mirrored and 180° orientations
+ * can't be detected this way and are left to the decoder.
+ */
+export function getOrientationActions(
+  metadata: ImageMetadata | null,
+  decoded: { width: number; height: number }
+): Action[] {
+  const orientation = metadata?.orientation ?? 1;
+  if (orientation < 5 || orientation > 8 || !metadata?.width || !metadata.height) return [];
+  if (metadata.width === metadata.height) return [];
+
+  const decoderIgnoredOrientation =
+    decoded.width === metadata.width && decoded.height === metadata.height;
+  if (!decoderIgnoredOrientation) return [];
+
+  const transform = ORIENTATION_TRANSFORMS[orientation];
+  const actions: Action[] = [{ rotate: transform.rotate }];
+  if (transform.flip) {
+    actions.push({ flip: transform.flip === 'horizontal' ? FlipType.Horizontal : FlipType.Vertical });
+  }
+  return actions;
+}
+
+/**
+ * Write metadata into a copy of a JPEG, minus whatever the privacy setting
+ * strips. Returns the new file in the cache directory.
+ */
+export async function embedMetadata(
+  jpegUri: string,
+  metadata: ImageMetadata,
+  privacy: MetadataPrivacy
+): Promise<string> {
+  const base64 = await FileSystem.readAsStringAsync(jpegUri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  const jpeg = base64ToBytes(base64);
+  const segment = buildExifSegment(applyMetadataPrivacy(metadata, privacy), readJpegSize(jpeg) ?? undefined);
+  return await writeCachedImage(bytesToBase64(embedExifSegment(jpeg, segment)));
+}
+
+/**
+ * Privacy setting from user_preferences. Both default to stripping so
+ * nothing identifying leaves the device unless the user opts in.
+ */
+export function resolveMetadataPrivacy(
+  preferences: Pick<UserPreferences, 'strip_gps' | 'strip_serial_numbers'> | null | undefined
+): MetadataPrivacy {
+  return {
+    stripGps: preferences?.strip_gps ?? DEFAULT_METADATA_PRIVACY.stripGps,
+    stripSerialNumbers: preferences?.strip_serial_numbers ?? DEFAULT_METADATA_PRIVACY.stripSerialNumbers,
+  };
+}
+
+/**
+ * Read metadata stored in images.metadata. Returns null when the value is
+ * missing or not an object.
+ */
+export function parseImageMetadata(value: unknown): ImageMetadata | null {
+  if (!value) return null;
+
+  let raw: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value);
+    } catch (error) {
+      console.error('Failed to parse image metadata:', error);
+      return null;
+    }
+  }
+
+  return typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? (raw as ImageMetadata) : null;
+}
@@ -3,11 +3,14 @@ import * as ImageManipulator from 'expo-image-manipulator';
 import { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../lib/database/types';
 import type { ImageInsert } from '../lib/database/queries/images';
+import { ImageMetadata, MetadataPrivacy } from './imaging/exif';
+import { embedMetadata, getOrientationActions, readMetadataFromUri } from './imageMetadata';
 
 export interface ImageUploadResult {
   uri: string;
   publicUrl: string;
   fileName: string;
+  metadata: ImageMetadata | null; // camera metadata read from the source file
 }
 
 export interface ImageCompressionOptions {
@@ -101,7 +104,8 @@ export class ImageService {
    */
   async compressImage(
     uri: string,
-    options: ImageCompressionOptions = {}
+    options: ImageCompressionOptions = {},
+    actions: ImageManipulator.Action[] = []
   ): Promise<string> {
     const {
       quality = 0.8,
@@ -114,6 +118,7 @@ export class ImageService {
       const result = await ImageManipulator.manipulateAsync(
         uri,
         [
+          ...actions,
           {
             resize: {
               width: maxWidth,
@@ -136,22 +141,53 @@ export class ImageService {
   }
 
   /**
-   * Upload image to Supabase Storage
+   * Actions that rotate a photo upright when the decoder ignored its EXIF orientation
+   */
+  private async getUprightActions(
+    uri: string,
+    metadata: ImageMetadata | null
+  ): Promise<ImageManipulator.Action[]> {
+    if (!metadata?.orientation || metadata.orientation < 5) {
+      return [];
+    }
+
+    const decoded = await ImageManipulator.manipulateAsync(uri, []);
+    return getOrientationActions(metadata, decoded);
+  }
+
+  /**
+   * Upload image to Supabase Storage. Compression drops the file's metadata;
+   * pass a privacy setting to write the camera metadata back into the
+   * uploaded JPEG, minus whatever the setting strips.
    */
   async uploadImage(
     uri: string,
     userId: string,
-    fileName?: string
+    fileName?: string,
+    compression: ImageCompressionOptions = {},
+    metadataPrivacy?: MetadataPrivacy
   ): Promise<ImageUploadResult> {
     try {
       console.log('Starting image upload for user:', userId);
+
+      // Read camera metadata before compression discards it
+      const metadata = await readMetadataFromUri(uri);
       
       // Compress image before upload
-      const compressedUri = await this.compressImage(uri);
+      const compressedUri = await this.compressImage(
+        uri,
+        compression,
+        await this.getUprightActions(uri, metadata)
+      );
       console.log('Image compressed successfully');
+
+      const isJpeg = (compression.format ?? ImageManipulator.SaveFormat.JPEG) === ImageManipulator.SaveFormat.JPEG;
+      const uploadUri = metadata && metadataPrivacy && isJpeg
+        ? await embedMetadata(compressedUri, metadata, metadataPrivacy)
+        : compressedUri;
       
       // Read file info to get size
-      const fileInfo = await FileSystem.getInfoAsync(compressedUri);
+      const fileInfo = await FileSystem.getInfoAsync(uploadUri);
       console.log('File info:', fileInfo);
 
       // Generate unique filename
@@ -171,7 +207,7 @@ export class ImageService {
       console.log('Reading file as blob using fetch...');
       let arrayBuffer: ArrayBuffer;
       try {
-        const response = await fetch(compressedUri);
+        const response = await fetch(uploadUri);
         if (!response.ok) {
           throw new Error(`Failed to read file: ${response.status}`);
         }
@@ -207,9 +243,10 @@ export class ImageService {
             .getPublicUrl(filePath);
 
           return {
-            uri: compressedUri,
+            uri: uploadUri,
             publicUrl: publicUrlData.publicUrl,
             fileName: finalFileName,
+            metadata,
           };
         } catch (fallbackError) {
           console.error('Fallback upload also failed:', fallbackError);
@@ -227,9 +264,10 @@ export class ImageService {
       console.log('Generated public URL:', publicUrlData.publicUrl);
 
       return {
-        uri: compressedUri,
+        uri: uploadUri,
         publicUrl: publicUrlData.publicUrl,
         fileName: finalFileName,
+        metadata,
       };
     } catch (error) {
       console.error('Image upload failed:', error);
@@ -377,6 +415,33 @@ export class ImageService {
     }
   }
 
+  /**
+   * Download a remote image to the cache directory so it can be edited locally
+   */
+  async downloadToCache(uri: string): Promise<string> {
+    if (!uri.startsWith('http://') && !uri.startsWith('https://')) {
+      return uri;
+    }
+
+    try {
+      const baseName = `${FileSystem.cacheDirectory}original_${Date.now()}_${Math.round(Math.random() * 1e6)}`;
+      const urlExtension = new URL(uri).pathname.match(/\.([a-z0-9]{2,5})$/i)?.[1];
+      const result = await FileSystem.downloadAsync(uri, urlExtension ? `${baseName}.${urlExtension}` : baseName);
+      if (urlExtension) {
+        return result.uri;
+      }
+
+      // No extension in the URL: name the file after the response's content type
+      const typeExtension = result.mimeType?.match(/^image\/([a-z0-9.+-]+)/i)?.[1].replace('jpeg', 'jpg') ?? 'jpg';
+      const namedUri = `${baseName}.${typeExtension}`;
+      await FileSystem.moveAsync({ from: result.uri, to: namedUri });
+      return namedUri;
+    } catch (error) {
+      console.error('Failed to download image:', error);
+      throw new Error('Failed to download image');
+    }
+  }
+
   /**
    * Get image dimensions
    */
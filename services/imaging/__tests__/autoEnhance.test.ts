@@ -0,0 +1,61 @@
+import { analyzeAutoEnhance, applyAutoEnhance, isNoticeableAutoEnhance } from '../autoEnhance';
+import { createRaster, RasterImage } from '../raster';
+
+// Horizontal ramp from `low` to `high`, each channel scaled by its tint
+function ramp(low: number, high: number, tint: [number, number, number] = [1, 1, 1]): RasterImage {
+  const width = 64;
+  const raster = createRaster(width, 8);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = low + ((high - low) * x) / (width - 1);
+      raster.data.set([value * tint[0], value * tint[1], value * tint[2], 255], (y * width + x) * 4);
+    }
+  }
+  return raster;
+}
+
+function channelMeans(raster: RasterImage): number[] {
+  const sums = [0, 0, 0];
+  for (let i = 0; i < raster.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) sums[c] += raster.data[i + c];
+  }
+  return sums.map((sum) => sum / (raster.data.length / 4));
+}
+
+describe('analyzeAutoEnhance', () => {
+  it('neutralizes a warm cast with gray-world gains', () => {
+    const warm = ramp(40, 200, [1.2, 1, 0.8]);
+    const report = analyzeAutoEnhance(warm);
+
+    expect(report.whiteBalance).toBe('gray-world');
+    expect(report.gains[0]).toBeLessThan(1);
+    expect(report.gains[2]).toBeGreaterThan(1);
+
+    const [red, green, blue] = channelMeans(applyAutoEnhance(warm, report));
+    expect(Math.abs(red - blue)).toBeLessThan(5);
+    expect(Math.abs(red - green)).toBeLessThan(5);
+  });
+
+  it('stretches flat tones, within the black and white point limits', () => {
+    const flat = ramp(90, 160);
+    const report = analyzeAutoEnhance(flat);
+
+    expect(report.blackPoint).toBe(60);
+    expect(report.whitePoint).toBe(190);
+    expect(isNoticeableAutoEnhance(report)).toBe(true);
+
+    const output = applyAutoEnhance(flat, report);
+    expect(output.data[0]).toBeLessThan(flat.data[0]);
+    expect(output.data[63 * 4]).toBeGreaterThan(flat.data[63 * 4]);
+  });
+
+  it('changes nothing at zero strength or on a neutral full-range image', () => {
+    expect(analyzeAutoEnhance(ramp(90, 160, [1.2, 1, 0.8]), { strength: 0 })).toEqual({
+      whiteBalance: 'gray-world',
+      gains: [1, 1, 1],
+      blackPoint: 0,
+      whitePoint: 255,
+    });
+    expect(isNoticeableAutoEnhance(analyzeAutoEnhance(ramp(0, 255)))).toBe(false);
+  });
+});
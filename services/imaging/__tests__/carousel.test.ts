@@ -0,0 +1,60 @@
+import { computeLayoutCells, coverRect, planPanoramaSlides } from '../carousel';
+import type { CropRect } from '../smartCrop';
+
+function overlaps(a: CropRect, b: CropRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+describe('planPanoramaSlides', () => {
+  it('cuts edge-to-edge slides and trims the remainder evenly', () => {
+    const slides = planPanoramaSlides(3300, 1000, '1:1');
+
+    expect(slides).toHaveLength(3);
+    expect(slides[0]).toEqual({ x: 150, y: 0, width: 1000, height: 1000 });
+    slides.slice(1).forEach((slide, i) => expect(slide.x).toBe(slides[i].x + slides[i].width));
+  });
+
+  it('keeps portrait slides inside a short frame and respects the slide limit', () => {
+    const slides = planPanoramaSlides(12000, 1000, '4:5', 4);
+
+    expect(slides).toHaveLength(4);
+    slides.forEach((slide) => {
+      expect(slide.width / slide.height).toBeCloseTo(0.8, 2);
+      expect(slide.y + slide.height).toBeLessThanOrEqual(1000);
+    });
+  });
+});
+
+describe('computeLayoutCells', () => {
+  it('fills a grid whose short last row still spans the canvas', () => {
+    const cells = computeLayoutCells(5, 'grid', 1000, 1000, 10);
+
+    expect(cells).toHaveLength(5);
+    expect(cells[3].x).toBe(10);
+    expect(cells[4].x + cells[4].width).toBe(990);
+    cells.forEach((cell, i) => {
+      expect(cell.x + cell.width).toBeLessThanOrEqual(1000);
+      expect(cell.y + cell.height).toBeLessThanOrEqual(1000);
+      cells.slice(i + 1).forEach((other) => expect(overlaps(cell, other)).toBe(false));
+    });
+  });
+
+  it('gives the feature image the top two thirds', () => {
+    const [feature, ...rest] = computeLayoutCells(3, 'feature', 900, 930, 10);
+
+    expect(feature).toEqual({ x: 10, y: 10, width: 880, height: 600 });
+    expect(rest.map((cell) => cell.y)).toEqual([620, 620]);
+    expect(rest[0].height).toBe(300);
+  });
+
+  it('is empty without images', () => {
+    expect(computeLayoutCells(0, 'strip', 100, 100)).toEqual([]);
+  });
+});
+
+describe('coverRect', () => {
+  it('takes the centered region with the cell aspect ratio', () => {
+    expect(coverRect(4000, 3000, 500, 500)).toEqual({ x: 500, y: 0, width: 3000, height: 3000 });
+    expect(coverRect(3000, 4000, 800, 200)).toEqual({ x: 0, y: 1625, width: 3000, height: 750 });
+  });
+});
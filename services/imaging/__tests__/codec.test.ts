@@ -0,0 +1,30 @@
+import { base64ToBytes, bytesToBase64, decodeRaster, encodeRaster } from '../codec';
+import { createRaster } from '../raster';
+
+describe('base64', () => {
+  it('encodes with padding', () => {
+    const encode = (text: string) => bytesToBase64(Uint8Array.from(text, (char) => char.charCodeAt(0)));
+    expect(encode('')).toBe('');
+    expect(encode('f')).toBe('Zg==');
+    expect(encode('fo')).toBe('Zm8=');
+    expect(encode('foo')).toBe('Zm9v');
+  });
+
+  it('round-trips buffers larger than one conversion chunk', () => {
+    const bytes = new Uint8Array(100003);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = (i * 31) & 255;
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('PNG', () => {
+  it('round-trips an RGBA raster', () => {
+    const raster = createRaster(3, 2);
+    raster.data.set([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 255, 40, 50, 60, 255, 70, 80, 90, 255]);
+
+    const decoded = decodeRaster(encodeRaster(raster));
+    expect(decoded.width).toBe(3);
+    expect(decoded.height).toBe(2);
+    expect(decoded.data).toEqual(raster.data);
+  });
+});
@@ -0,0 +1,69 @@
+import { analyzeComposition } from '../composition';
+import { createRaster, RasterImage } from '../raster';
+
+const SIZE = 60;
+
+function gray(value = 128): RasterImage {
+  const raster = createRaster(SIZE, SIZE);
+  for (let i = 0; i < raster.data.length; i += 4) {
+    raster.data.set([value, value, value, 255], i);
+  }
+  return raster;
+}
+
+describe('analyzeComposition', () => {
+  it('scores a subject on a third-line intersection as well placed', () => {
+    const analysis = analyzeComposition(gray(), [{ x: 0.3, y: 0.3, width: 0.2 / 3, height: 0.2 / 3 }]);
+
+    expect(analysis.subjectSource).toBe('subjects');
+    expect(analysis.scores.ruleOfThirds).toBe(100);
+    expect(analysis.explanations.ruleOfThirds).toContain('third-line intersection');
+  });
+
+  it('flags a centered subject and offers a tighter framing that keeps it', () => {
+    const subject = { x: 0.45, y: 0.1, width: 0.1, height: 0.1 };
+    const analysis = analyzeComposition(gray(), [subject]);
+
+    expect(analysis.scores.ruleOfThirds).toBe(0);
+    expect(analysis.explanations.ruleOfThirds).toContain('centered');
+    expect(analysis.bestFraming).not.toBeNull();
+    expect(analysis.bestFramingScore!).toBeGreaterThanOrEqual(analysis.scores.overall + 8);
+
+    const frame = analysis.bestFraming!;
+    expect(frame.x).toBeGreaterThanOrEqual(0);
+    expect(frame.y).toBeGreaterThanOrEqual(0);
+    expect(frame.x + frame.width).toBeLessThanOrEqual(SIZE);
+    expect(frame.y + frame.height).toBeLessThanOrEqual(SIZE);
+    expect(frame.x).toBeLessThanOrEqual(subject.x * SIZE);
+    expect(frame.x + frame.width).toBeGreaterThanOrEqual((subject.x + subject.width) * SIZE);
+  });
+
+  it('scores headroom by the gap above the subject', () => {
+    const comfortable = analyzeComposition(gray(), [{ x: 0.3, y: 0.1, width: 0.1, height: 0.4 }]);
+    const touching = analyzeComposition(gray(), [{ x: 0.3, y: 0, width: 0.1, height: 0.4 }]);
+
+    expect(comfortable.scores.headroom).toBe(100);
+    expect(touching.scores.headroom).toBe(40);
+    expect(touching.explanations.headroom).toContain('touches the top edge');
+  });
+
+  it('ignores zero-weight subjects and falls back to saliency', () => {
+    const raster = gray(40);
+    for (let y = 15; y < 25; y++) {
+      for (let x = 35; x < 45; x++) {
+        raster.data.set([240, 60, 60, 255], (y * SIZE + x) * 4);
+      }
+    }
+    const analysis = analyzeComposition(raster, [{ x: 0, y: 0, width: 0.5, height: 0.5, weight: 0 }]);
+
+    expect(analysis.subjectSource).toBe('saliency');
+    expect(analysis.explanations.balance).toContain('right');
+  });
+
+  it('gives a level frame full horizon marks', () => {
+    const analysis = analyzeComposition(gray());
+
+    expect(analysis.scores.horizon).toBe(100);
+    expect(analysis.explanations.horizon).toContain('no tilted horizon or verticals detected');
+  });
+});
@@ -0,0 +1,53 @@
+import { applyToneCurves, buildCurveTable, hasToneCurves, isIdentityCurve } from '../curves';
+import { createRaster } from '../raster';
+
+describe('buildCurveTable', () => {
+  it('is the identity without points', () => {
+    const table = buildCurveTable();
+    for (let value = 0; value < 256; value++) {
+      expect(table[value]).toBe(value);
+    }
+  });
+
+  it('passes through every control point', () => {
+    const table = buildCurveTable([[0, 10], [64, 40], [128, 150], [255, 240]]);
+    expect(table[0]).toBe(10);
+    expect(table[64]).toBe(40);
+    expect(table[128]).toBe(150);
+    expect(table[255]).toBe(240);
+  });
+
+  it('never decreases between increasing points', () => {
+    const table = buildCurveTable([[0, 0], [50, 200], [60, 205], [255, 255]]);
+    for (let value = 1; value < 256; value++) {
+      expect(table[value]).toBeGreaterThanOrEqual(table[value - 1]);
+    }
+  });
+
+  it('sorts, clamps and lets the last duplicate input win', () => {
+    const table = buildCurveTable([[255, 300], [128, 50], [0, -20], [128, 100]]);
+    expect(table[0]).toBe(0);
+    expect(table[128]).toBe(100);
+    expect(table[255]).toBe(255);
+  });
+});
+
+describe('isIdentityCurve / hasToneCurves', () => {
+  it('treats diagonal points as identity', () => {
+    expect(isIdentityCurve([[0, 0], [128, 128], [255, 255]])).toBe(true);
+    expect(hasToneCurves({ rgb: [[0, 0], [255, 255]] })).toBe(false);
+    expect(hasToneCurves({ red: [[0, 0], [128, 160], [255, 255]] })).toBe(true);
+  });
+});
+
+describe('applyToneCurves', () => {
+  it('applies per-channel curves without touching the input', () => {
+    const raster = createRaster(1, 1);
+    raster.data.set([128, 128, 128, 255]);
+
+    const output = applyToneCurves(raster, { red: [[0, 0], [128, 200], [255, 255]] });
+
+    expect(Array.from(raster.data)).toEqual([128, 128, 128, 255]);
+    expect(Array.from(output.data)).toEqual([200, 128, 128, 255]);
+  });
+});
@@ -0,0 +1,64 @@
+import { compareRasters, findOverProcessing, labToRgb, measureClipping, rgbToLab } from '../difference';
+import { createRaster, RasterImage } from '../raster';
+
+function flat(width: number, height: number, rgb: [number, number, number]): RasterImage {
+  const raster = createRaster(width, height);
+  for (let i = 0; i < raster.data.length; i += 4) {
+    raster.data.set([...rgb, 255], i);
+  }
+  return raster;
+}
+
+describe('rgbToLab', () => {
+  it('maps white and black to the ends of L* and round-trips', () => {
+    expect(rgbToLab(255, 255, 255)[0]).toBeCloseTo(100, 1);
+    expect(rgbToLab(0, 0, 0)[0]).toBeCloseTo(0, 1);
+    labToRgb(...rgbToLab(51, 102, 153)).forEach((value, c) => expect(value).toBeCloseTo([51, 102, 153][c], 0));
+  });
+});
+
+describe('compareRasters', () => {
+  it('reports no change for identical images', () => {
+    const image = flat(8, 8, [120, 80, 40]);
+    const { stats, heatmaps } = compareRasters(image, flat(8, 8, [120, 80, 40]));
+
+    expect(stats.meanDeltaE).toBe(0);
+    expect(stats.changedPercent).toBe(0);
+    expect(heatmaps.deltaE.data[3]).toBe(0);
+  });
+
+  it('measures a brightened half and marks only that half', () => {
+    const before = flat(8, 8, [100, 100, 100]);
+    const after = flat(8, 8, [100, 100, 100]);
+    for (let y = 0; y < 8; y++) {
+      for (let x = 4; x < 8; x++) after.data.set([160, 160, 160], (y * 8 + x) * 4);
+    }
+
+    const { stats, heatmaps } = compareRasters(before, after);
+
+    expect(stats.changedPercent).toBe(50);
+    expect(stats.meanLumaShift).toBeGreaterThan(0);
+    expect(stats.maxDeltaE).toBeCloseTo(stats.meanDeltaE * 2, 1);
+    expect(heatmaps.luma.data[3]).toBe(0);
+    // Orange where brighter
+    expect(Array.from(heatmaps.luma.data.slice(7 * 4, 7 * 4 + 3))).toEqual([255, 149, 0]);
+    expect(heatmaps.luma.data[7 * 4 + 3]).toBeGreaterThan(0);
+  });
+
+  it('refuses images of different sizes', () => {
+    expect(() => compareRasters(flat(4, 4, [0, 0, 0]), flat(4, 5, [0, 0, 0]))).toThrow('Cannot compare 4x4 with 4x5');
+  });
+});
+
+describe('measureClipping and findOverProcessing', () => {
+  it('flags highlights blown out by an edit', () => {
+    const before = flat(10, 10, [200, 200, 200]);
+    const after = flat(10, 10, [255, 255, 255]);
+
+    expect(measureClipping(after)).toEqual({ shadows: 0, highlights: 100 });
+    expect(findOverProcessing(compareRasters(before, after).stats)).toEqual([
+      'Highlights clipped: 0% → 100% of pixels',
+      expect.stringContaining('Strong overall change'),
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { applyFade, applyGrain, applySplitToning, applyVignette } from '../effects';
+import { createRaster, luminance, RasterImage } from '../raster';
+
+function flat(width: number, height: number, value: number): RasterImage {
+  const raster = createRaster(width, height);
+  for (let i = 0; i < raster.data.length; i += 4) {
+    raster.data.set([value, value, value, 255], i);
+  }
+  return raster;
+}
+
+const pixel = (raster: RasterImage, x: number, y: number) =>
+  Array.from(raster.data.slice((y * raster.width + x) * 4, (y * raster.width + x) * 4 + 3));
+
+describe('applyVignette', () => {
+  it('darkens the corners and leaves the center', () => {
+    const base = flat(40, 30, 200);
+    const output = applyVignette(base, { amount: -60, midpoint: 30, feather: 40 });
+
+    expect(pixel(output, 20, 15)).toEqual([200, 200, 200]);
+    expect(pixel(output, 0, 0)[0]).toBeLessThan(120);
+    expect(pixel(output, 39, 29)).toEqual(pixel(output, 0, 0));
+    expect(pixel(base, 0, 0)).toEqual([200, 200, 200]);
+  });
+
+  it('lightens the corners for a positive amount', () => {
+    expect(pixel(applyVignette(flat(40, 30, 100), { amount: 60 }), 0, 0)[0]).toBeGreaterThan(100);
+  });
+});
+
+describe('applyFade', () => {
+  it('lifts the blacks in place and leaves white alone', () => {
+    const raster = flat(2, 1, 0);
+    raster.data.set([255, 255, 255, 255], 4);
+    applyFade(raster, 50);
+
+    expect(pixel(raster, 0, 0)).toEqual([32, 32, 32]);
+    expect(pixel(raster, 1, 0)).toEqual([255, 255, 255]);
+  });
+});
+
+describe('applySplitToning', () => {
+  it('tints shadows and highlights separately without shifting luminance much', () => {
+    const raster = createRaster(2, 1);
+    raster.data.set([40, 40, 40, 255, 220, 220, 220, 255]);
+    const output = applySplitToning(raster, {
+      shadowHue: 240,
+      shadowSaturation: 100,
+      highlightHue: 30,
+      highlightSaturation: 100,
+    });
+
+    const [shadowR, , shadowB] = pixel(output, 0, 0);
+    const [highlightR, , highlightB] = pixel(output, 1, 0);
+    expect(shadowB).toBeGreaterThan(shadowR);
+    expect(highlightR).toBeGreaterThan(highlightB);
+    expect(Math.abs(luminance(...(pixel(output, 0, 0) as [number, number, number])) - 40)).toBeLessThan(3);
+  });
+});
+
+describe('applyGrain', () => {
+  it('is reproducible for a seed and different for another', () => {
+    const base = flat(32, 32, 128);
+    const first = applyGrain(base, { amount: 50, seed: 7 });
+
+    expect(first.data).toEqual(applyGrain(base, { amount: 50, seed: 7 }).data);
+    expect(first.data).not.toEqual(applyGrain(base, { amount: 50, seed: 8 }).data);
+    expect(first.data).not.toEqual(base.data);
+  });
+
+  it('keeps pure black and white clean', () => {
+    expect(applyGrain(flat(16, 16, 0), { amount: 100, seed: 1 }).data).toEqual(flat(16, 16, 0).data);
+    expect(applyGrain(flat(16, 16, 255), { amount: 100, seed: 1 }).data).toEqual(flat(16, 16, 255).data);
+  });
+});
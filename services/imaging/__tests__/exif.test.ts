@@ -0,0 +1,86 @@
+import {
+  DEFAULT_METADATA_PRIVACY,
+  ImageMetadata,
+  applyMetadataPrivacy,
+  buildExifSegment,
+  embedExifSegment,
+  readImageMetadata,
+  readJpegSize,
+} from '../exif';
+
+// SOI, a baseline frame header for a 640x480 image, then EOI
+function minimalJpeg(): Uint8Array {
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xc0, 0x00, 0x0b, 0x08, 0x01, 0xe0, 0x02, 0x80, 0x01, 0x01, 0x11, 0x00,
+    0xff, 0xd9,
+  ]);
+}
+
+const metadata: ImageMetadata = {
+  make: 'Canon',
+  model: 'EOS R6',
+  lensModel: 'RF 35mm F1.8',
+  software: 'Test',
+  iso: 400,
+  exposureTime: 1 / 250,
+  fNumber: 2.8,
+  focalLength: 35,
+  capturedAt: '2024-06-01T14:30:05+02:00',
+  gps: { latitude: 48.8584, longitude: -2.2945, altitude: 35 },
+  bodySerialNumber: '12345',
+};
+
+describe('EXIF round trip', () => {
+  it('reads back what it wrote', () => {
+    const jpeg = embedExifSegment(minimalJpeg(), buildExifSegment(metadata, { width: 640, height: 480 }));
+    const read = readImageMetadata(jpeg)!;
+
+    expect(read).toMatchObject({
+      make: 'Canon',
+      model: 'EOS R6',
+      lensModel: 'RF 35mm F1.8',
+      iso: 400,
+      fNumber: 2.8,
+      focalLength: 35,
+      capturedAt: '2024-06-01T14:30:05+02:00',
+      orientation: 1,
+      bodySerialNumber: '12345',
+      width: 640,
+      height: 480,
+    });
+    expect(read.exposureTime).toBeCloseTo(1 / 250, 6);
+    expect(read.gps!.latitude).toBeCloseTo(48.8584, 4);
+    expect(read.gps!.longitude).toBeCloseTo(-2.2945, 4);
+    expect(read.gps!.altitude).toBeCloseTo(35, 2);
+  });
+
+  it('drops private fields before writing', () => {
+    const stripped = applyMetadataPrivacy(metadata, DEFAULT_METADATA_PRIVACY);
+    const read = readImageMetadata(embedExifSegment(minimalJpeg(), buildExifSegment(stripped)))!;
+
+    expect(read.gps).toBeUndefined();
+    expect(read.bodySerialNumber).toBeUndefined();
+    expect(read.make).toBe('Canon');
+  });
+
+  it('replaces an existing EXIF block instead of adding a second one', () => {
+    const once = embedExifSegment(minimalJpeg(), buildExifSegment({ make: 'First' }));
+    const twice = embedExifSegment(once, buildExifSegment({ make: 'Second' }));
+
+    expect(readImageMetadata(twice)!.make).toBe('Second');
+    const app1Markers = twice.filter((byte, i) => byte === 0xff && twice[i + 1] === 0xe1);
+    expect(app1Markers).toHaveLength(1);
+  });
+});
+
+describe('readJpegSize', () => {
+  it('reads the frame header', () => {
+    expect(readJpegSize(minimalJpeg())).toEqual({ width: 640, height: 480 });
+  });
+
+  it('ignores files that are not JPEG', () => {
+    expect(readJpegSize(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+    expect(readImageMetadata(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+});
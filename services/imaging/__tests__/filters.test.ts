@@ -0,0 +1,78 @@
+import { bilateralFilter, denoise, medianFilter3x3 } from '../filters';
+import { createRaster, RasterImage } from '../raster';
+
+function randomRaster(width: number, height: number, seed: number): RasterImage {
+  const raster = createRaster(width, height);
+  let state = seed;
+  for (let i = 0; i < raster.data.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    raster.data[i] = i % 4 === 3 ? 255 : state & 255;
+  }
+  return raster;
+}
+
+function flatRaster(width: number, height: number, value: number): RasterImage {
+  const raster = createRaster(width, height);
+  raster.data.fill(value);
+  return raster;
+}
+
+describe('medianFilter3x3', () => {
+  it('matches a sorted 3x3 median for every channel', () => {
+    const raster = randomRaster(9, 7, 42);
+    const output = medianFilter3x3(raster);
+    const { width, height, data } = raster;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < 3; c++) {
+          const window: number[] = [];
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              const sx = Math.min(width - 1, Math.max(0, x + dx));
+              const sy = Math.min(height - 1, Math.max(0, y + dy));
+              window.push(data[(sy * width + sx) * 4 + c]);
+            }
+          }
+          window.sort((a, b) => a - b);
+          expect(output.data[(y * width + x) * 4 + c]).toBe(window[4]);
+        }
+      }
+    }
+  });
+
+  it('removes an isolated hot pixel', () => {
+    const raster = flatRaster(5, 5, 40);
+    raster.data.set([255, 255, 255], (2 * 5 + 2) * 4);
+    expect(Array.from(medianFilter3x3(raster).data.subarray(48, 51))).toEqual([40, 40, 40]);
+  });
+});
+
+describe('bilateralFilter', () => {
+  it('keeps flat areas flat at wide radii', () => {
+    const output = bilateralFilter(flatRaster(20, 20, 90), 3, 32);
+    expect(output.data.every((value) => value === 90)).toBe(true);
+  });
+
+  it('does not blur across a strong edge', () => {
+    const raster = flatRaster(20, 20, 20);
+    for (let y = 0; y < 20; y++) {
+      for (let x = 10; x < 20; x++) {
+        raster.data.fill(230, (y * 20 + x) * 4, (y * 20 + x) * 4 + 3);
+      }
+    }
+
+    const output = bilateralFilter(raster, 3, 16);
+    expect(output.data[(10 * 20 + 9) * 4]).toBeLessThan(30);
+    expect(output.data[(10 * 20 + 10) * 4]).toBeGreaterThan(220);
+  });
+});
+
+describe('denoise', () => {
+  it('returns an unchanged copy at zero strength', () => {
+    const raster = randomRaster(6, 6, 7);
+    const output = denoise(raster, { strength: 0 });
+    expect(output).not.toBe(raster);
+    expect(output.data).toEqual(raster.data);
+  });
+});
@@ -0,0 +1,36 @@
+import { MIN_STRAIGHTEN_ANGLE, detectStraightenAngle } from '../geometry';
+import { createRaster, RasterImage } from '../raster';
+
+// Bright sky over dark ground, with the horizon tilted by `tilt` degrees
+function horizon(tilt: number, width = 160, height = 120): RasterImage {
+  const raster = createRaster(width, height);
+  const slope = Math.tan((tilt * Math.PI) / 180);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = y < height / 2 + slope * (x - width / 2) ? 210 : 50;
+      raster.data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return raster;
+}
+
+describe('detectStraightenAngle', () => {
+  it('reports a level horizon as 0', () => {
+    expect(detectStraightenAngle(horizon(0))).toMatchObject({ angle: 0, family: 'horizon' });
+  });
+
+  it('treats tilts below the minimum as level', () => {
+    expect(detectStraightenAngle(horizon(MIN_STRAIGHTEN_ANGLE / 2))!.angle).toBe(0);
+  });
+
+  it('measures a clearly tilted horizon', () => {
+    const { angle, family } = detectStraightenAngle(horizon(4))!;
+    expect(family).toBe('horizon');
+    expect(Math.abs(angle)).toBeGreaterThan(3);
+    expect(Math.abs(angle)).toBeLessThan(5);
+  });
+
+  it('finds nothing in a flat image', () => {
+    expect(detectStraightenAngle(createRaster(64, 64))).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { applyLut, parseCubeLut, resampleLut } from '../lut';
+import { createRaster } from '../raster';
+
+function cubeText(size: number, map: (r: number, g: number, b: number) => [number, number, number]): string {
+  const lines = ['TITLE "Test"', `LUT_3D_SIZE ${size}`];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        lines.push(map(r / (size - 1), g / (size - 1), b / (size - 1)).join(' '));
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+const identity = (r: number, g: number, b: number): [number, number, number] => [r, g, b];
+const invert = (r: number, g: number, b: number): [number, number, number] => [1 - r, 1 - g, 1 - b];
+
+function pixel(r: number, g: number, b: number) {
+  const raster = createRaster(1, 1);
+  raster.data.set([r, g, b, 255]);
+  return raster;
+}
+
+describe('parseCubeLut', () => {
+  it('reads the title, size and table', () => {
+    const lut = parseCubeLut(cubeText(2, identity));
+    expect(lut.title).toBe('Test');
+    expect(lut.size).toBe(2);
+    expect(lut.table).toHaveLength(2 * 2 * 2 * 3);
+    expect(Array.from(lut.table.slice(-3))).toEqual([1, 1, 1]);
+  });
+
+  it('rejects unsupported sizes', () => {
+    expect(() => parseCubeLut('LUT_3D_SIZE 1')).toThrow('Unsupported LUT_3D_SIZE');
+    expect(() => parseCubeLut('LUT_3D_SIZE 100')).toThrow('Unsupported LUT_3D_SIZE');
+  });
+});
+
+describe('applyLut', () => {
+  it('leaves colors alone through an identity LUT', () => {
+    const output = applyLut(pixel(10, 128, 250), parseCubeLut(cubeText(5, identity)));
+    expect(Array.from(output.data)).toEqual([10, 128, 250, 255]);
+  });
+
+  it('interpolates between lattice points', () => {
+    const output = applyLut(pixel(0, 100, 255), parseCubeLut(cubeText(2, invert)));
+    expect(Array.from(output.data)).toEqual([255, 155, 0, 255]);
+  });
+
+  it('blends by intensity', () => {
+    const lut = parseCubeLut(cubeText(2, invert));
+    expect(Array.from(applyLut(pixel(0, 0, 0), lut, 0).data)).toEqual([0, 0, 0, 255]);
+    expect(Array.from(applyLut(pixel(0, 0, 0), lut, 0.5).data)).toEqual([128, 128, 128, 255]);
+  });
+});
+
+describe('resampleLut', () => {
+  it('keeps a linear LUT linear on a smaller lattice', () => {
+    const resampled = resampleLut(parseCubeLut(cubeText(9, invert)), 3);
+    expect(resampled.size).toBe(3);
+    expect(Array.from(applyLut(pixel(64, 128, 192), resampled).data)).toEqual([191, 127, 63, 255]);
+  });
+});
@@ -0,0 +1,24 @@
+import { classifyColor } from '../palette';
+
+describe('classifyColor', () => {
+  it('names pure primaries and secondaries', () => {
+    expect(classifyColor('#FF0000')).toBe('red');
+    expect(classifyColor('#00FF00')).toBe('green');
+    expect(classifyColor('#0000FF')).toBe('blue');
+    expect(classifyColor('#FFFF00')).toBe('yellow');
+    expect(classifyColor('#800080')).toBe('purple');
+    expect(classifyColor('#FF00FF')).toBe('purple');
+  });
+
+  it('names common blues as blue', () => {
+    expect(classifyColor('#000080')).toBe('blue');
+    expect(classifyColor('#1E90FF')).toBe('blue');
+    expect(classifyColor('#4169E1')).toBe('blue');
+  });
+
+  it('treats low-chroma colors as neutrals', () => {
+    expect(classifyColor('#000000')).toBe('black');
+    expect(classifyColor('#808080')).toBe('gray');
+    expect(classifyColor('#FFFFFF')).toBe('white');
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  clusterNearDuplicates,
+  computePerceptualHash,
+  hammingDistance,
+  isNearDuplicate,
+} from '../phash';
+import { createRaster, RasterImage } from '../raster';
+
+function pattern(size: number, shade: (x: number, y: number) => number): RasterImage {
+  const raster = createRaster(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const value = shade(x, y);
+      raster.data.set([value, value, value, 255], (y * size + x) * 4);
+    }
+  }
+  return raster;
+}
+
+const scene = (x: number, y: number) => 128 + 60 * Math.sin(x / 5) + 50 * Math.cos(y / 7 + x / 11);
+const rings = (x: number, y: number) => (Math.hypot(x - 16, y - 16) % 8 < 4 ? 230 : 30);
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000', '0000')).toBe(0);
+    expect(hammingDistance('000f', '0000')).toBe(4);
+    expect(hammingDistance('ff00', '00ff')).toBe(16);
+  });
+
+  it('is infinite for hashes of different length', () => {
+    expect(hammingDistance('00', '000')).toBe(Infinity);
+  });
+});
+
+describe('computePerceptualHash', () => {
+  it('returns 64-bit hex hashes', () => {
+    const hash = computePerceptualHash(pattern(32, scene));
+    expect(hash.phash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hash.dhash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('matches a brightened copy and not a different image', () => {
+    const original = computePerceptualHash(pattern(32, scene));
+    const brighter = computePerceptualHash(pattern(32, (x, y) => Math.min(255, scene(x, y) * 0.8 + 40)));
+    const different = computePerceptualHash(pattern(32, rings));
+
+    expect(isNearDuplicate(original, brighter)).toBe(true);
+    expect(isNearDuplicate(original, different)).toBe(false);
+  });
+});
+
+describe('clusterNearDuplicates', () => {
+  it('groups transitive matches and skips unhashed items', () => {
+    const items = [
+      { id: 'a', phash: '0000000000000000', dhash: '0000000000000000' },
+      { id: 'b', phash: '00000000000000ff', dhash: '0000000000000000' },
+      { id: 'c', phash: '000000000000ffff', dhash: '0000000000000000' },
+      { id: 'd', phash: 'ffffffffffffffff', dhash: 'ffffffffffffffff' },
+      { id: 'e', phash: null, dhash: null },
+    ];
+
+    expect(clusterNearDuplicates(items).map((cluster) => cluster.map((item) => item.id))).toEqual([
+      ['a', 'b', 'c'],
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { applyPixelOperations, hasPixelOperations } from '../pipeline';
+import { createRaster, luminance, RasterImage } from '../raster';
+
+function gradient(width: number, height: number): RasterImage {
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      raster.data[i] = (x * 255) / (width - 1);
+      raster.data[i + 1] = (y * 255) / (height - 1);
+      raster.data[i + 2] = 128;
+      raster.data[i + 3] = 255;
+    }
+  }
+  return raster;
+}
+
+function meanLuma(raster: RasterImage): number {
+  let sum = 0;
+  for (let i = 0; i < raster.data.length; i += 4) {
+    sum += luminance(raster.data[i], raster.data[i + 1], raster.data[i + 2]);
+  }
+  return sum / (raster.width * raster.height);
+}
+
+function meanSpread(raster: RasterImage): number {
+  let sum = 0;
+  for (let i = 0; i < raster.data.length; i += 4) {
+    const { data } = raster;
+    sum += Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]);
+  }
+  return sum / (raster.width * raster.height);
+}
+
+describe('hasPixelOperations', () => {
+  it('is false for no or zero operations', () => {
+    expect(hasPixelOperations({})).toBe(false);
+    expect(hasPixelOperations({ brightness: 0, curves: { rgb: [[0, 0], [255, 255]] } })).toBe(false);
+  });
+
+  it('is true when any operation changes pixels', () => {
+    expect(hasPixelOperations({ brightness: 10 })).toBe(true);
+    expect(hasPixelOperations({ reduceNoise: true })).toBe(true);
+  });
+});
+
+describe('applyPixelOperations', () => {
+  it('leaves the input untouched and returns a copy', () => {
+    const raster = gradient(16, 16);
+    const before = raster.data.slice();
+
+    const { raster: output } = applyPixelOperations(raster, { brightness: 40, saturation: 30 });
+
+    expect(raster.data).toEqual(before);
+    expect(output).not.toBe(raster);
+    expect(output.data).not.toEqual(before);
+  });
+
+  it('is a no-op without operations', () => {
+    const raster = gradient(8, 8);
+    expect(applyPixelOperations(raster, {}).raster.data).toEqual(raster.data);
+  });
+
+  it('moves brightness in the requested direction', () => {
+    const raster = gradient(16, 16);
+    expect(meanLuma(applyPixelOperations(raster, { brightness: 30 }).raster)).toBeGreaterThan(meanLuma(raster));
+    expect(meanLuma(applyPixelOperations(raster, { brightness: -30 }).raster)).toBeLessThan(meanLuma(raster));
+  });
+
+  it('removes color at -100 saturation', () => {
+    const { raster } = applyPixelOperations(gradient(16, 16), { saturation: -100 });
+    expect(meanSpread(raster)).toBeLessThan(2);
+  });
+
+  it('keeps alpha and size through the detail steps', () => {
+    const raster = gradient(24, 12);
+    const { raster: output } = applyPixelOperations(raster, { sharpness: 60, reduceNoise: true });
+
+    expect(output.width).toBe(24);
+    expect(output.height).toBe(12);
+    for (let i = 3; i < output.data.length; i += 4) {
+      expect(output.data[i]).toBe(255);
+    }
+  });
+
+  it('scales its effect with enhancement strength', () => {
+    const raster = gradient(16, 16);
+    const full = applyPixelOperations(raster, { sharpness: -100, enhancementStrength: 1 }).raster;
+    const none = applyPixelOperations(raster, { sharpness: -100, enhancementStrength: 0 }).raster;
+
+    expect(none.data).toEqual(raster.data);
+    expect(full.data).not.toEqual(raster.data);
+  });
+});
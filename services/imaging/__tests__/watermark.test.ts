@@ -0,0 +1,101 @@
+import { applyWatermark, parseHexColor, renderText } from '../watermark';
+import { createRaster, RasterImage } from '../raster';
+
+function solid(width: number, height: number, rgb: [number, number, number]): RasterImage {
+  const raster = createRaster(width, height);
+  for (let i = 0; i < raster.data.length; i += 4) {
+    raster.data.set([...rgb, 255], i);
+  }
+  return raster;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Bounding box of pixels whose red channel differs from the base
+function changedBox(raster: RasterImage, base: number): Box | null {
+  const box: Box = { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity };
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      if (raster.data[(y * raster.width + x) * 4] === base) continue;
+      box.left = Math.min(box.left, x);
+      box.top = Math.min(box.top, y);
+      box.right = Math.max(box.right, x);
+      box.bottom = Math.max(box.bottom, y);
+    }
+  }
+  return box.right >= 0 ? box : null;
+}
+
+describe('parseHexColor', () => {
+  it('reads short and long hex colors', () => {
+    expect(parseHexColor('#fff')).toEqual([255, 255, 255]);
+    expect(parseHexColor('#336699')).toEqual([0x33, 0x66, 0x99]);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseHexColor('white')).toThrow('Invalid color "white"');
+  });
+});
+
+describe('renderText', () => {
+  it('sizes the text from the glyph height and leaves gaps transparent', () => {
+    const text = renderText('Hi', 16, '#FFFFFF');
+
+    expect(text.height).toBe(16);
+    expect(text.width).toBe(22); // two 6-unit cells less the trailing space, at 2px per unit
+    expect(text.data[3]).toBe(255); // left stem of the H
+    expect(text.data[(7 * text.width + 3) * 4 + 3]).toBe(255); // crossbar
+    expect(text.data[(2 * text.width + 3) * 4 + 3]).toBe(0); // inside the H
+  });
+});
+
+describe('applyWatermark', () => {
+  it('places text in the anchored corner inside the margin without touching the input', () => {
+    const base = solid(200, 100, [0, 0, 0]);
+    const output = applyWatermark(base, { type: 'text', text: 'AB', anchor: 'bottom-right', margin: 0.05 });
+    const box = changedBox(output, 0)!;
+
+    expect(changedBox(base, 0)).toBeNull();
+    expect(box.right).toBeLessThan(190);
+    expect(box.bottom).toBeLessThan(90);
+    expect(box.left).toBeGreaterThan(100);
+    expect(box.top).toBeGreaterThan(50);
+  });
+
+  it('blends a logo at the given opacity', () => {
+    const output = applyWatermark(solid(100, 100, [0, 0, 0]), {
+      type: 'logo',
+      logo: solid(4, 4, [200, 0, 0]),
+      anchor: 'top-left',
+      margin: 0.1,
+      scale: 0.2,
+      opacity: 0.5,
+    });
+
+    expect(Array.from(output.data.slice((15 * 100 + 15) * 4, (15 * 100 + 15) * 4 + 3))).toEqual([100, 0, 0]);
+    expect(output.data[(5 * 100 + 5) * 4]).toBe(0);
+    expect(output.data[(35 * 100 + 35) * 4]).toBe(0);
+  });
+
+  it('repeats a tiled mark across the whole frame', () => {
+    const output = applyWatermark(solid(120, 120, [0, 0, 0]), {
+      type: 'logo',
+      logo: solid(2, 2, [255, 255, 255]),
+      anchor: 'tiled',
+      scale: 0.1,
+      margin: 0.05,
+      opacity: 1,
+    });
+    const box = changedBox(output, 0)!;
+
+    expect(box.left).toBeLessThan(12);
+    expect(box.top).toBeLessThan(12);
+    expect(box.right).toBeGreaterThan(108);
+    expect(box.bottom).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,44 @@
+import { RasterImage, buildLookupTable, luminance } from './raster';
+
+/**
+ * Brightness is a gamma curve so black and white stay anchored,
+ * contrast is a linear stretch around mid-gray.
+ */
+export function buildToneTable(brightness: number, contrast: number): Uint8ClampedArray {
+  const gamma = Math.pow(2, -brightness / 100);
+  const contrastFactor = 1 + contrast / 100;
+
+  return buildLookupTable((value) => {
+    const brightened = 255 * Math.pow(value / 255, gamma);
+    return (brightened - 128) * contrastFactor + 128;
+  });
+}
+
+export function applyToneTable(raster: RasterImage, table: Uint8ClampedArray): void {
+  const { data } = raster;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]];
+    data[i + 1] = table[data[i + 1]];
+    data[i + 2] = table[data[i + 2]];
+  }
+}
+
+/**
+ * Scale each pixel's distance from its own luminance.
+ * -100 yields an exact grayscale image.
+ */
+export function applySaturation(raster: RasterImage, saturation: number): void {
+  const { data } = raster;
+  const factor = 1 + saturation / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const luma = luminance(r, g, b);
+
+    data[i] = luma + (r - luma) * factor;
+    data[i + 1] = luma + (g - luma) * factor;
+    data[i + 2] = luma + (b - luma) * factor;
+  }
+}
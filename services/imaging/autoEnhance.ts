@@ -0,0 +1,107 @@
+import { computeHistograms, histogramMean, histogramPercentile } from './histogram';
+import { RasterImage, buildLookupTable, clamp, cloneRaster } from './raster';
+
+export type WhiteBalanceMethod = 'gray-world' | 'white-patch';
+
+export interface AutoEnhanceOptions {
+  whiteBalance?: WhiteBalanceMethod;
+  clipPercent?: number; // share of pixels clipped at each end, in percent
+  strength?: number; // 0 to 1
+}
+
+/**
+ * What auto-enhance measured and changed, so it can be shown to the user.
+ */
+export interface AutoEnhanceReport {
+  whiteBalance: WhiteBalanceMethod;
+  gains: [number, number, number];
+  blackPoint: number;
+  whitePoint: number;
+}
+
+const MIN_GAIN = 0.7;
+const MAX_GAIN = 1.4;
+const MAX_BLACK_POINT = 60;
+const MIN_WHITE_POINT = 190;
+
+/**
+ * Measure white balance gains from the per-channel histograms, then
+ * black/white points from the luma histogram of the balanced image.
+ */
+export function analyzeAutoEnhance(
+  raster: RasterImage,
+  options: AutoEnhanceOptions = {}
+): AutoEnhanceReport {
+  const whiteBalance = options.whiteBalance ?? 'gray-world';
+  const clip = clamp(options.clipPercent ?? 0.5, 0, 10) / 100;
+  const strength = clamp(options.strength ?? 1, 0, 1);
+  const histograms = computeHistograms(raster);
+  const channels = [histograms.red, histograms.green, histograms.blue];
+
+  let gains: [number, number, number];
+  if (whiteBalance === 'white-patch') {
+    // Brightest (non-clipped) values of each channel should be neutral white
+    const highlights = channels.map((channel) => Math.max(1, histogramPercentile(channel, 0.99)));
+    const reference = Math.max(...highlights);
+    gains = highlights.map((value) => reference / value) as [number, number, number];
+  } else {
+    // The scene average should be neutral gray
+    const means = channels.map((channel) => Math.max(1, histogramMean(channel)));
+    const gray = (means[0] + means[1] + means[2]) / 3;
+    gains = means.map((mean) => gray / mean) as [number, number, number];
+  }
+  gains = gains.map((gain) => 1 + (clamp(gain, MIN_GAIN, MAX_GAIN) - 1) * strength) as [
+    number,
+    number,
+    number,
+  ];
+
+  const balanced = applyGains(raster, gains);
+  const luma = computeHistograms(balanced).luma;
+  const blackPoint = Math.min(MAX_BLACK_POINT, histogramPercentile(luma, clip)) * strength;
+  const whitePoint = 255 - (255 - Math.max(MIN_WHITE_POINT, histogramPercentile(luma, 1 - clip))) * strength;
+
+  return {
+    whiteBalance,
+    gains,
+    blackPoint: Math.round(blackPoint),
+    whitePoint: Math.round(whitePoint),
+  };
+}
+
+export function applyAutoEnhance(raster: RasterImage, report: AutoEnhanceReport): RasterImage {
+  const output = applyGains(raster, report.gains);
+  const range = Math.max(1, report.whitePoint - report.blackPoint);
+  const levels = buildLookupTable((value) => ((value - report.blackPoint) / range) * 255);
+  const { data } = output;
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = levels[data[i]];
+    data[i + 1] = levels[data[i + 1]];
+    data[i + 2] = levels[data[i + 2]];
+  }
+
+  return output;
+}
+
+function applyGains(raster: RasterImage, gains: [number, number, number]): RasterImage {
+  const output = cloneRaster(raster);
+  const tables = gains.map((gain) => buildLookupTable((value) => value * gain));
+  const { data } = output;
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = tables[0][data[i]];
+    data[i + 1] = tables[1][data[i + 1]];
+    data[i + 2] = tables[2][data[i + 2]];
+  }
+
+  return output;
+}
+
+export function isNoticeableAutoEnhance(report: AutoEnhanceReport): boolean {
+  return (
+    report.blackPoint > 2 ||
+    report.whitePoint < 253 ||
+    report.gains.some((gain) => Math.abs(gain - 1) > 0.02)
+  );
+}
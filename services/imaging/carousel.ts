@@ -0,0 +1,136 @@
+import { RasterImage, createRaster } from './raster';
+import { CropRect } from './smartCrop';
+import { parseHexColor } from './watermark';
+
+export const SLIDE_RATIOS = {
+  '4:5': 4 / 5,
+  '1:1': 1,
+} as const;
+
+export type SlideRatio = keyof typeof SLIDE_RATIOS;
+
+export type CollageLayout = 'grid' | 'feature' | 'strip';
+
+// Instagram's carousel limit
+export const MAX_CAROUSEL_SLIDES = 10;
+
+/**
+ * Cut a wide image into side-by-side slides at the given ratio. Slides share
+ * their edges exactly, so swiping through them reads as one continuous image.
+ * Anything that doesn't fill a whole slide is trimmed evenly from both sides.
+ */
+export function planPanoramaSlides(
+  width: number,
+  height: number,
+  ratio: SlideRatio,
+  maxSlides: number = MAX_CAROUSEL_SLIDES
+): CropRect[] {
+  const aspect = SLIDE_RATIOS[ratio];
+  const count = Math.max(1, Math.min(maxSlides, Math.round(width / (height * aspect))));
+  const slideWidth = Math.floor(Math.min(height * aspect, width / count));
+  const slideHeight = Math.min(height, Math.round(slideWidth / aspect));
+  const left = Math.floor((width - slideWidth * count) / 2);
+  const top = Math.floor((height - slideHeight) / 2);
+
+  return Array.from({ length: count }, (_, i) => ({
+    x: left + i * slideWidth,
+    y: top,
+    width: slideWidth,
+    height: slideHeight,
+  }));
+}
+
+/**
+ * Split a span into `parts` cells separated (and surrounded) by `gutter`.
+ * Edges are rounded once so neighbouring cells never overlap or leave a gap.
+ */
+function splitSpan(start: number, length: number, parts: number, gutter: number): [number, number][] {
+  const cell = (length - gutter * (parts + 1)) / parts;
+  return Array.from({ length: parts }, (_, i) => {
+    const from = Math.round(start + gutter + i * (cell + gutter));
+    const to = Math.round(start + gutter + i * (cell + gutter) + cell);
+    return [from, Math.max(1, to - from)];
+  });
+}
+
+function rowCells(top: number, height: number, width: number, count: number, gutter: number): CropRect[] {
+  return splitSpan(0, width, count, gutter).map(([x, cellWidth]) => ({
+    x,
+    y: top,
+    width: cellWidth,
+    height,
+  }));
+}
+
+/**
+ * Cell rectangles for `count` images on a width x height canvas.
+ * - grid: rows of equal cells; a short last row stretches to stay full width
+ * - feature: the first image fills the top two thirds, the rest share a row
+ * - strip: every image side by side
+ */
+export function computeLayoutCells(
+  count: number,
+  layout: CollageLayout,
+  width: number,
+  height: number,
+  gutter: number = 0
+): CropRect[] {
+  if (count <= 0) return [];
+
+  if (layout === 'strip' || count === 1) {
+    return rowCells(gutter, height - gutter * 2, width, count, gutter);
+  }
+
+  if (layout === 'feature') {
+    const usable = height - gutter * 3;
+    const featureHeight = Math.round((usable * 2) / 3);
+    return [
+      ...rowCells(gutter, featureHeight, width, 1, gutter),
+      ...rowCells(gutter * 2 + featureHeight, usable - featureHeight, width, count - 1, gutter),
+    ];
+  }
+
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  return splitSpan(0, height, rows, gutter).flatMap(([y, rowHeight], row) => {
+    const inRow = Math.min(columns, count - row * columns);
+    return rowCells(y, rowHeight, width, inRow, gutter);
+  });
+}
+
+/**
+ * Centered region of a source image with the same aspect ratio as the
+ * target cell, so the image covers the cell without distortion.
+ */
+export function coverRect(
+  sourceWidth: number,
+  sourceHeight: number,
+  cellWidth: number,
+  cellHeight: number
+): CropRect {
+  const cellAspect = cellWidth / cellHeight;
+  const width = Math.min(sourceWidth, Math.round(sourceHeight * cellAspect));
+  const height = Math.min(sourceHeight, Math.round(width / cellAspect));
+
+  return {
+    x: Math.floor((sourceWidth - width) / 2),
+    y: Math.floor((sourceHeight - height) / 2),
+    width,
+    height,
+  };
+}
+
+export function createFilledRaster(width: number, height: number, color: string): RasterImage {
+  const [r, g, b] = parseHexColor(color);
+  const raster = createRaster(width, height);
+  const { data } = raster;
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = 255;
+  }
+
+  return raster;
+}
@@ -0,0 +1,185 @@
+import * as FileSystem from 'expo-file-system';
+import './latin1TextDecoder';
+import { manipulateAsync, Action, ImageResult, SaveFormat } from 'expo-image-manipulator';
+import { decode as decodePng, encode as encodePng, convertIndexedToRgb } from 'fast-png';
+import { RasterImage } from './raster';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = (() => {
+  const lookup = new Uint8Array(256);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+  return lookup;
+})();
+const BASE64_CODES = Uint16Array.from(BASE64_ALPHABET, (char) => char.charCodeAt(0));
+const PADDING_CODE = '='.charCodeAt(0);
+const STRING_CHUNK_SIZE = 0x2000;
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean.charCodeAt(i)];
+    const b = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+    const c = BASE64_LOOKUP[clean.charCodeAt(i + 2)];
+    const d = BASE64_LOOKUP[clean.charCodeAt(i + 3)];
+
+    bytes[byteIndex++] = (a << 2) | (b >> 4);
+    if (i + 2 < clean.length) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
+    if (i + 3 < clean.length) bytes[byteIndex++] = ((c & 3) << 6) | d;
+  }
+
+  return bytes.subarray(0, byteIndex);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  const codes = new Uint16Array(Math.ceil(bytes.length / 3) * 4);
+  let codeIndex = 0;
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+    codes[codeIndex++] = BASE64_CODES[a >> 2];
+    codes[codeIndex++] = BASE64_CODES[((a & 3) << 4) | (b >> 4)];
+    codes[codeIndex++] = i + 1 < bytes.length ? BASE64_CODES[((b & 15) << 2) | (c >> 6)] : PADDING_CODE;
+    codes[codeIndex++] = i + 2 < bytes.length ? BASE64_CODES[c & 63] : PADDING_CODE;
+  }
+
+  // Convert in chunks: one call per character is slow for large images,
+  // and one call for everything overflows the argument limit
+  const chunks: string[] = [];
+  for (let i = 0; i < codes.length; i += STRING_CHUNK_SIZE) {
+    chunks.push(String.fromCharCode.apply(null, codes.subarray(i, i + STRING_CHUNK_SIZE) as unknown as number[]));
+  }
+  return chunks.join('');
+}
+
+/**
+ * Decode PNG bytes into an 8-bit RGBA raster regardless of the source
+ * bit depth, channel count or palette.
+ */
+export function decodeRaster(pngBytes: Uint8Array): RasterImage {
+  const png = decodePng(pngBytes);
+  const { width, height } = png;
+  const pixelCount = width * height;
+
+  let source = png.data;
+  let channels = png.channels;
+  if (png.palette) {
+    source = convertIndexedToRgb(png);
+    channels = png.palette[0]?.length ?? 3;
+  }
+
+  const shift = png.depth === 16 ? 8 : 0;
+  const data = new Uint8ClampedArray(pixelCount * 4);
+
+  for (let p = 0; p < pixelCount; p++) {
+    const src = p * channels;
+    const dst = p * 4;
+
+    if (channels >= 3) {
+      data[dst] = source[src] >> shift;
+      data[dst + 1] = source[src + 1] >> shift;
+      data[dst + 2] = source[src + 2] >> shift;
+      data[dst + 3] = channels === 4 ? source[src + 3] >> shift : 255;
+    } else {
+      const gray = source[src] >> shift;
+      data[dst] = gray;
+      data[dst + 1] = gray;
+      data[dst + 2] = gray;
+      data[dst + 3] = channels === 2 ? source[src + 1] >> shift : 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+export function encodeRaster(raster: RasterImage): Uint8Array {
+  return encodePng({
+    width: raster.width,
+    height: raster.height,
+    data: raster.data,
+    depth: 8,
+    channels: 4,
+  });
+}
+
+/**
+ * Load an image into memory, optionally running geometric
+ * manipulator actions (crop, resize, rotate, flip) first.
+ */
+export async function loadRaster(uri: string, actions: Action[] = []): Promise<RasterImage> {
+  const result = await manipulateAsync(uri, actions, {
+    format: SaveFormat.PNG,
+    base64: true,
+  });
+
+  if (!result.base64) {
+    throw new Error('Image manipulator returned no pixel data');
+  }
+
+  return decodeRaster(base64ToBytes(result.base64));
+}
+
+export interface RasterPreview {
+  raster: RasterImage;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/**
+ * Load a downscaled copy for analysis, along with the source dimensions
+ * so results can be mapped back to full resolution.
+ */
+export async function loadRasterPreview(uri: string, maxEdge: number = 256): Promise<RasterPreview> {
+  const source = await manipulateAsync(uri, []);
+  const scale = Math.min(1, maxEdge / Math.max(source.width, source.height));
+  const raster = await loadRaster(uri, [
+    { resize: { width: Math.max(1, Math.round(source.width * scale)) } },
+  ]);
+
+  return { raster, sourceWidth: source.width, sourceHeight: source.height };
+}
+
+/**
+ * Write an already-encoded image (JPEG, PNG, ...) held as base64 to the
+ * cache directory so the manipulator can read it. The caller owns the file.
+ */
+export async function writeCachedImage(base64: string): Promise<string> {
+  const extension = base64.startsWith('iVBOR') ? 'png' : 'jpg';
+  const uri = `${FileSystem.cacheDirectory}encoded_${Date.now()}_${Math.round(Math.random() * 1e6)}.${extension}`;
+  await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  return uri;
+}
+
+export interface SaveRasterOptions {
+  compress?: number;
+  format?: SaveFormat;
+  base64?: boolean;
+}
+
+/**
+ * Write a raster to the cache directory and re-encode it in the requested format.
+ */
+export async function saveRaster(
+  raster: RasterImage,
+  options: SaveRasterOptions = {}
+): Promise<ImageResult> {
+  const { compress = 0.9, format = SaveFormat.JPEG, base64 = false } = options;
+  const tempUri = `${FileSystem.cacheDirectory}raster_${Date.now()}_${Math.round(Math.random() * 1e6)}.png`;
+
+  await FileSystem.writeAsStringAsync(tempUri, bytesToBase64(encodeRaster(raster)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  try {
+    return await manipulateAsync(tempUri, [], { compress, format, base64 });
+  } finally {
+    await FileSystem.deleteAsync(tempUri, { idempotent: true });
+  }
+}
@@ -0,0 +1,310 @@
+import { MIN_STRAIGHTEN_ANGLE, detectStraightenAngle } from './geometry';
+import { RasterImage, clamp } from './raster';
+import { CropRect, SubjectRegion, computeEnergyMap } from './smartCrop';
+
+export type CompositionAspect = 'ruleOfThirds' | 'balance' | 'headroom' | 'horizon';
+
+export interface CompositionScores {
+  ruleOfThirds: number; // 0-100, subject on a third line or power point
+  balance: number; // 0-100, visual weight centered in the frame
+  headroom: number; // 0-100, space between the subject and the top edge
+  horizon: number; // 0-100, level horizon or verticals
+  overall: number; // 0-100, weighted mean of the above
+}
+
+export interface CompositionAnalysis {
+  scores: CompositionScores;
+  explanations: Record<CompositionAspect, string>;
+  subjectSource: 'subjects' | 'saliency';
+  bestFraming: CropRect | null; // in the analyzed raster's pixels; null when the frame is already best
+  bestFramingScore: number | null;
+}
+
+const ASPECT_WEIGHTS: Record<CompositionAspect, number> = {
+  ruleOfThirds: 0.3,
+  balance: 0.25,
+  headroom: 0.2,
+  horizon: 0.25,
+};
+
+// Share of the highest-energy pixels treated as the salient region
+const SALIENT_FRACTION = 0.1;
+// Distance (in frame fractions) from a third line at which alignment scores 0
+const THIRDS_TOLERANCE = 1 / 6;
+// Centroid offset at which balance scores 0
+const BALANCE_TOLERANCE = 0.2;
+// Ideal gap above the subject, as a fraction of frame height
+const MIN_HEADROOM = 0.03;
+const MAX_HEADROOM = 0.15;
+// Tilt at which the horizon scores 0
+const HORIZON_TOLERANCE = 5;
+// Framing search
+const FRAMING_SCALES = [0.9, 0.8, 0.7];
+const FRAMING_STEPS = 6;
+const MIN_SUBJECT_KEPT = 0.9;
+const MIN_FRAMING_GAIN = 8;
+
+interface SceneModel {
+  width: number;
+  height: number;
+  point: { x: number; y: number }; // subject center, pixels
+  box: CropRect; // subject extent, pixels
+  integrals: { energy: Float64Array; energyX: Float64Array; energyY: Float64Array };
+  horizonScore: number;
+  tilt: number | null;
+}
+
+function buildIntegral(values: Float32Array, width: number, height: number): Float64Array {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += values[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+  return integral;
+}
+
+function windowSum(integral: Float64Array, width: number, rect: CropRect): number {
+  const stride = width + 1;
+  const x0 = Math.round(rect.x);
+  const y0 = Math.round(rect.y);
+  const x1 = Math.round(rect.x + rect.width);
+  const y1 = Math.round(rect.y + rect.height);
+  return integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  return sorted[clamp(Math.floor(sorted.length * fraction), 0, sorted.length - 1)];
+}
+
+/**
+ * Subject center and extent from the highest-energy pixels, trimming the
+ * outer 5% on each side so stray edges don't stretch the box.
+ */
+function findSalientRegion(energy: Float32Array, width: number, height: number) {
+  const threshold = percentile(Array.from(energy).sort((a, b) => a - b), 1 - SALIENT_FRACTION);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let sum = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = energy[y * width + x];
+      if (value < threshold) continue;
+      xs.push(x);
+      ys.push(y);
+      sum += value;
+      sumX += value * x;
+      sumY += value * y;
+    }
+  }
+
+  if (sum === 0) {
+    return { point: { x: width / 2, y: height / 2 }, box: { x: 0, y: 0, width, height } };
+  }
+
+  xs.sort((a, b) => a - b);
+  ys.sort((a, b) => a - b);
+  const left = percentile(xs, 0.05);
+  const top = percentile(ys, 0.05);
+  return {
+    point: { x: sumX / sum, y: sumY / sum },
+    box: { x: left, y: top, width: percentile(xs, 0.95) - left + 1, height: percentile(ys, 0.95) - top + 1 },
+  };
+}
+
+function subjectRegion(subjects: SubjectRegion[], width: number, height: number) {
+  const weighted = subjects.filter((subject) => (subject.weight ?? 1) > 0);
+  if (weighted.length === 0) return null;
+
+  let total = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let left = 1;
+  let top = 1;
+  let right = 0;
+  let bottom = 0;
+  for (const subject of weighted) {
+    const weight = subject.weight ?? 1;
+    total += weight;
+    sumX += weight * (subject.x + subject.width / 2);
+    sumY += weight * (subject.y + subject.height / 2);
+    left = Math.min(left, subject.x);
+    top = Math.min(top, subject.y);
+    right = Math.max(right, subject.x + subject.width);
+    bottom = Math.max(bottom, subject.y + subject.height);
+  }
+
+  return {
+    point: { x: (sumX / total) * width, y: (sumY / total) * height },
+    box: {
+      x: clamp(left, 0, 1) * width,
+      y: clamp(top, 0, 1) * height,
+      width: (clamp(right, 0, 1) - clamp(left, 0, 1)) * width,
+      height: (clamp(bottom, 0, 1) - clamp(top, 0, 1)) * height,
+    },
+  };
+}
+
+function thirdsAlignment(position: number): number {
+  const distance = Math.min(Math.abs(position - 1 / 3), Math.abs(position - 2 / 3));
+  return 1 - Math.min(1, distance / THIRDS_TOLERANCE);
+}
+
+function overlapShare(box: CropRect, frame: CropRect): number {
+  const area = box.width * box.height;
+  if (area <= 0) return 1;
+  const overlapWidth = Math.min(box.x + box.width, frame.x + frame.width) - Math.max(box.x, frame.x);
+  const overlapHeight = Math.min(box.y + box.height, frame.y + frame.height) - Math.max(box.y, frame.y);
+  return (Math.max(0, overlapWidth) * Math.max(0, overlapHeight)) / area;
+}
+
+function scoreHeadroom(gap: number): number {
+  if (gap < 0) return 0; // the subject is cut off at the top
+  if (gap < MIN_HEADROOM) return 40 + 60 * (gap / MIN_HEADROOM);
+  if (gap <= MAX_HEADROOM) return 100;
+  return 100 * (1 - Math.min(1, (gap - MAX_HEADROOM) / (0.5 - MAX_HEADROOM)));
+}
+
+function scoreFrame(scene: SceneModel, frame: CropRect): CompositionScores {
+  const { integrals, point, box, width } = scene;
+
+  const ruleOfThirds =
+    50 * thirdsAlignment((point.x - frame.x) / frame.width) +
+    50 * thirdsAlignment((point.y - frame.y) / frame.height);
+
+  const energy = windowSum(integrals.energy, width, frame) || 1;
+  const centroidX = (windowSum(integrals.energyX, width, frame) / energy - frame.x) / frame.width;
+  const centroidY = (windowSum(integrals.energyY, width, frame) / energy - frame.y) / frame.height;
+  // Left-right balance matters more than top-bottom
+  const offset = Math.sqrt((centroidX - 0.5) ** 2 + (0.5 * (centroidY - 0.5)) ** 2);
+  const balance = 100 * (1 - Math.min(1, offset / BALANCE_TOLERANCE));
+
+  const headroom = scoreHeadroom((box.y - frame.y) / frame.height);
+
+  const scores = { ruleOfThirds, balance, headroom, horizon: scene.horizonScore };
+  const overall = (Object.keys(ASPECT_WEIGHTS) as CompositionAspect[]).reduce(
+    (sum, aspect) => sum + ASPECT_WEIGHTS[aspect] * scores[aspect],
+    0
+  );
+
+  const round = (value: number) => Math.round(value);
+  return {
+    ruleOfThirds: round(ruleOfThirds),
+    balance: round(balance),
+    headroom: round(headroom),
+    horizon: round(scene.horizonScore),
+    overall: round(overall),
+  };
+}
+
+function explain(scene: SceneModel, scores: CompositionScores): Record<CompositionAspect, string> {
+  const x = scene.point.x / scene.width;
+  const gap = scene.box.y / scene.height;
+  const side = x < 0.5 ? 'left' : 'right';
+
+  return {
+    ruleOfThirds:
+      scores.ruleOfThirds >= 75
+        ? `Rule of thirds ${scores.ruleOfThirds}/100: the subject sits close to a third-line intersection.`
+        : Math.abs(x - 0.5) < 0.08
+          ? `Rule of thirds ${scores.ruleOfThirds}/100: the subject is centered; moving it onto a third line adds tension.`
+          : `Rule of thirds ${scores.ruleOfThirds}/100: the subject is between the center and a third line; commit to one.`,
+    balance:
+      scores.balance >= 75
+        ? `Balance ${scores.balance}/100: visual weight is spread evenly across the frame.`
+        : `Balance ${scores.balance}/100: the frame is weighted to the ${side}; give the other side something to balance it.`,
+    headroom:
+      gap < MIN_HEADROOM
+        ? `Headroom ${scores.headroom}/100: the subject touches the top edge; leave a little space above it.`
+        : gap > MAX_HEADROOM
+          ? `Headroom ${scores.headroom}/100: there is a lot of empty space above the subject; crop some from the top.`
+          : `Headroom ${scores.headroom}/100: the space above the subject is comfortable.`,
+    horizon:
+      scene.tilt === null
+        ? `Horizon ${scores.horizon}/100: no tilted horizon or verticals detected.`
+        : `Horizon ${scores.horizon}/100: lines are tilted ${Math.abs(scene.tilt).toFixed(1)}°; straighten to level them.`,
+  };
+}
+
+/**
+ * Search same-aspect windows for the framing that scores best while
+ * keeping the subject in the frame.
+ */
+function findBestFraming(scene: SceneModel, current: number): { frame: CropRect; score: number } | null {
+  let best: { frame: CropRect; score: number } | null = null;
+
+  for (const scale of FRAMING_SCALES) {
+    const frameWidth = Math.round(scene.width * scale);
+    const frameHeight = Math.round(scene.height * scale);
+    for (let row = 0; row <= FRAMING_STEPS; row++) {
+      for (let column = 0; column <= FRAMING_STEPS; column++) {
+        const frame = {
+          x: Math.round(((scene.width - frameWidth) * column) / FRAMING_STEPS),
+          y: Math.round(((scene.height - frameHeight) * row) / FRAMING_STEPS),
+          width: frameWidth,
+          height: frameHeight,
+        };
+        if (overlapShare(scene.box, frame) < MIN_SUBJECT_KEPT) continue;
+
+        const score = scoreFrame(scene, frame).overall;
+        if (!best || score > best.score) best = { frame, score };
+      }
+    }
+  }
+
+  return best && best.score - current >= MIN_FRAMING_GAIN ? best : null;
+}
+
+/**
+ * Score rule-of-thirds alignment, balance, headroom and horizon tilt.
+ * The subject comes from the given boxes when there are any, otherwise
+ * from the image's most salient (high edge and color energy) pixels.
+ * Meant for a small preview; bestFraming is in the preview's pixels.
+ */
+export function analyzeComposition(raster: RasterImage, subjects: SubjectRegion[] = []): CompositionAnalysis {
+  const { width, height } = raster;
+  const energy = computeEnergyMap(raster);
+  const energyX = new Float32Array(energy.length);
+  const energyY = new Float32Array(energy.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      energyX[y * width + x] = energy[y * width + x] * x;
+      energyY[y * width + x] = energy[y * width + x] * y;
+    }
+  }
+
+  const fromSubjects = subjectRegion(subjects, width, height);
+  const region = fromSubjects ?? findSalientRegion(energy, width, height);
+  const straighten = detectStraightenAngle(raster);
+  const tilt = straighten && Math.abs(straighten.angle) >= MIN_STRAIGHTEN_ANGLE ? straighten.angle : null;
+
+  const scene: SceneModel = {
+    width,
+    height,
+    ...region,
+    integrals: {
+      energy: buildIntegral(energy, width, height),
+      energyX: buildIntegral(energyX, width, height),
+      energyY: buildIntegral(energyY, width, height),
+    },
+    horizonScore: tilt === null ? 100 : 100 * (1 - Math.min(1, Math.abs(tilt) / HORIZON_TOLERANCE)),
+    tilt,
+  };
+
+  const scores = scoreFrame(scene, { x: 0, y: 0, width, height });
+  const framing = findBestFraming(scene, scores.overall);
+
+  return {
+    scores,
+    explanations: explain(scene, scores),
+    subjectSource: fromSubjects ? 'subjects' : 'saliency',
+    bestFraming: framing?.frame ?? null,
+    bestFramingScore: framing?.score ?? null,
+  };
+}
@@ -0,0 +1,141 @@
+import { RasterImage, buildLookupTable, clamp, cloneRaster, luminance } from './raster';
+
+/** Control point as [input, output], both 0-255. */
+export type CurvePoint = [number, number];
+
+export interface ToneCurves {
+  rgb?: CurvePoint[];
+  red?: CurvePoint[];
+  green?: CurvePoint[];
+  blue?: CurvePoint[];
+  luma?: CurvePoint[];
+}
+
+export function isIdentityCurve(points?: CurvePoint[]): boolean {
+  return !points || points.length === 0 || points.every(([x, y]) => x === y);
+}
+
+export function hasToneCurves(curves?: ToneCurves): boolean {
+  if (!curves) return false;
+  return !(
+    isIdentityCurve(curves.rgb) &&
+    isIdentityCurve(curves.red) &&
+    isIdentityCurve(curves.green) &&
+    isIdentityCurve(curves.blue) &&
+    isIdentityCurve(curves.luma)
+  );
+}
+
+/**
+ * Evaluate control points as a monotone cubic spline (Fritsch-Carlson),
+ * so the curve never overshoots between points and stays order-preserving.
+ */
+export function buildCurveTable(points?: CurvePoint[]): Uint8ClampedArray {
+  if (isIdentityCurve(points)) {
+    return buildLookupTable((value) => value);
+  }
+
+  // Sort, clamp and drop duplicate inputs (last one wins)
+  const sorted = [...points!]
+    .map(([x, y]) => [clamp(x, 0, 255), clamp(y, 0, 255)] as CurvePoint)
+    .sort((a, b) => a[0] - b[0]);
+  const unique: CurvePoint[] = [];
+  for (const point of sorted) {
+    if (unique.length > 0 && unique[unique.length - 1][0] === point[0]) {
+      unique[unique.length - 1] = point;
+    } else {
+      unique.push(point);
+    }
+  }
+
+  if (unique.length === 1) {
+    return buildLookupTable(() => unique[0][1]);
+  }
+
+  const n = unique.length;
+  const xs = unique.map((point) => point[0]);
+  const ys = unique.map((point) => point[1]);
+  const secants: number[] = [];
+  for (let k = 0; k < n - 1; k++) {
+    secants.push((ys[k + 1] - ys[k]) / (xs[k + 1] - xs[k]));
+  }
+
+  const tangents = new Array<number>(n);
+  tangents[0] = secants[0];
+  tangents[n - 1] = secants[n - 2];
+  for (let k = 1; k < n - 1; k++) {
+    tangents[k] = secants[k - 1] * secants[k] <= 0 ? 0 : (secants[k - 1] + secants[k]) / 2;
+  }
+
+  for (let k = 0; k < n - 1; k++) {
+    if (secants[k] === 0) {
+      tangents[k] = 0;
+      tangents[k + 1] = 0;
+      continue;
+    }
+    const a = tangents[k] / secants[k];
+    const b = tangents[k + 1] / secants[k];
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const t = 3 / Math.sqrt(magnitude);
+      tangents[k] = t * a * secants[k];
+      tangents[k + 1] = t * b * secants[k];
+    }
+  }
+
+  return buildLookupTable((value) => {
+    // Flat extension outside the first and last control points
+    if (value <= xs[0]) return ys[0];
+    if (value >= xs[n - 1]) return ys[n - 1];
+
+    let k = 0;
+    while (value > xs[k + 1]) k++;
+
+    const h = xs[k + 1] - xs[k];
+    const t = (value - xs[k]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+
+    return (
+      (2 * t3 - 3 * t2 + 1) * ys[k] +
+      (t3 - 2 * t2 + t) * h * tangents[k] +
+      (-2 * t3 + 3 * t2) * ys[k + 1] +
+      (t3 - t2) * h * tangents[k + 1]
+    );
+  });
+}
+
+/**
+ * Apply the master RGB curve, then the per-channel curves, then the luma curve.
+ * The luma curve shifts all channels by the same amount to keep hue stable.
+ */
+export function applyToneCurves(raster: RasterImage, curves: ToneCurves): RasterImage {
+  const output = cloneRaster(raster);
+  const master = buildCurveTable(curves.rgb);
+  const channelTables = [curves.red, curves.green, curves.blue].map((points) => {
+    const channel = buildCurveTable(points);
+    return buildLookupTable((value) => channel[master[value]]);
+  });
+  const lumaTable = isIdentityCurve(curves.luma) ? null : buildCurveTable(curves.luma);
+  const { data } = output;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = channelTables[0][data[i]];
+    const g = channelTables[1][data[i + 1]];
+    const b = channelTables[2][data[i + 2]];
+
+    if (lumaTable) {
+      const luma = luminance(r, g, b);
+      const delta = lumaTable[Math.round(luma)] - luma;
+      data[i] = r + delta;
+      data[i + 1] = g + delta;
+      data[i + 2] = b + delta;
+    } else {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,249 @@
+import { RasterImage, clamp, createRaster } from './raster';
+
+export type DifferenceMode = 'deltaE' | 'luma' | 'color';
+
+export interface ClippingStats {
+  shadows: number; // percent of pixels crushed to black
+  highlights: number; // percent of pixels with a blown-out channel
+}
+
+export interface DifferenceStats {
+  meanDeltaE: number;
+  p95DeltaE: number;
+  maxDeltaE: number;
+  changedPercent: number; // pixels whose change is visible (ΔE above JND_DELTA_E)
+  meanLumaShift: number; // signed, in L* units
+  clipping: {
+    before: ClippingStats;
+    after: ClippingStats;
+  };
+}
+
+export interface DifferenceResult {
+  stats: DifferenceStats;
+  heatmaps: Record<DifferenceMode, RasterImage>;
+}
+
+export const DIFFERENCE_MODES: DifferenceMode[] = ['deltaE', 'luma', 'color'];
+
+// Just-noticeable difference for CIE76
+export const JND_DELTA_E = 2.3;
+
+const SHADOW_CLIP_LEVEL = 2;
+const HIGHLIGHT_CLIP_LEVEL = 253;
+const HEATMAP_MAX_DELTA_E = 25;
+const HEATMAP_MAX_LUMA_SHIFT = 30;
+const HEATMAP_MAX_ALPHA = 220;
+const DELTA_E_BINS_PER_UNIT = 10;
+const DELTA_E_BIN_LIMIT = 100;
+
+const SRGB_TO_LINEAR = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+/**
+ * sRGB (0-255) to CIELAB under D65.
+ */
+export function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const lr = SRGB_TO_LINEAR[r];
+  const lg = SRGB_TO_LINEAR[g];
+  const lb = SRGB_TO_LINEAR[b];
+
+  const x = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const y = labF(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const z = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+}
+
+/**
+ * CIELAB (D65) back to sRGB, clamped to the displayable range.
+ */
+export function labToRgb(l: number, a: number, b: number): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+
+  const x = inverse(fx) * 0.95047;
+  const y = inverse(fy);
+  const z = inverse(fz) * 1.08883;
+
+  const toSrgb = (c: number) => {
+    const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.round(clamp(v, 0, 1) * 255);
+  };
+
+  return [
+    toSrgb(3.2406 * x - 1.5372 * y - 0.4986 * z),
+    toSrgb(-0.9689 * x + 1.8758 * y + 0.0415 * z),
+    toSrgb(0.0557 * x - 0.204 * y + 1.057 * z),
+  ];
+}
+
+export function measureClipping(raster: RasterImage): ClippingStats {
+  const { data } = raster;
+  const pixels = data.length / 4;
+  let shadows = 0;
+  let highlights = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    if (r <= SHADOW_CLIP_LEVEL && g <= SHADOW_CLIP_LEVEL && b <= SHADOW_CLIP_LEVEL) shadows++;
+    if (r >= HIGHLIGHT_CLIP_LEVEL || g >= HIGHLIGHT_CLIP_LEVEL || b >= HIGHLIGHT_CLIP_LEVEL) highlights++;
+  }
+
+  return {
+    shadows: round2((shadows / pixels) * 100),
+    highlights: round2((highlights / pixels) * 100),
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Sequential ramp for magnitudes: blue, then yellow, then red
+const MAGNITUDE_RAMP: [number, number, number][] = [
+  [0, 122, 255],
+  [255, 204, 0],
+  [255, 59, 48],
+];
+
+function rampColor(t: number, out: Uint8ClampedArray, offset: number) {
+  const position = clamp(t, 0, 1) * (MAGNITUDE_RAMP.length - 1);
+  const index = Math.min(Math.floor(position), MAGNITUDE_RAMP.length - 2);
+  const f = position - index;
+  for (let c = 0; c < 3; c++) {
+    out[offset + c] = MAGNITUDE_RAMP[index][c] + (MAGNITUDE_RAMP[index + 1][c] - MAGNITUDE_RAMP[index][c]) * f;
+  }
+}
+
+/**
+ * Compare two same-sized rasters pixel by pixel. Heatmaps are RGBA with
+ * alpha proportional to the change, so they can be laid over the image:
+ * - deltaE: overall perceptual difference (CIE76), blue to red
+ * - luma: lightness only, orange where brighter and blue where darker
+ * - color: chroma shift, tinted with the direction the color moved
+ */
+export function compareRasters(before: RasterImage, after: RasterImage): DifferenceResult {
+  if (before.width !== after.width || before.height !== after.height) {
+    throw new Error(
+      `Cannot compare ${before.width}x${before.height} with ${after.width}x${after.height}`
+    );
+  }
+
+  const { width, height } = after;
+  const pixels = width * height;
+  const heatmaps: Record<DifferenceMode, RasterImage> = {
+    deltaE: createRaster(width, height),
+    luma: createRaster(width, height),
+    color: createRaster(width, height),
+  };
+  const bins = new Uint32Array(DELTA_E_BIN_LIMIT * DELTA_E_BINS_PER_UNIT + 1);
+  let deltaSum = 0;
+  let deltaMax = 0;
+  let lumaSum = 0;
+  let changed = 0;
+
+  for (let p = 0; p < pixels; p++) {
+    const i = p * 4;
+    const [l1, a1, b1] = rgbToLab(before.data[i], before.data[i + 1], before.data[i + 2]);
+    const [l2, a2, b2] = rgbToLab(after.data[i], after.data[i + 1], after.data[i + 2]);
+    const dl = l2 - l1;
+    const da = a2 - a1;
+    const db = b2 - b1;
+    const chromaShift = Math.sqrt(da * da + db * db);
+    const deltaE = Math.sqrt(dl * dl + chromaShift * chromaShift);
+
+    deltaSum += deltaE;
+    deltaMax = Math.max(deltaMax, deltaE);
+    lumaSum += dl;
+    if (deltaE > JND_DELTA_E) changed++;
+    bins[Math.min(bins.length - 1, Math.round(deltaE * DELTA_E_BINS_PER_UNIT))]++;
+
+    const deltaT = deltaE / HEATMAP_MAX_DELTA_E;
+    rampColor(deltaT, heatmaps.deltaE.data, i);
+    heatmaps.deltaE.data[i + 3] = clamp(deltaT, 0, 1) * HEATMAP_MAX_ALPHA;
+
+    const lumaT = dl / HEATMAP_MAX_LUMA_SHIFT;
+    const lumaData = heatmaps.luma.data;
+    if (dl >= 0) {
+      lumaData[i] = 255;
+      lumaData[i + 1] = 149;
+      lumaData[i + 2] = 0;
+    } else {
+      lumaData[i] = 0;
+      lumaData[i + 1] = 122;
+      lumaData[i + 2] = 255;
+    }
+    lumaData[i + 3] = clamp(Math.abs(lumaT), 0, 1) * HEATMAP_MAX_ALPHA;
+
+    const colorT = chromaShift / HEATMAP_MAX_DELTA_E;
+    if (chromaShift > 0) {
+      const [r, g, b] = labToRgb(65, (da / chromaShift) * 60, (db / chromaShift) * 60);
+      heatmaps.color.data[i] = r;
+      heatmaps.color.data[i + 1] = g;
+      heatmaps.color.data[i + 2] = b;
+    }
+    heatmaps.color.data[i + 3] = clamp(colorT, 0, 1) * HEATMAP_MAX_ALPHA;
+  }
+
+  // 95th percentile from the binned distribution
+  const target = pixels * 0.95;
+  let cumulative = 0;
+  let p95Bin = 0;
+  for (let bin = 0; bin < bins.length; bin++) {
+    cumulative += bins[bin];
+    if (cumulative >= target) {
+      p95Bin = bin;
+      break;
+    }
+  }
+
+  return {
+    stats: {
+      meanDeltaE: round2(deltaSum / pixels),
+      p95DeltaE: round2(p95Bin / DELTA_E_BINS_PER_UNIT),
+      maxDeltaE: round2(deltaMax),
+      changedPercent: round2((changed / pixels) * 100),
+      meanLumaShift: round2(lumaSum / pixels),
+      clipping: {
+        before: measureClipping(before),
+        after: measureClipping(after),
+      },
+    },
+    heatmaps,
+  };
+}
+
+/**
+ * Reviewer-facing warnings for edits that look over-processed.
+ */
+export function findOverProcessing(stats: DifferenceStats): string[] {
+  const warnings: string[] = [];
+  const { before, after } = stats.clipping;
+
+  if (after.highlights - before.highlights > 1) {
+    warnings.push(`Highlights clipped: ${before.highlights}% → ${after.highlights}% of pixels`);
+  }
+  if (after.shadows - before.shadows > 1) {
+    warnings.push(`Shadows crushed: ${before.shadows}% → ${after.shadows}% of pixels`);
+  }
+  if (stats.meanDeltaE > 12) {
+    warnings.push(`Strong overall change (mean ΔE ${stats.meanDeltaE})`);
+  }
+  if (stats.p95DeltaE > 30) {
+    warnings.push(`Some areas changed drastically (95th percentile ΔE ${stats.p95DeltaE})`);
+  }
+
+  return warnings;
+}
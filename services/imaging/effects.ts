@@ -0,0 +1,188 @@
+import { hslToRgb } from './hsl';
+import { RasterImage, buildLookupTable, clamp, cloneRaster, luminance } from './raster';
+
+export interface VignetteSettings {
+  amount: number; // -100 (darken edges) to 100 (lighten edges)
+  midpoint?: number; // 0-100, distance from center where the falloff starts
+  feather?: number; // 0-100, width of the falloff
+}
+
+export interface GrainSettings {
+  amount: number; // 0 to 100
+  size?: number; // 0 to 100, larger values give coarser grain
+  seed?: number; // same seed, same grain
+}
+
+export interface SplitToningSettings {
+  shadowHue?: number; // 0-360
+  shadowSaturation?: number; // 0 to 100
+  highlightHue?: number; // 0-360
+  highlightSaturation?: number; // 0 to 100
+  balance?: number; // -100 (favor shadows) to 100 (favor highlights)
+}
+
+const MAX_FADE_LIFT = 64;
+const MAX_GRAIN_AMPLITUDE = 40;
+const MAX_TONING_STRENGTH = 0.35;
+
+export function hasVignette(vignette?: VignetteSettings): boolean {
+  return !!vignette?.amount;
+}
+
+export function hasGrain(grain?: GrainSettings): boolean {
+  return !!grain && grain.amount > 0;
+}
+
+export function hasSplitToning(toning?: SplitToningSettings): boolean {
+  return !!toning && !!(toning.shadowSaturation || toning.highlightSaturation);
+}
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+  const t = clamp((value - edge0) / Math.max(1e-6, edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Elliptical vignette that follows the frame's aspect ratio. Distance is
+ * normalized so the corners sit at 1.
+ */
+export function applyVignette(raster: RasterImage, settings: VignetteSettings): RasterImage {
+  const output = cloneRaster(raster);
+  const amount = clamp(settings.amount, -100, 100) / 100;
+  if (amount === 0) return output;
+
+  const inner = clamp(settings.midpoint ?? 50, 0, 100) / 100;
+  const feather = Math.max(0.05, clamp(settings.feather ?? 50, 0, 100) / 100);
+  const { width, height, data } = output;
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  for (let y = 0; y < height; y++) {
+    const dy = (y + 0.5 - centerY) / centerY;
+    for (let x = 0; x < width; x++) {
+      const dx = (x + 0.5 - centerX) / centerX;
+      const falloff = smoothstep(inner, inner + feather, Math.sqrt(dx * dx + dy * dy) / Math.SQRT2);
+      if (falloff === 0) continue;
+
+      const index = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const value = data[index + c];
+        data[index + c] =
+          amount < 0 ? value * (1 + amount * falloff) : value + (255 - value) * amount * falloff;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Lift the black point for a matte, faded-print look. Highlights are left alone.
+ */
+export function applyFade(raster: RasterImage, fade: number): void {
+  const lift = (clamp(fade, 0, 100) / 100) * MAX_FADE_LIFT;
+  const table = buildLookupTable((value) => value + lift * (1 - value / 255));
+  const { data } = raster;
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]];
+    data[i + 1] = table[data[i + 1]];
+    data[i + 2] = table[data[i + 2]];
+  }
+}
+
+/**
+ * Tint shadows and highlights with separate hues. The tint is applied as a
+ * luminance-neutral offset so toning doesn't brighten or darken the image.
+ */
+export function applySplitToning(raster: RasterImage, settings: SplitToningSettings): RasterImage {
+  const output = cloneRaster(raster);
+  const pivot = clamp(0.5 - (settings.balance ?? 0) / 200, 0.1, 0.9);
+
+  const toneOffset = (hue: number | undefined, saturation: number | undefined) => {
+    const [r, g, b] = hslToRgb(hue ?? 0, 1, 0.5);
+    const gray = luminance(r, g, b);
+    const scale = (clamp(saturation ?? 0, 0, 100) / 100) * MAX_TONING_STRENGTH;
+    return [(r - gray) * scale, (g - gray) * scale, (b - gray) * scale];
+  };
+  const shadow = toneOffset(settings.shadowHue, settings.shadowSaturation);
+  const highlight = toneOffset(settings.highlightHue, settings.highlightSaturation);
+  const { data } = output;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const level = luminance(data[i], data[i + 1], data[i + 2]) / 255;
+    const shadowWeight = level < pivot ? 1 - level / pivot : 0;
+    const highlightWeight = level > pivot ? (level - pivot) / (1 - pivot) : 0;
+
+    for (let c = 0; c < 3; c++) {
+      data[i + c] += shadow[c] * shadowWeight + highlight[c] * highlightWeight;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Small, fast deterministic PRNG (mulberry32) so grain is reproducible
+ * across re-renders of the same recipe.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Monochrome film grain, strongest in the midtones and fading toward pure
+ * black and white like real emulsion. Coarser grain is generated on a
+ * smaller noise grid and interpolated up.
+ */
+export function applyGrain(raster: RasterImage, settings: GrainSettings): RasterImage {
+  const output = cloneRaster(raster);
+  const amplitude = (clamp(settings.amount, 0, 100) / 100) * MAX_GRAIN_AMPLITUDE;
+  if (amplitude === 0) return output;
+
+  const { width, height, data } = output;
+  const cell = 1 + (clamp(settings.size ?? 25, 0, 100) / 100) * 3;
+  const gridWidth = Math.ceil(width / cell) + 1;
+  const gridHeight = Math.ceil(height / cell) + 1;
+  const random = createRandom(settings.seed ?? 0);
+
+  // Sum of three uniforms approximates a gaussian, centered on zero
+  const noise = new Float32Array(gridWidth * gridHeight);
+  for (let i = 0; i < noise.length; i++) {
+    noise[i] = (random() + random() + random() - 1.5) / 1.5;
+  }
+
+  for (let y = 0; y < height; y++) {
+    const gy = y / cell;
+    const y0 = Math.floor(gy);
+    const fy = gy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const gx = x / cell;
+      const x0 = Math.floor(gx);
+      const fx = gx - x0;
+
+      const top = noise[y0 * gridWidth + x0] * (1 - fx) + noise[y0 * gridWidth + x0 + 1] * fx;
+      const bottom =
+        noise[(y0 + 1) * gridWidth + x0] * (1 - fx) + noise[(y0 + 1) * gridWidth + x0 + 1] * fx;
+      const sample = top * (1 - fy) + bottom * fy;
+
+      const index = (y * width + x) * 4;
+      const level = luminance(data[index], data[index + 1], data[index + 2]) / 255;
+      const offset = sample * amplitude * 4 * level * (1 - level);
+
+      data[index] += offset;
+      data[index + 1] += offset;
+      data[index + 2] += offset;
+    }
+  }
+
+  return output;
+}
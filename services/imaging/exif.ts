@@ -0,0 +1,727 @@
+export interface GpsPosition {
+  latitude: number; // degrees, negative south
+  longitude: number; // degrees, negative west
+  altitude?: number; // meters, negative below sea level
+}
+
+export interface ImageMetadata {
+  make?: string;
+  model?: string;
+  lensMake?: string;
+  lensModel?: string;
+  software?: string;
+  iso?: number;
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  focalLength?: number; // millimeters
+  capturedAt?: string; // ISO 8601, with the UTC offset when the camera recorded one
+  orientation?: number; // EXIF orientation, 1-8
+  gps?: GpsPosition;
+  bodySerialNumber?: string;
+  lensSerialNumber?: string;
+  width?: number; // stored pixel size, before orientation is applied
+  height?: number;
+}
+
+export interface MetadataPrivacy {
+  stripGps: boolean;
+  stripSerialNumbers: boolean;
+}
+
+export const DEFAULT_METADATA_PRIVACY: MetadataPrivacy = {
+  stripGps: true,
+  stripSerialNumbers: true,
+};
+
+export interface OrientationTransform {
+  rotate: number; // clockwise degrees
+  flip?: 'horizontal' | 'vertical'; // applied after the rotation
+}
+
+// How to turn stored pixels upright for each EXIF orientation
+export const ORIENTATION_TRANSFORMS: Record<number, OrientationTransform> = {
+  1: { rotate: 0 },
+  2: { rotate: 0, flip: 'horizontal' },
+  3: { rotate: 180 },
+  4: { rotate: 0, flip: 'vertical' },
+  5: { rotate: 90, flip: 'horizontal' },
+  6: { rotate: 90 },
+  7: { rotate: 270, flip: 'horizontal' },
+  8: { rotate: 270 },
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_SEGMENT_LENGTH = 0xffff;
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  exifVersion: 0x9000,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920a,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  bodySerialNumber: 0xa431,
+  lensMake: 0xa433,
+  lensModel: 0xa434,
+  lensSerialNumber: 0xa435,
+  gpsVersion: 0x0000,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+} as const;
+
+const TYPE = {
+  byte: 1,
+  ascii: 2,
+  short: 3,
+  long: 4,
+  rational: 5,
+  undefined: 7,
+  slong: 9,
+  srational: 10,
+} as const;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8 };
+
+interface JpegSegment {
+  marker: number;
+  start: number; // offset of the 0xFF marker byte
+  end: number; // offset just past the segment
+  dataStart: number; // offset of the payload, after the length field
+}
+
+function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+/**
+ * Walk the marker segments that precede the compressed image data.
+ */
+function readSegments(bytes: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    let marker = bytes[offset + 1];
+    let start = offset;
+    // Markers may be preceded by any number of fill bytes
+    while (marker === 0xff && offset + 2 < bytes.length) {
+      offset++;
+      start = offset;
+      marker = bytes[offset + 1];
+    }
+    if (marker === 0xd9 || marker === 0xda) break; // end of image, start of scan
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+    segments.push({ marker, start, end, dataStart: offset + 4 });
+    offset = end;
+  }
+
+  return segments;
+}
+
+function startsWith(bytes: Uint8Array, offset: number, prefix: ArrayLike<number>): boolean {
+  if (offset + prefix.length > bytes.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[offset + i] !== prefix[i]) return false;
+  }
+  return true;
+}
+
+function asciiBytes(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function isExifSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+  return segment.marker === 0xe1 && startsWith(bytes, segment.dataStart, EXIF_HEADER);
+}
+
+function isXmpSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+  return segment.marker === 0xe1 && startsWith(bytes, segment.dataStart, asciiBytes(XMP_HEADER));
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let output = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let codePoint = byte;
+    if (byte >= 0xf0 && i + 2 < bytes.length) {
+      codePoint = ((byte & 0x07) << 18) | ((bytes[i] & 0x3f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f);
+      i += 3;
+    } else if (byte >= 0xe0 && i + 1 < bytes.length) {
+      codePoint = ((byte & 0x0f) << 12) | ((bytes[i] & 0x3f) << 6) | (bytes[i + 1] & 0x3f);
+      i += 2;
+    } else if (byte >= 0xc0 && i < bytes.length) {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[i] & 0x3f);
+      i += 1;
+    }
+    output += String.fromCodePoint(codePoint);
+  }
+
+  return output;
+}
+
+/**
+ * Stored pixel size from the JPEG frame header. This is before any EXIF
+ * orientation is applied.
+ */
+export function readJpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (!isJpeg(bytes)) return null;
+
+  for (const segment of readSegments(bytes)) {
+    const { marker, dataStart } = segment;
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame && dataStart + 5 <= bytes.length) {
+      return {
+        height: (bytes[dataStart + 1] << 8) | bytes[dataStart + 2],
+        width: (bytes[dataStart + 3] << 8) | bytes[dataStart + 4],
+      };
+    }
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// EXIF (TIFF) reading
+
+type TiffValue = number | number[] | string;
+
+class TiffReader {
+  private view: DataView;
+  private littleEndian: boolean;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.littleEndian = bytes[0] === 0x49; // "II"
+  }
+
+  get valid(): boolean {
+    const marker = this.bytes[0] === 0x49 || this.bytes[0] === 0x4d;
+    return marker && this.bytes.length >= 8 && this.uint16(2) === 42;
+  }
+
+  uint16(offset: number): number {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  uint32(offset: number): number {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  get firstIfd(): number {
+    return this.uint32(4);
+  }
+
+  readIfd(offset: number): Map<number, TiffValue> {
+    const values = new Map<number, TiffValue>();
+    if (offset < 8 || offset + 2 > this.bytes.length) return values;
+
+    const count = this.uint16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.bytes.length) break;
+
+      const value = this.readEntry(entry);
+      if (value !== null) values.set(this.uint16(entry), value);
+    }
+
+    return values;
+  }
+
+  private readEntry(entry: number): TiffValue | null {
+    const type = this.uint16(entry + 2);
+    const count = this.uint32(entry + 4);
+    const size = TYPE_SIZES[type];
+    if (!size || count === 0) return null;
+
+    const total = size * count;
+    const offset = total <= 4 ? entry + 8 : this.uint32(entry + 8);
+    if (offset + total > this.bytes.length) return null;
+
+    if (type === TYPE.ascii) {
+      let text = '';
+      for (let i = 0; i < count && this.bytes[offset + i] !== 0; i++) {
+        text += String.fromCharCode(this.bytes[offset + i]);
+      }
+      return text.trim();
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const at = offset + i * size;
+      switch (type) {
+        case TYPE.short:
+          values.push(this.uint16(at));
+          break;
+        case TYPE.long:
+          values.push(this.uint32(at));
+          break;
+        case TYPE.slong:
+          values.push(this.view.getInt32(at, this.littleEndian));
+          break;
+        case TYPE.rational: {
+          const denominator = this.uint32(at + 4);
+          values.push(denominator === 0 ? 0 : this.uint32(at) / denominator);
+          break;
+        }
+        case TYPE.srational: {
+          const denominator = this.view.getInt32(at + 4, this.littleEndian);
+          values.push(denominator === 0 ? 0 : this.view.getInt32(at, this.littleEndian) / denominator);
+          break;
+        }
+        default:
+          values.push(this.bytes[at]);
+      }
+    }
+
+    return count === 1 ? values[0] : values;
+  }
+}
+
+function asNumber(value: TiffValue | undefined): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (Array.isArray(value) && value.length > 0) return value[0];
+  return undefined;
+}
+
+function asText(value: TiffValue | undefined): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * "2024:05:01 18:30:00" plus an optional "+02:00" offset to ISO 8601.
+ */
+function parseExifDate(value: string | undefined, offset?: string): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return undefined;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`;
+}
+
+function parseGpsCoordinate(value: TiffValue | undefined, ref: string | undefined, negative: string) {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref?.toUpperCase() === negative ? -degrees : degrees;
+}
+
+function readExif(tiffBytes: Uint8Array): ImageMetadata {
+  const reader = new TiffReader(tiffBytes);
+  if (!reader.valid) return {};
+
+  const ifd0 = reader.readIfd(reader.firstIfd);
+  const exif = reader.readIfd(asNumber(ifd0.get(TAG.exifIfd)) ?? 0);
+  const gpsIfd = reader.readIfd(asNumber(ifd0.get(TAG.gpsIfd)) ?? 0);
+
+  const metadata: ImageMetadata = {
+    make: asText(ifd0.get(TAG.make)),
+    model: asText(ifd0.get(TAG.model)),
+    software: asText(ifd0.get(TAG.software)),
+    orientation: asNumber(ifd0.get(TAG.orientation)),
+    lensMake: asText(exif.get(TAG.lensMake)),
+    lensModel: asText(exif.get(TAG.lensModel)),
+    iso: asNumber(exif.get(TAG.iso)),
+    exposureTime: asNumber(exif.get(TAG.exposureTime)),
+    fNumber: asNumber(exif.get(TAG.fNumber)),
+    focalLength: asNumber(exif.get(TAG.focalLength)),
+    capturedAt: parseExifDate(
+      asText(exif.get(TAG.dateTimeOriginal)) ?? asText(ifd0.get(TAG.dateTime)),
+      asText(exif.get(TAG.offsetTimeOriginal))
+    ),
+    bodySerialNumber: asText(exif.get(TAG.bodySerialNumber)),
+    lensSerialNumber: asText(exif.get(TAG.lensSerialNumber)),
+  };
+
+  const latitude = parseGpsCoordinate(gpsIfd.get(TAG.gpsLatitude), asText(gpsIfd.get(TAG.gpsLatitudeRef)), 'S');
+  const longitude = parseGpsCoordinate(gpsIfd.get(TAG.gpsLongitude), asText(gpsIfd.get(TAG.gpsLongitudeRef)), 'W');
+  if (latitude !== undefined && longitude !== undefined) {
+    const altitude = asNumber(gpsIfd.get(TAG.gpsAltitude));
+    metadata.gps = { latitude, longitude };
+    if (altitude !== undefined) {
+      metadata.gps.altitude = asNumber(gpsIfd.get(TAG.gpsAltitudeRef)) === 1 ? -altitude : altitude;
+    }
+  }
+
+  return metadata;
+}
+
+// ---------------------------------------------------------------------------
+// XMP reading
+
+function xmpValue(xml: string, names: string[]): string | undefined {
+  for (const name of names) {
+    const escaped = name.replace(':', '\\:');
+    const attribute = xml.match(new RegExp(`${escaped}="([^"]*)"`));
+    if (attribute) return attribute[1].trim() || undefined;
+
+    // Element form, possibly wrapping an rdf:Seq/Alt with a single rdf:li
+    const element = xml.match(new RegExp(`<${escaped}>([\\s\\S]*?)</${escaped}>`));
+    if (element) {
+      const item = element[1].match(/<rdf:li[^>]*>([^<]*)<\/rdf:li>/);
+      const text = (item ? item[1] : element[1]).trim();
+      if (text && !text.startsWith('<')) return text;
+    }
+  }
+  return undefined;
+}
+
+function parseXmpNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const fraction = value.match(/^(-?\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/);
+  const parsed = fraction ? Number(fraction[1]) / Number(fraction[2]) : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * XMP coordinates look like "37,46.5N" or "37,46,30N".
+ */
+function parseXmpCoordinate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!match) return undefined;
+
+  const degrees = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] ?? 0) / 3600;
+  return /[SW]/i.test(match[4]) ? -degrees : degrees;
+}
+
+function parseXmpDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?)(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?$/);
+  if (!match) return undefined;
+  const time = match[1].length === 16 ? `${match[1]}:00` : match[1];
+  return `${time}${match[2] ?? ''}`;
+}
+
+function readXmp(xml: string): ImageMetadata {
+  const metadata: ImageMetadata = {
+    make: xmpValue(xml, ['tiff:Make']),
+    model: xmpValue(xml, ['tiff:Model']),
+    software: xmpValue(xml, ['xmp:CreatorTool', 'tiff:Software']),
+    orientation: parseXmpNumber(xmpValue(xml, ['tiff:Orientation'])),
+    lensMake: xmpValue(xml, ['exifEX:LensMake']),
+    lensModel: xmpValue(xml, ['exifEX:LensModel', 'aux:Lens']),
+    iso: parseXmpNumber(xmpValue(xml, ['exifEX:PhotographicSensitivity', 'exif:ISOSpeedRatings'])),
+    exposureTime: parseXmpNumber(xmpValue(xml, ['exif:ExposureTime'])),
+    fNumber: parseXmpNumber(xmpValue(xml, ['exif:FNumber'])),
+    focalLength: parseXmpNumber(xmpValue(xml, ['exif:FocalLength'])),
+    capturedAt: parseXmpDate(xmpValue(xml, ['exif:DateTimeOriginal', 'photoshop:DateCreated', 'xmp:CreateDate'])),
+    bodySerialNumber: xmpValue(xml, ['exifEX:BodySerialNumber', 'aux:SerialNumber']),
+    lensSerialNumber: xmpValue(xml, ['exifEX:LensSerialNumber', 'aux:LensSerialNumber']),
+  };
+
+  const latitude = parseXmpCoordinate(xmpValue(xml, ['exif:GPSLatitude']));
+  const longitude = parseXmpCoordinate(xmpValue(xml, ['exif:GPSLongitude']));
+  if (latitude !== undefined && longitude !== undefined) {
+    metadata.gps = { latitude, longitude };
+    const altitude = parseXmpNumber(xmpValue(xml, ['exif:GPSAltitude']));
+    if (altitude !== undefined) {
+      metadata.gps.altitude = xmpValue(xml, ['exif:GPSAltitudeRef']) === '1' ? -altitude : altitude;
+    }
+  }
+
+  return metadata;
+}
+
+function withoutEmptyFields(metadata: ImageMetadata): ImageMetadata {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result as ImageMetadata;
+}
+
+/**
+ * Camera metadata from a JPEG's EXIF block, with XMP filling in anything
+ * EXIF doesn't have. Returns null for files that aren't JPEG.
+ */
+export function readImageMetadata(bytes: Uint8Array): ImageMetadata | null {
+  if (!isJpeg(bytes)) return null;
+
+  let exif: ImageMetadata = {};
+  let xmp: ImageMetadata = {};
+
+  for (const segment of readSegments(bytes)) {
+    if (isExifSegment(bytes, segment)) {
+      exif = readExif(bytes.subarray(segment.dataStart + EXIF_HEADER.length, segment.end));
+    } else if (isXmpSegment(bytes, segment)) {
+      xmp = readXmp(decodeUtf8(bytes.subarray(segment.dataStart + XMP_HEADER.length, segment.end)));
+    }
+  }
+
+  return withoutEmptyFields({
+    ...withoutEmptyFields(xmp),
+    ...withoutEmptyFields(exif),
+    ...(readJpegSize(bytes) ?? {}),
+  });
+}
+
+/**
+ * Drop whatever the privacy setting says shouldn't leave the device.
+ */
+export function applyMetadataPrivacy(metadata: ImageMetadata, privacy: MetadataPrivacy): ImageMetadata {
+  const result = { ...metadata };
+  if (privacy.stripGps) delete result.gps;
+  if (privacy.stripSerialNumbers) {
+    delete result.bodySerialNumber;
+    delete result.lensSerialNumber;
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// EXIF writing
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: number[]; // big-endian encoded value bytes
+}
+
+function encodeShort(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function encodeLong(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function toRational(value: number, denominator = 10000): [number, number] {
+  // Exposure times read naturally as 1/n
+  if (value > 0 && value < 1 && Math.abs(1 / value - Math.round(1 / value)) < 0.01) {
+    return [1, Math.round(1 / value)];
+  }
+  const numerator = Math.round(Math.abs(value) * denominator);
+  const divisor = gcd(numerator, denominator) || 1;
+  return [numerator / divisor, denominator / divisor];
+}
+
+function asciiEntry(tag: number, text: string): TiffEntry {
+  const data = [...asciiBytes(text.replace(/[^\x20-\x7e]/g, '?')), 0];
+  return { tag, type: TYPE.ascii, count: data.length, data };
+}
+
+function shortEntry(tag: number, value: number): TiffEntry {
+  return { tag, type: TYPE.short, count: 1, data: encodeShort(Math.round(value)) };
+}
+
+function longEntry(tag: number, value: number): TiffEntry {
+  return { tag, type: TYPE.long, count: 1, data: encodeLong(Math.round(value)) };
+}
+
+function rationalEntry(tag: number, values: number[]): TiffEntry {
+  const data = values.flatMap((value) => {
+    const [numerator, denominator] = toRational(value);
+    return [...encodeLong(numerator), ...encodeLong(denominator)];
+  });
+  return { tag, type: TYPE.rational, count: values.length, data };
+}
+
+function byteEntry(tag: number, values: number[], type: number = TYPE.byte): TiffEntry {
+  return { tag, type, count: values.length, data: values };
+}
+
+function toDegreesMinutesSeconds(value: number): number[] {
+  const absolute = Math.abs(value);
+  const degrees = Math.floor(absolute);
+  const minutes = Math.floor((absolute - degrees) * 60);
+  const seconds = (absolute - degrees - minutes / 60) * 3600;
+  return [degrees, minutes, Math.round(seconds * 100) / 100];
+}
+
+function formatExifDate(capturedAt: string): { dateTime: string; offset?: string } | null {
+  const match = capturedAt.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(Z|[+-]\d{2}:\d{2})?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, zone] = match;
+  return {
+    dateTime: `${year}:${month}:${day} ${hours}:${minutes}:${seconds}`,
+    offset: zone === 'Z' ? '+00:00' : zone,
+  };
+}
+
+function ifdSize(entries: TiffEntry[]): number {
+  const external = entries.reduce((sum, entry) => sum + (entry.data.length > 4 ? entry.data.length + (entry.data.length % 2) : 0), 0);
+  return 2 + entries.length * 12 + 4 + external;
+}
+
+function writeIfd(out: number[], entries: TiffEntry[], offset: number) {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+  const external: number[] = [];
+
+  out.push(...encodeShort(sorted.length));
+  for (const entry of sorted) {
+    out.push(...encodeShort(entry.tag), ...encodeShort(entry.type), ...encodeLong(entry.count));
+    if (entry.data.length <= 4) {
+      out.push(...entry.data, ...new Array(4 - entry.data.length).fill(0));
+    } else {
+      out.push(...encodeLong(dataOffset));
+      external.push(...entry.data);
+      if (entry.data.length % 2) external.push(0);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  }
+  out.push(...encodeLong(0)); // no next IFD, so no thumbnail
+  out.push(...external);
+}
+
+/**
+ * Build a fresh APP1 Exif segment from parsed metadata. Orientation is
+ * always written as 1 because the pixels it goes with are already upright.
+ * Only the fields in ImageMetadata are written, so anything removed by
+ * applyMetadataPrivacy cannot leak through from the source file.
+ */
+export function buildExifSegment(
+  metadata: ImageMetadata,
+  size?: { width: number; height: number }
+): Uint8Array {
+  const ifd0: TiffEntry[] = [shortEntry(TAG.orientation, 1)];
+  if (metadata.make) ifd0.push(asciiEntry(TAG.make, metadata.make));
+  if (metadata.model) ifd0.push(asciiEntry(TAG.model, metadata.model));
+  if (metadata.software) ifd0.push(asciiEntry(TAG.software, metadata.software));
+
+  const exif: TiffEntry[] = [byteEntry(TAG.exifVersion, asciiBytes('0232'), TYPE.undefined)];
+  const date = metadata.capturedAt ? formatExifDate(metadata.capturedAt) : null;
+  if (date) {
+    ifd0.push(asciiEntry(TAG.dateTime, date.dateTime));
+    exif.push(asciiEntry(TAG.dateTimeOriginal, date.dateTime));
+    if (date.offset) exif.push(asciiEntry(TAG.offsetTimeOriginal, date.offset));
+  }
+  if (metadata.exposureTime) exif.push(rationalEntry(TAG.exposureTime, [metadata.exposureTime]));
+  if (metadata.fNumber) exif.push(rationalEntry(TAG.fNumber, [metadata.fNumber]));
+  if (metadata.iso) exif.push(shortEntry(TAG.iso, Math.min(metadata.iso, 0xffff)));
+  if (metadata.focalLength) exif.push(rationalEntry(TAG.focalLength, [metadata.focalLength]));
+  if (metadata.lensMake) exif.push(asciiEntry(TAG.lensMake, metadata.lensMake));
+  if (metadata.lensModel) exif.push(asciiEntry(TAG.lensModel, metadata.lensModel));
+  if (metadata.bodySerialNumber) exif.push(asciiEntry(TAG.bodySerialNumber, metadata.bodySerialNumber));
+  if (metadata.lensSerialNumber) exif.push(asciiEntry(TAG.lensSerialNumber, metadata.lensSerialNumber));
+  if (size) {
+    exif.push(longEntry(TAG.pixelXDimension, size.width));
+    exif.push(longEntry(TAG.pixelYDimension, size.height));
+  }
+
+  const gps: TiffEntry[] = [];
+  if (metadata.gps) {
+    const { latitude, longitude, altitude } = metadata.gps;
+    gps.push(byteEntry(TAG.gpsVersion, [2, 3, 0, 0]));
+    gps.push(asciiEntry(TAG.gpsLatitudeRef, latitude < 0 ? 'S' : 'N'));
+    gps.push(rationalEntry(TAG.gpsLatitude, toDegreesMinutesSeconds(latitude)));
+    gps.push(asciiEntry(TAG.gpsLongitudeRef, longitude < 0 ? 'W' : 'E'));
+    gps.push(rationalEntry(TAG.gpsLongitude, toDegreesMinutesSeconds(longitude)));
+    if (altitude !== undefined) {
+      gps.push(byteEntry(TAG.gpsAltitudeRef, [altitude < 0 ? 1 : 0]));
+      gps.push(rationalEntry(TAG.gpsAltitude, [Math.abs(altitude)]));
+    }
+  }
+
+  // Pointer entries are fixed-size, so offsets can be laid out up front
+  const exifPointer = longEntry(TAG.exifIfd, 0);
+  const gpsPointer = longEntry(TAG.gpsIfd, 0);
+  ifd0.push(exifPointer);
+  if (gps.length > 0) ifd0.push(gpsPointer);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + ifdSize(exif);
+  exifPointer.data = encodeLong(exifOffset);
+  gpsPointer.data = encodeLong(gpsOffset);
+
+  const tiff: number[] = [0x4d, 0x4d, 0, 42, ...encodeLong(ifd0Offset)];
+  writeIfd(tiff, ifd0, ifd0Offset);
+  writeIfd(tiff, exif, exifOffset);
+  if (gps.length > 0) writeIfd(tiff, gps, gpsOffset);
+
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  if (length > MAX_SEGMENT_LENGTH) {
+    throw new Error('EXIF metadata is too large for a JPEG segment');
+  }
+
+  return new Uint8Array([0xff, 0xe1, ...encodeShort(length), ...EXIF_HEADER, ...tiff]);
+}
+
+/**
+ * Replace a JPEG's EXIF and XMP with the given APP1 segment. It goes right
+ * after SOI, or after a leading JFIF APP0 so both stay readable.
+ */
+export function embedExifSegment(jpeg: Uint8Array, segment: Uint8Array): Uint8Array {
+  if (!isJpeg(jpeg)) {
+    throw new Error('EXIF can only be embedded in JPEG files');
+  }
+
+  const segments = readSegments(jpeg);
+  const leadingApp0 = segments[0]?.marker === 0xe0 ? segments[0] : null;
+  const dropped = segments.filter((s) => isExifSegment(jpeg, s) || isXmpSegment(jpeg, s));
+  const insertAt = leadingApp0 ? leadingApp0.end : 2;
+
+  const parts: Uint8Array[] = [jpeg.subarray(0, insertAt), segment];
+  let offset = insertAt;
+  for (const skipped of dropped) {
+    parts.push(jpeg.subarray(offset, skipped.start));
+    offset = skipped.end;
+  }
+  parts.push(jpeg.subarray(offset));
+
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 1) return `${Math.round(seconds * 10) / 10}s`;
+  return `1/${Math.round(1 / seconds)}s`;
+}
+
+/**
+ * "Canon EOS R5", without repeating the make when the model already has it.
+ */
+export function describeCamera(metadata: ImageMetadata): string | null {
+  const { make, model } = metadata;
+  if (!model) return make ?? null;
+  if (!make || model.toLowerCase().startsWith(make.toLowerCase())) return model;
+  return `${make} ${model}`;
+}
+
+/**
+ * Short summary like "ISO 200 · 1/250s · f/2.8 · 35mm".
+ */
+export function describeCameraSettings(metadata: ImageMetadata): string | null {
+  const parts: string[] = [];
+  if (metadata.iso) parts.push(`ISO ${metadata.iso}`);
+  if (metadata.exposureTime) parts.push(formatExposureTime(metadata.exposureTime));
+  if (metadata.fNumber) parts.push(`f/${Math.round(metadata.fNumber * 10) / 10}`);
+  if (metadata.focalLength) parts.push(`${Math.round(metadata.focalLength)}mm`);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
@@ -0,0 +1,252 @@
+import { RasterImage, clamp, cloneRaster, luminance } from './raster';
+
+export type DenoiseMethod = 'bilateral' | 'median';
+
+export interface UnsharpMaskOptions {
+  radius: number; // gaussian sigma in pixels
+  amount: number; // 0 to ~3, multiple of the high-pass detail added back
+  threshold: number; // 0-255 luma difference below which detail is left alone
+}
+
+export interface DenoiseOptions {
+  method?: DenoiseMethod;
+  strength: number; // 0 to 1
+}
+
+// Wider bilateral kernels are sampled on a stride so each pixel reads at most (2 * this + 1)^2 neighbours
+const MAX_BILATERAL_TAP_RADIUS = 3;
+
+// Paeth's 19-exchange network; after it runs, index 4 holds the median of 9
+const MEDIAN9_NETWORK = [
+  [1, 2], [4, 5], [7, 8], [0, 1], [3, 4], [6, 7], [1, 2], [4, 5], [7, 8], [0, 3],
+  [5, 8], [4, 7], [3, 6], [1, 4], [2, 5], [4, 7], [4, 2], [6, 4], [4, 2],
+];
+
+function gaussianKernel(sigma: number): Float32Array {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+
+  for (let i = -radius; i <= radius; i++) {
+    const weight = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + radius] = weight;
+    sum += weight;
+  }
+  for (let i = 0; i < kernel.length; i++) {
+    kernel[i] /= sum;
+  }
+
+  return kernel;
+}
+
+/**
+ * Separable gaussian blur of the RGB channels. Edges are clamped.
+ */
+export function gaussianBlur(raster: RasterImage, sigma: number): RasterImage {
+  const output = cloneRaster(raster);
+  if (sigma <= 0) return output;
+
+  const { width, height, data } = raster;
+  const kernel = gaussianKernel(sigma);
+  const radius = (kernel.length - 1) / 2;
+  const temp = new Float32Array(width * height * 3);
+
+  // Horizontal pass into a float buffer to avoid rounding twice
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = clamp(x + k, 0, width - 1);
+        const index = (y * width + sx) * 4;
+        const weight = kernel[k + radius];
+        r += data[index] * weight;
+        g += data[index + 1] * weight;
+        b += data[index + 2] * weight;
+      }
+      const t = (y * width + x) * 3;
+      temp[t] = r;
+      temp[t + 1] = g;
+      temp[t + 2] = b;
+    }
+  }
+
+  const out = output.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = clamp(y + k, 0, height - 1);
+        const t = (sy * width + x) * 3;
+        const weight = kernel[k + radius];
+        r += temp[t] * weight;
+        g += temp[t + 1] * weight;
+        b += temp[t + 2] * weight;
+      }
+      const index = (y * width + x) * 4;
+      out[index] = r;
+      out[index + 1] = g;
+      out[index + 2] = b;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Classic unsharp mask: add back the difference to a gaussian blur,
+ * skipping low-contrast detail (below threshold) so flat areas and noise stay clean.
+ */
+export function unsharpMask(raster: RasterImage, options: UnsharpMaskOptions): RasterImage {
+  const output = cloneRaster(raster);
+  if (options.amount <= 0) return output;
+
+  const blurred = gaussianBlur(raster, options.radius);
+  const { data } = output;
+  const blurData = blurred.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const detail =
+      luminance(data[i], data[i + 1], data[i + 2]) -
+      luminance(blurData[i], blurData[i + 1], blurData[i + 2]);
+    if (Math.abs(detail) < options.threshold) continue;
+
+    data[i] = data[i] + options.amount * (data[i] - blurData[i]);
+    data[i + 1] = data[i + 1] + options.amount * (data[i + 1] - blurData[i + 1]);
+    data[i + 2] = data[i + 2] + options.amount * (data[i + 2] - blurData[i + 2]);
+  }
+
+  return output;
+}
+
+/**
+ * Edge-preserving smoothing: neighbours are weighted by distance and by how
+ * similar their luma is, so edges (large luma jumps) are not blurred across.
+ * Large radii are sampled on a stride to bound the work per pixel.
+ */
+export function bilateralFilter(
+  raster: RasterImage,
+  spatialSigma: number,
+  rangeSigma: number
+): RasterImage {
+  const { width, height, data } = raster;
+  const output = cloneRaster(raster);
+  const out = output.data;
+  const radius = Math.max(1, Math.ceil(spatialSigma * 2));
+  const stride = Math.ceil(radius / MAX_BILATERAL_TAP_RADIUS);
+  const reach = Math.floor(radius / stride) * stride; // keeps the center pixel on the stride
+
+  const spatialWeights = new Float32Array((radius * 2 + 1) * (radius * 2 + 1));
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      spatialWeights[(dy + radius) * (radius * 2 + 1) + dx + radius] = Math.exp(
+        -(dx * dx + dy * dy) / (2 * spatialSigma * spatialSigma)
+      );
+    }
+  }
+
+  const rangeWeights = new Float32Array(256);
+  for (let d = 0; d < 256; d++) {
+    rangeWeights[d] = Math.exp(-(d * d) / (2 * rangeSigma * rangeSigma));
+  }
+
+  const luma = new Uint8ClampedArray(width * height);
+  for (let p = 0; p < luma.length; p++) {
+    luma[p] = luminance(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const centerLuma = luma[y * width + x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let total = 0;
+
+      for (let dy = -reach; dy <= reach; dy += stride) {
+        const sy = y + dy;
+        if (sy < 0 || sy >= height) continue;
+        for (let dx = -reach; dx <= reach; dx += stride) {
+          const sx = x + dx;
+          if (sx < 0 || sx >= width) continue;
+
+          const p = sy * width + sx;
+          const weight =
+            spatialWeights[(dy + radius) * (radius * 2 + 1) + dx + radius] *
+            rangeWeights[Math.abs(luma[p] - centerLuma)];
+          const index = p * 4;
+          r += data[index] * weight;
+          g += data[index + 1] * weight;
+          b += data[index + 2] * weight;
+          total += weight;
+        }
+      }
+
+      const index = (y * width + x) * 4;
+      out[index] = r / total;
+      out[index + 1] = g / total;
+      out[index + 2] = b / total;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 3x3 per-channel median, effective against salt-and-pepper noise.
+ */
+export function medianFilter3x3(raster: RasterImage): RasterImage {
+  const { width, height, data } = raster;
+  const output = cloneRaster(raster);
+  const out = output.data;
+  const window = new Uint8Array(9);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          const sy = clamp(y + dy, 0, height - 1);
+          for (let dx = -1; dx <= 1; dx++) {
+            const sx = clamp(x + dx, 0, width - 1);
+            window[count++] = data[(sy * width + sx) * 4 + c];
+          }
+        }
+        for (const [a, b] of MEDIAN9_NETWORK) {
+          if (window[a] > window[b]) {
+            const swap = window[a];
+            window[a] = window[b];
+            window[b] = swap;
+          }
+        }
+        out[index + c] = window[4];
+      }
+    }
+  }
+
+  return output;
+}
+
+export function denoise(raster: RasterImage, options: DenoiseOptions): RasterImage {
+  const strength = clamp(options.strength, 0, 1);
+  if (strength === 0) return cloneRaster(raster);
+
+  if (options.method === 'median') {
+    // Blend toward the median so low strengths keep some texture
+    const filtered = medianFilter3x3(raster);
+    const output = cloneRaster(raster);
+    for (let i = 0; i < output.data.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        output.data[i + c] += (filtered.data[i + c] - output.data[i + c]) * strength;
+      }
+    }
+    return output;
+  }
+
+  return bilateralFilter(raster, 1 + 2 * strength, 8 + 24 * strength);
+}
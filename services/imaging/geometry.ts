@@ -0,0 +1,388 @@
+import { RasterImage, clamp, createRaster, luminance } from './raster';
+
+export type LineFamily = 'horizon' | 'vertical';
+
+export interface StraightenSuggestion {
+  angle: number; // degrees to rotate, clockwise positive like EditingOptions.rotate
+  family: LineFamily;
+  confidence: number; // 0 to 1
+}
+
+export interface KeystoneSettings {
+  vertical?: number; // -100 to 100, positive widens the top to undo converging verticals
+  horizontal?: number; // -100 to 100, positive widens the right edge
+}
+
+export const MAX_STRAIGHTEN_ANGLE = 20;
+// Smaller tilts are within the detector's error on a preview, so read as level
+export const MIN_STRAIGHTEN_ANGLE = 0.5;
+
+const MAX_KEYSTONE_INSET = 0.3;
+const THETA_STEP = 0.25;
+const VOTE_SPREAD = 6; // degrees around the gradient direction each edge votes for
+const MAX_PEAKS = 8;
+const PLATEAU_FRACTION = 0.95; // share of a peak's votes that still counts as the same peak
+const MIN_LINE_FRACTION = 0.25; // a peak must span this share of the frame to count
+
+interface HoughPeak {
+  theta: number; // normal angle in degrees, offset from the family's axis
+  rho: number;
+  votes: number;
+}
+
+interface EdgeMap {
+  magnitude: Float32Array;
+  direction: Float32Array; // gradient angle in degrees, 0-180
+}
+
+function detectEdges(raster: RasterImage): EdgeMap {
+  const { width, height, data } = raster;
+  const luma = new Float32Array(width * height);
+  for (let p = 0; p < luma.length; p++) {
+    luma[p] = luminance(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+  }
+
+  const magnitude = new Float32Array(width * height);
+  const direction = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        luma[i - width + 1] + 2 * luma[i + 1] + luma[i + width + 1] -
+        luma[i - width - 1] - 2 * luma[i - 1] - luma[i + width - 1];
+      const gy =
+        luma[i + width - 1] + 2 * luma[i + width] + luma[i + width + 1] -
+        luma[i - width - 1] - 2 * luma[i - width] - luma[i - width + 1];
+
+      magnitude[i] = Math.sqrt(gx * gx + gy * gy);
+      direction[i] = ((Math.atan2(gy, gx) * 180) / Math.PI + 180) % 180;
+    }
+  }
+
+  return { magnitude, direction };
+}
+
+function edgeThreshold(magnitude: Float32Array): number {
+  let max = 0;
+  for (let i = 0; i < magnitude.length; i++) max = Math.max(max, magnitude[i]);
+  return Math.max(32, max * 0.25);
+}
+
+/**
+ * Hough transform restricted to lines within `maxTilt` degrees of one axis.
+ * Each strong edge only votes for angles near its own gradient direction,
+ * which keeps the accumulator small and the peaks sharp.
+ */
+function houghPeaks(
+  raster: RasterImage,
+  edges: EdgeMap,
+  family: LineFamily,
+  maxTilt: number
+): HoughPeak[] {
+  const { width, height } = raster;
+  const axis = family === 'horizon' ? 90 : 0;
+  const thetaCount = Math.round((2 * maxTilt) / THETA_STEP) + 1;
+  const diagonal = Math.ceil(Math.sqrt(width * width + height * height));
+  const rhoCount = diagonal * 2 + 1;
+  const accumulator = new Float32Array(thetaCount * rhoCount);
+  const threshold = edgeThreshold(edges.magnitude);
+
+  const cosines = new Float32Array(thetaCount);
+  const sines = new Float32Array(thetaCount);
+  for (let t = 0; t < thetaCount; t++) {
+    const radians = ((axis - maxTilt + t * THETA_STEP) * Math.PI) / 180;
+    cosines[t] = Math.cos(radians);
+    sines[t] = Math.sin(radians);
+  }
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (edges.magnitude[i] < threshold) continue;
+
+      // Signed offset of the gradient from the family's axis, -90 to 90
+      const offset = ((edges.direction[i] - axis + 270) % 180) - 90;
+      if (Math.abs(offset) > maxTilt + VOTE_SPREAD) continue;
+
+      const first = Math.max(0, Math.floor((offset - VOTE_SPREAD + maxTilt) / THETA_STEP));
+      const last = Math.min(thetaCount - 1, Math.ceil((offset + VOTE_SPREAD + maxTilt) / THETA_STEP));
+      const weight = edges.magnitude[i] / 255;
+
+      for (let t = first; t <= last; t++) {
+        const rho = Math.round(x * cosines[t] + y * sines[t]) + diagonal;
+        accumulator[t * rhoCount + rho] += weight;
+      }
+    }
+  }
+
+  // Greedy peak picking with non-maximum suppression around each pick
+  const peaks: HoughPeak[] = [];
+  const suppressTheta = Math.round(VOTE_SPREAD / THETA_STEP);
+  const suppressRho = 4;
+  for (let n = 0; n < MAX_PEAKS; n++) {
+    let bestIndex = -1;
+    let bestVotes = 0;
+    for (let i = 0; i < accumulator.length; i++) {
+      if (accumulator[i] > bestVotes) {
+        bestVotes = accumulator[i];
+        bestIndex = i;
+      }
+    }
+    if (bestIndex < 0) break;
+
+    const t = Math.floor(bestIndex / rhoCount);
+    const r = bestIndex % rhoCount;
+
+    // A short line collects the same votes over a run of angles; take the middle of the run
+    const onPlateau = (tt: number) =>
+      tt >= 0 && tt < thetaCount && accumulator[tt * rhoCount + r] >= bestVotes * PLATEAU_FRACTION;
+    let low = t;
+    let high = t;
+    while (onPlateau(low - 1)) low--;
+    while (onPlateau(high + 1)) high++;
+    peaks.push({ theta: -maxTilt + ((low + high) / 2) * THETA_STEP, rho: r - diagonal, votes: bestVotes });
+
+    for (let dt = -suppressTheta; dt <= suppressTheta; dt++) {
+      const tt = t + dt;
+      if (tt < 0 || tt >= thetaCount) continue;
+      for (let dr = -suppressRho; dr <= suppressRho; dr++) {
+        const rr = r + dr;
+        if (rr >= 0 && rr < rhoCount) accumulator[tt * rhoCount + rr] = 0;
+      }
+    }
+  }
+
+  return peaks;
+}
+
+/**
+ * Find the dominant horizon or set of verticals and the rotation that
+ * levels it. The angle is 0 when the lines are already level, and the
+ * result is null when no line is long enough to trust.
+ */
+export function detectStraightenAngle(
+  raster: RasterImage,
+  maxTilt: number = MAX_STRAIGHTEN_ANGLE
+): StraightenSuggestion | null {
+  const edges = detectEdges(raster);
+  const candidates = (['horizon', 'vertical'] as const).map((family) => {
+    const span = family === 'horizon' ? raster.width : raster.height;
+    const peaks = houghPeaks(raster, edges, family, maxTilt);
+    const strongest = peaks[0]?.votes ?? 0;
+    // Only lines at least half as strong as the best one take part in the estimate
+    const strong = peaks.filter((peak) => peak.votes >= strongest * 0.5);
+    const totalVotes = strong.reduce((sum, peak) => sum + peak.votes, 0);
+    const tilt = totalVotes
+      ? strong.reduce((sum, peak) => sum + peak.theta * peak.votes, 0) / totalVotes
+      : 0;
+
+    return { family, tilt, strength: strongest / span };
+  });
+
+  const best = candidates[0].strength >= candidates[1].strength ? candidates[0] : candidates[1];
+  if (best.strength < MIN_LINE_FRACTION) return null;
+
+  const angle = Math.round(-best.tilt * 100) / 100;
+  return {
+    angle: Math.abs(angle) < MIN_STRAIGHTEN_ANGLE ? 0 : angle,
+    family: best.family,
+    confidence: Math.round(clamp(best.strength, 0, 1) * 100) / 100,
+  };
+}
+
+/**
+ * Estimate vertical keystone from how near-vertical lines lean relative to
+ * their distance from the center: converging verticals lean inward.
+ * Returns a KeystoneSettings.vertical value, or 0 without enough lines.
+ */
+export function estimateVerticalKeystone(raster: RasterImage): number {
+  const { width, height } = raster;
+  const peaks = houghPeaks(raster, detectEdges(raster), 'vertical', MAX_STRAIGHTEN_ANGLE).filter(
+    (peak) => peak.votes / height >= MIN_LINE_FRACTION
+  );
+
+  // Least squares fit of tan(theta) = -k * u * width / (2 * height), u in [-1, 1]
+  let numerator = 0;
+  let denominator = 0;
+  peaks.forEach((peak) => {
+    const radians = (peak.theta * Math.PI) / 180;
+    const midX = (peak.rho - (height / 2) * Math.sin(radians)) / Math.cos(radians);
+    const u = (midX - width / 2) / (width / 2);
+    const slope = (u * width) / (2 * height);
+    numerator += -Math.tan(radians) * slope * peak.votes;
+    denominator += slope * slope * peak.votes;
+  });
+
+  if (peaks.length < 2 || denominator === 0) return 0;
+
+  const inset = numerator / denominator;
+  return Math.round(clamp(inset / MAX_KEYSTONE_INSET, -1, 1) * 100);
+}
+
+/**
+ * Size of the largest axis-aligned rectangle that fits inside a
+ * width x height rectangle rotated by `angle` degrees.
+ */
+export function largestInscribedRect(
+  width: number,
+  height: number,
+  angle: number
+): { width: number; height: number } {
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  if (sin < 1e-9) return { width, height };
+
+  const widthIsLonger = width >= height;
+  const longSide = widthIsLonger ? width : height;
+  const shortSide = widthIsLonger ? height : width;
+
+  if (shortSide <= 2 * sin * cos * longSide || Math.abs(sin - cos) < 1e-9) {
+    // Half-constrained: two corners of the rectangle touch the long sides
+    const x = shortSide / 2;
+    return widthIsLonger
+      ? { width: x / sin, height: x / cos }
+      : { width: x / cos, height: x / sin };
+  }
+
+  const cos2 = cos * cos - sin * sin;
+  return {
+    width: (width * cos - height * sin) / cos2,
+    height: (height * cos - width * sin) / cos2,
+  };
+}
+
+function sampleBilinear(raster: RasterImage, x: number, y: number, out: Uint8ClampedArray, offset: number) {
+  const { width, height, data } = raster;
+  const sx = clamp(x, 0, width - 1);
+  const sy = clamp(y, 0, height - 1);
+  const x0 = Math.floor(sx);
+  const y0 = Math.floor(sy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = sx - x0;
+  const fy = sy - y0;
+
+  const i00 = (y0 * width + x0) * 4;
+  const i10 = (y0 * width + x1) * 4;
+  const i01 = (y1 * width + x0) * 4;
+  const i11 = (y1 * width + x1) * 4;
+  for (let c = 0; c < 4; c++) {
+    const top = data[i00 + c] + (data[i10 + c] - data[i00 + c]) * fx;
+    const bottom = data[i01 + c] + (data[i11 + c] - data[i01 + c]) * fx;
+    out[offset + c] = top + (bottom - top) * fy;
+  }
+}
+
+/**
+ * Rotate clockwise by `angle` degrees and crop to the largest inscribed
+ * rectangle, so no empty corners are left behind.
+ */
+export function straightenRaster(raster: RasterImage, angle: number): RasterImage {
+  const { width, height } = raster;
+  const inscribed = largestInscribedRect(width, height, angle);
+  const outputWidth = Math.max(1, Math.floor(inscribed.width));
+  const outputHeight = Math.max(1, Math.floor(inscribed.height));
+  const output = createRaster(outputWidth, outputHeight);
+
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const centerX = (width - 1) / 2;
+  const centerY = (height - 1) / 2;
+
+  for (let y = 0; y < outputHeight; y++) {
+    const v = y - (outputHeight - 1) / 2;
+    for (let x = 0; x < outputWidth; x++) {
+      const u = x - (outputWidth - 1) / 2;
+      // Inverse rotation back into the source frame
+      sampleBilinear(
+        raster,
+        centerX + cos * u + sin * v,
+        centerY - sin * u + cos * v,
+        output.data,
+        (y * outputWidth + x) * 4
+      );
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Solve the 3x3 homography mapping four points onto four others
+ * (h33 fixed to 1) with Gaussian elimination.
+ */
+function solveHomography(from: number[][], to: number[][]): number[] {
+  const matrix: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const [x, y] = from[i];
+    const [u, v] = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < 9; k++) matrix[row][k] -= factor * matrix[col][k];
+    }
+  }
+
+  return [...matrix.map((row, i) => row[8] / row[i]), 1];
+}
+
+export function hasKeystone(keystone?: KeystoneSettings): boolean {
+  return !!keystone && !!(keystone.vertical || keystone.horizontal);
+}
+
+/**
+ * Perspective correction: the edge that is too narrow is pulled out to the
+ * frame by sampling from an inset quad. The quad stays inside the source,
+ * so the output has no empty areas.
+ */
+export function correctKeystone(raster: RasterImage, keystone: KeystoneSettings): RasterImage {
+  const { width, height } = raster;
+  const vertical = (clamp(keystone.vertical ?? 0, -100, 100) / 100) * MAX_KEYSTONE_INSET;
+  const horizontal = (clamp(keystone.horizontal ?? 0, -100, 100) / 100) * MAX_KEYSTONE_INSET;
+
+  const topInset = Math.max(0, vertical) * width / 2;
+  const bottomInset = Math.max(0, -vertical) * width / 2;
+  const rightInset = Math.max(0, horizontal) * height / 2;
+  const leftInset = Math.max(0, -horizontal) * height / 2;
+
+  const right = width - 1;
+  const bottom = height - 1;
+  const destination = [[0, 0], [right, 0], [right, bottom], [0, bottom]];
+  const source = [
+    [topInset, leftInset],
+    [right - topInset, rightInset],
+    [right - bottomInset, bottom - rightInset],
+    [bottomInset, bottom - leftInset],
+  ];
+
+  const h = solveHomography(destination, source);
+  const output = createRaster(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      sampleBilinear(
+        raster,
+        (h[0] * x + h[1] * y + h[2]) / w,
+        (h[3] * x + h[4] * y + h[5]) / w,
+        output.data,
+        (y * width + x) * 4
+      );
+    }
+  }
+
+  return output;
+}
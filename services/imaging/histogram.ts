@@ -0,0 +1,53 @@
+import { RasterImage, luminance } from './raster';
+
+export interface Histograms {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luma: Uint32Array;
+  pixelCount: number;
+}
+
+export function computeHistograms(raster: RasterImage): Histograms {
+  const red = new Uint32Array(256);
+  const green = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const luma = new Uint32Array(256);
+  const { data } = raster;
+
+  for (let i = 0; i < data.length; i += 4) {
+    red[data[i]]++;
+    green[data[i + 1]]++;
+    blue[data[i + 2]]++;
+    luma[Math.round(luminance(data[i], data[i + 1], data[i + 2]))]++;
+  }
+
+  return { red, green, blue, luma, pixelCount: data.length / 4 };
+}
+
+/**
+ * Smallest value at or below which `fraction` (0-1) of the samples fall.
+ */
+export function histogramPercentile(histogram: Uint32Array, fraction: number): number {
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += histogram[i];
+  if (total === 0) return 0;
+
+  const target = fraction * total;
+  let cumulative = 0;
+  for (let value = 0; value < 256; value++) {
+    cumulative += histogram[value];
+    if (cumulative >= target) return value;
+  }
+  return 255;
+}
+
+export function histogramMean(histogram: Uint32Array): number {
+  let total = 0;
+  let sum = 0;
+  for (let value = 0; value < 256; value++) {
+    total += histogram[value];
+    sum += value * histogram[value];
+  }
+  return total === 0 ? 0 : sum / total;
+}
@@ -0,0 +1,146 @@
+import { RasterImage, clamp, cloneRaster } from './raster';
+
+export const HSL_BANDS = {
+  reds: 0,
+  oranges: 30,
+  yellows: 60,
+  greens: 120,
+  aquas: 180,
+  blues: 240,
+  purples: 270,
+  magentas: 300,
+} as const;
+
+export type HslBand = keyof typeof HSL_BANDS;
+
+export interface HslBandAdjustment {
+  hue?: number; // -100 to 100, maps to +/- 30 degrees
+  saturation?: number; // -100 to 100
+  luminance?: number; // -100 to 100
+}
+
+export type HslAdjustments = Partial<Record<HslBand, HslBandAdjustment>>;
+
+const MAX_HUE_SHIFT = 30;
+const MAX_LUMINANCE_SHIFT = 0.25;
+
+const BAND_NAMES = Object.keys(HSL_BANDS) as HslBand[];
+const BAND_CENTERS = BAND_NAMES.map((band) => HSL_BANDS[band]);
+
+export function hasHslAdjustments(adjustments?: HslAdjustments): boolean {
+  if (!adjustments) return false;
+  return BAND_NAMES.some((band) => {
+    const adjustment = adjustments[band];
+    return !!(adjustment && (adjustment.hue || adjustment.saturation || adjustment.luminance));
+  });
+}
+
+/** Converts 8-bit RGB to [hue 0-360, saturation 0-1, lightness 0-1]. */
+export function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return [0, 0, lightness];
+  }
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === rn) {
+    hue = ((gn - bn) / delta) % 6;
+  } else if (max === gn) {
+    hue = (bn - rn) / delta + 2;
+  } else {
+    hue = (rn - gn) / delta + 4;
+  }
+
+  return [(hue * 60 + 360) % 360, saturation, lightness];
+}
+
+/** Converts [hue 0-360, saturation 0-1, lightness 0-1] back to 8-bit RGB. */
+export function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const x = chroma * (1 - Math.abs((h % 2) - 1));
+  const m = lightness - chroma / 2;
+
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  if (h < 1) [r, g, b] = [chroma, x, 0];
+  else if (h < 2) [r, g, b] = [x, chroma, 0];
+  else if (h < 3) [r, g, b] = [0, chroma, x];
+  else if (h < 4) [r, g, b] = [0, x, chroma];
+  else if (h < 5) [r, g, b] = [x, 0, chroma];
+  else [r, g, b] = [chroma, 0, x];
+
+  return [(r + m) * 255, (g + m) * 255, (b + m) * 255];
+}
+
+function hueDistance(a: number, b: number): number {
+  const distance = Math.abs(a - b) % 360;
+  return distance > 180 ? 360 - distance : distance;
+}
+
+/**
+ * Raised-cosine weights between neighbouring band centers.
+ * Weights of all bands sum to 1 for any hue, so adjacent bands blend smoothly.
+ */
+export function bandWeights(hue: number): number[] {
+  return BAND_CENTERS.map((center, index) => {
+    const previous = BAND_CENTERS[(index - 1 + BAND_CENTERS.length) % BAND_CENTERS.length];
+    const next = BAND_CENTERS[(index + 1) % BAND_CENTERS.length];
+    const offset = ((hue - center + 540) % 360) - 180; // signed, -180 to 180
+    const width = offset < 0 ? hueDistance(center, previous) : hueDistance(center, next);
+    const distance = Math.abs(offset);
+
+    if (distance >= width) return 0;
+    return 0.5 * (1 + Math.cos((Math.PI * distance) / width));
+  });
+}
+
+export function applyHslAdjustments(raster: RasterImage, adjustments: HslAdjustments): RasterImage {
+  const output = cloneRaster(raster);
+  const bands = BAND_NAMES.map((band) => ({
+    hue: clamp(adjustments[band]?.hue ?? 0, -100, 100) / 100,
+    saturation: clamp(adjustments[band]?.saturation ?? 0, -100, 100) / 100,
+    luminance: clamp(adjustments[band]?.luminance ?? 0, -100, 100) / 100,
+  }));
+  const { data } = output;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const [hue, saturation, lightness] = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+    if (saturation === 0) continue;
+
+    const weights = bandWeights(hue);
+    let hueShift = 0;
+    let saturationShift = 0;
+    let luminanceShift = 0;
+
+    for (let band = 0; band < bands.length; band++) {
+      const weight = weights[band];
+      if (weight === 0) continue;
+      hueShift += weight * bands[band].hue;
+      saturationShift += weight * bands[band].saturation;
+      luminanceShift += weight * bands[band].luminance;
+    }
+
+    // Scale luminance by saturation so near-neutral pixels are barely touched
+    const [r, g, b] = hslToRgb(
+      hue + hueShift * MAX_HUE_SHIFT,
+      clamp(saturation * (1 + saturationShift), 0, 1),
+      clamp(lightness + luminanceShift * MAX_LUMINANCE_SHIFT * saturation, 0, 1)
+    );
+
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+
+  return output;
+}
@@ -0,0 +1,57 @@
+/**
+ * fast-png creates a latin1 TextDecoder as soon as it loads, but Expo's
+ * TextDecoder polyfill only knows UTF-8 and throws for any other label.
+ * When that's the case, wrap the global so latin1 decodes byte for byte and
+ * every other label still goes to the original. Import before fast-png.
+ */
+const LATIN1_LABELS = ['latin1', 'l1', 'iso-8859-1', 'iso8859-1', 'iso_8859-1'];
+const STRING_CHUNK_SIZE = 0x2000;
+
+function supportsLatin1(): boolean {
+  try {
+    new TextDecoder('latin1');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toBytes(input?: AllowSharedBufferSource): Uint8Array {
+  if (!input) return new Uint8Array(0);
+  if (ArrayBuffer.isView(input)) return new Uint8Array(input.buffer, input.byteOffset, input.byteLength);
+  return new Uint8Array(input);
+}
+
+if (typeof TextDecoder !== 'undefined' && !supportsLatin1()) {
+  const BaseTextDecoder = TextDecoder;
+
+  class Latin1TextDecoder {
+    readonly encoding: string;
+    readonly fatal: boolean;
+    readonly ignoreBOM: boolean;
+    private base: TextDecoder | null;
+
+    constructor(label: string = 'utf-8', options: TextDecoderOptions = {}) {
+      const latin1 = LATIN1_LABELS.includes(String(label).trim().toLowerCase());
+      this.base = latin1 ? null : new BaseTextDecoder(label, options);
+      this.encoding = this.base?.encoding ?? 'windows-1252';
+      this.fatal = this.base?.fatal ?? !!options.fatal;
+      this.ignoreBOM = this.base?.ignoreBOM ?? !!options.ignoreBOM;
+    }
+
+    decode(input?: AllowSharedBufferSource, options?: TextDecodeOptions): string {
+      if (this.base) return this.base.decode(input, options);
+
+      const bytes = toBytes(input);
+      const chunks: string[] = [];
+      for (let i = 0; i < bytes.length; i += STRING_CHUNK_SIZE) {
+        chunks.push(String.fromCharCode.apply(null, bytes.subarray(i, i + STRING_CHUNK_SIZE) as unknown as number[]));
+      }
+      return chunks.join('');
+    }
+  }
+
+  globalThis.TextDecoder = Latin1TextDecoder as unknown as typeof TextDecoder;
+}
+
+export {};
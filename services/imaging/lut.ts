@@ -0,0 +1,191 @@
+import { RasterImage, clamp, cloneRaster } from './raster';
+
+/**
+ * Parsed 3D lookup table. Values are RGB triples in 0-1 with red changing
+ * fastest, matching the .cube file layout: index = r + g * size + b * size * size.
+ */
+export interface CubeLut {
+  title: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array;
+}
+
+export const MAX_LUT_SIZE = 65;
+
+export function parseCubeLut(text: string): CubeLut {
+  let title = 'Untitled LUT';
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let table: Float32Array | null = null;
+  let valueIndex = 0;
+
+  const lines = text.split(/\r?\n/);
+
+  for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+    const line = lines[lineNumber].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    if (keyword === 'TITLE') {
+      title = line.slice('TITLE'.length).trim().replace(/^"|"$/g, '') || title;
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(rest[0], 10);
+      if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+        throw new Error(`Unsupported LUT_3D_SIZE ${rest[0]} on line ${lineNumber + 1}`);
+      }
+      table = new Float32Array(size * size * size * 3);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported, please export a 3D .cube file');
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriple(rest, lineNumber);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriple(rest, lineNumber);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!table) {
+        throw new Error(`LUT data before LUT_3D_SIZE on line ${lineNumber + 1}`);
+      }
+      if (valueIndex >= table.length) {
+        throw new Error(`Too many LUT entries on line ${lineNumber + 1}`);
+      }
+      const [r, g, b] = parseTriple([keyword, ...rest], lineNumber);
+      table[valueIndex++] = r;
+      table[valueIndex++] = g;
+      table[valueIndex++] = b;
+    }
+    // Unknown keywords are ignored, as the format allows vendor extensions
+  }
+
+  if (!table) {
+    throw new Error('Missing LUT_3D_SIZE in .cube file');
+  }
+  if (valueIndex !== table.length) {
+    throw new Error(`Expected ${table.length / 3} LUT entries, found ${valueIndex / 3}`);
+  }
+  for (let c = 0; c < 3; c++) {
+    if (domainMax[c] <= domainMin[c]) {
+      throw new Error('DOMAIN_MAX must be greater than DOMAIN_MIN');
+    }
+  }
+
+  return { title, size, domainMin, domainMax, table };
+}
+
+function parseTriple(values: string[], lineNumber: number): [number, number, number] {
+  const numbers = values.slice(0, 3).map(Number);
+  if (numbers.length !== 3 || numbers.some((value) => !Number.isFinite(value))) {
+    throw new Error(`Expected three numbers on line ${lineNumber + 1}`);
+  }
+  return [numbers[0], numbers[1], numbers[2]];
+}
+
+/**
+ * Sample the LUT at a position in lattice coordinates (0 to size - 1 per axis).
+ */
+function sampleTrilinear(
+  lut: CubeLut,
+  x: number,
+  y: number,
+  z: number,
+  out: Float32Array
+): void {
+  const { size, table } = lut;
+  const x0 = Math.min(Math.floor(x), size - 2);
+  const y0 = Math.min(Math.floor(y), size - 2);
+  const z0 = Math.min(Math.floor(z), size - 2);
+  const fx = x - x0;
+  const fy = y - y0;
+  const fz = z - z0;
+
+  const stride = size * size;
+  const base = (x0 + y0 * size + z0 * stride) * 3;
+  const dx = 3;
+  const dy = size * 3;
+  const dz = stride * 3;
+
+  for (let c = 0; c < 3; c++) {
+    const c000 = table[base + c];
+    const c100 = table[base + dx + c];
+    const c010 = table[base + dy + c];
+    const c110 = table[base + dx + dy + c];
+    const c001 = table[base + dz + c];
+    const c101 = table[base + dx + dz + c];
+    const c011 = table[base + dy + dz + c];
+    const c111 = table[base + dx + dy + dz + c];
+
+    const c00 = c000 + (c100 - c000) * fx;
+    const c10 = c010 + (c110 - c010) * fx;
+    const c01 = c001 + (c101 - c001) * fx;
+    const c11 = c011 + (c111 - c011) * fx;
+    const c0 = c00 + (c10 - c00) * fy;
+    const c1 = c01 + (c11 - c01) * fy;
+
+    out[c] = c0 + (c1 - c0) * fz;
+  }
+}
+
+/**
+ * Grade a raster through a 3D LUT with trilinear interpolation.
+ * Intensity blends between the original (0) and the fully graded result (1).
+ */
+export function applyLut(raster: RasterImage, lut: CubeLut, intensity: number = 1): RasterImage {
+  const output = cloneRaster(raster);
+  const amount = clamp(intensity, 0, 1);
+  if (amount === 0) return output;
+
+  // Precompute 8-bit value -> lattice coordinate for each channel
+  const coordinates = [0, 1, 2].map((channel) => {
+    const table = new Float32Array(256);
+    const min = lut.domainMin[channel];
+    const range = lut.domainMax[channel] - min;
+    for (let value = 0; value < 256; value++) {
+      table[value] = clamp((value / 255 - min) / range, 0, 1) * (lut.size - 1);
+    }
+    return table;
+  });
+
+  const { data } = output;
+  const sample = new Float32Array(3);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    sampleTrilinear(lut, coordinates[0][r], coordinates[1][g], coordinates[2][b], sample);
+
+    data[i] = r + (sample[0] * 255 - r) * amount;
+    data[i + 1] = g + (sample[1] * 255 - g) * amount;
+    data[i + 2] = b + (sample[2] * 255 - b) * amount;
+  }
+
+  return output;
+}
+
+/**
+ * Resample a LUT onto a smaller lattice, used to keep stored presets compact.
+ */
+export function resampleLut(lut: CubeLut, size: number): CubeLut {
+  if (size === lut.size) return lut;
+
+  const table = new Float32Array(size * size * size * 3);
+  const sample = new Float32Array(3);
+  const scale = (lut.size - 1) / (size - 1);
+  let index = 0;
+
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        sampleTrilinear(lut, r * scale, g * scale, b * scale, sample);
+        table[index++] = sample[0];
+        table[index++] = sample[1];
+        table[index++] = sample[2];
+      }
+    }
+  }
+
+  return { ...lut, size, table };
+}
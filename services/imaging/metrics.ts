@@ -0,0 +1,152 @@
+import { computeHistograms, histogramMean } from './histogram';
+import { RasterImage, luminance } from './raster';
+
+export interface PixelMeasurements {
+  meanLuma: number; // 0-255
+  rmsContrast: number; // standard deviation of luma normalized to 0-1
+  meanSaturation: number; // mean HSV saturation, 0-1
+  laplacianVariance: number;
+  noiseSigma: number; // estimated noise standard deviation in 8-bit levels
+}
+
+export interface PixelMetrics {
+  brightness: number; // 0-100, mean luminance
+  contrast: number; // 0-100, RMS contrast (0.5 is the theoretical maximum, shown as 50)
+  saturation: number; // 0-100, mean HSV saturation
+  sharpness: number; // 0-100, from Laplacian variance
+  noise: number; // 0-100, from the estimated noise sigma
+  measurements: PixelMeasurements;
+}
+
+// Measurements depend on resolution, so always measure at this long edge
+export const METRICS_PREVIEW_EDGE = 512;
+
+// Laplacian variance that maps to a sharpness of 50
+export const SHARPNESS_MIDPOINT = 150;
+// Noise sigma (8-bit levels) that maps to a noise score of 100
+const NOISE_SIGMA_MAX = 7;
+// Sobel magnitude above which a pixel counts as an edge, not noise
+const NOISE_EDGE_THRESHOLD = 48;
+// Mean luminance (0-100) treated as the ideal exposure
+const TARGET_BRIGHTNESS = 50;
+
+function lumaPlane(raster: RasterImage): Float32Array {
+  const { data } = raster;
+  const luma = new Float32Array(raster.width * raster.height);
+  for (let p = 0; p < luma.length; p++) {
+    luma[p] = luminance(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+  }
+  return luma;
+}
+
+function measureSaturation(raster: RasterImage): number {
+  const { data } = raster;
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const max = Math.max(data[i], data[i + 1], data[i + 2]);
+    if (max === 0) continue;
+    total += (max - Math.min(data[i], data[i + 1], data[i + 2])) / max;
+  }
+  return total / (data.length / 4);
+}
+
+function measureRmsContrast(luma: Float32Array, meanLuma: number): number {
+  let sum = 0;
+  for (let i = 0; i < luma.length; i++) {
+    const d = luma[i] / 255 - meanLuma / 255;
+    sum += d * d;
+  }
+  return Math.sqrt(sum / luma.length);
+}
+
+function measureLaplacianVariance(luma: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = 4 * luma[i] - luma[i - 1] - luma[i + 1] - luma[i - width] - luma[i + width];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Immerkær's fast noise estimate: convolve with a mask that cancels smooth
+ * gradients, so what remains is mostly noise. Edge pixels are skipped so
+ * detail doesn't read as noise.
+ */
+function estimateNoiseSigma(luma: Float32Array, width: number, height: number): number {
+  let total = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const tl = luma[i - width - 1];
+      const t = luma[i - width];
+      const tr = luma[i - width + 1];
+      const l = luma[i - 1];
+      const r = luma[i + 1];
+      const bl = luma[i + width - 1];
+      const b = luma[i + width];
+      const br = luma[i + width + 1];
+
+      const gx = tr + 2 * r + br - tl - 2 * l - bl;
+      const gy = bl + 2 * b + br - tl - 2 * t - tr;
+      if (Math.sqrt(gx * gx + gy * gy) > NOISE_EDGE_THRESHOLD) continue;
+
+      total += Math.abs(tl + tr + bl + br - 2 * (t + l + r + b) + 4 * luma[i]);
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  return (Math.sqrt(Math.PI / 2) * total) / (6 * count);
+}
+
+/**
+ * Objective image metrics measured from the pixels themselves. Measure a
+ * preview scaled to METRICS_PREVIEW_EDGE so results are comparable across
+ * source resolutions.
+ */
+export function measurePixelMetrics(raster: RasterImage): PixelMetrics {
+  const { width, height } = raster;
+  const luma = lumaPlane(raster);
+  const meanLuma = histogramMean(computeHistograms(raster).luma);
+  const measurements: PixelMeasurements = {
+    meanLuma,
+    rmsContrast: measureRmsContrast(luma, meanLuma),
+    meanSaturation: measureSaturation(raster),
+    laplacianVariance: measureLaplacianVariance(luma, width, height),
+    noiseSigma: estimateNoiseSigma(luma, width, height),
+  };
+
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+  return {
+    brightness: round1((meanLuma / 255) * 100),
+    contrast: round1(measurements.rmsContrast * 100),
+    saturation: round1(measurements.meanSaturation * 100),
+    sharpness: round1(
+      (measurements.laplacianVariance / (measurements.laplacianVariance + SHARPNESS_MIDPOINT)) * 100
+    ),
+    noise: round1(Math.min(1, measurements.noiseSigma / NOISE_SIGMA_MAX) * 100),
+    measurements,
+  };
+}
+
+/**
+ * Exposure quality from mean brightness: 100 at mid-gray, falling to 0 for
+ * an almost black or white frame.
+ */
+export function exposureQuality(brightness: number): number {
+  return Math.max(0, 100 - Math.abs(brightness - TARGET_BRIGHTNESS) * 2);
+}
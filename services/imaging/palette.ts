@@ -0,0 +1,242 @@
+import { rgbToLab } from './difference';
+import { RasterImage } from './raster';
+
+export interface PaletteSwatch {
+  hex: string; // #RRGGBB
+  proportion: number; // share of the image, 0-1
+}
+
+export type ColorFamily =
+  | 'red'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'teal'
+  | 'blue'
+  | 'purple'
+  | 'pink'
+  | 'brown'
+  | 'black'
+  | 'gray'
+  | 'white';
+
+// Display colors for the family filter chips
+export const COLOR_FAMILIES: { key: ColorFamily; hex: string }[] = [
+  { key: 'red', hex: '#FF3B30' },
+  { key: 'orange', hex: '#FF9500' },
+  { key: 'yellow', hex: '#FFCC00' },
+  { key: 'green', hex: '#34C759' },
+  { key: 'teal', hex: '#30B0C7' },
+  { key: 'blue', hex: '#007AFF' },
+  { key: 'purple', hex: '#AF52DE' },
+  { key: 'pink', hex: '#FF8FB1' },
+  { key: 'brown', hex: '#A2845E' },
+  { key: 'black', hex: '#1C1C1E' },
+  { key: 'gray', hex: '#8E8E93' },
+  { key: 'white', hex: '#F2F2F7' },
+];
+
+export const MAX_PALETTE_SIZE = 8;
+
+// A family has to cover this much of the image to count as present
+export const MIN_FAMILY_PROPORTION = 0.08;
+
+const MAX_SAMPLES = 16384;
+const KMEANS_ITERATIONS = 4;
+// Swatches closer than this (CIE76 ΔE) are merged
+const MERGE_DELTA_E = 10;
+const MIN_SWATCH_PROPORTION = 0.02;
+const NEUTRAL_CHROMA = 12;
+
+type Rgb = [number, number, number];
+
+function samplePixels(raster: RasterImage): Rgb[] {
+  const { data } = raster;
+  const pixelCount = raster.width * raster.height;
+  const step = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+  const samples: Rgb[] = [];
+
+  for (let p = 0; p < pixelCount; p += step) {
+    const i = p * 4;
+    if (data[i + 3] < 128) continue; // transparent pixels have no visible color
+    samples.push([data[i], data[i + 1], data[i + 2]]);
+  }
+
+  return samples;
+}
+
+function widestChannel(box: Rgb[]): { channel: number; range: number } {
+  let best = { channel: 0, range: -1 };
+  for (let channel = 0; channel < 3; channel++) {
+    let min = 255;
+    let max = 0;
+    for (const sample of box) {
+      min = Math.min(min, sample[channel]);
+      max = Math.max(max, sample[channel]);
+    }
+    if (max - min > best.range) best = { channel, range: max - min };
+  }
+  return best;
+}
+
+/**
+ * Median cut: keep splitting the box whose widest channel range, weighted
+ * by population, is largest.
+ */
+function medianCut(samples: Rgb[], count: number): Rgb[] {
+  const boxes: Rgb[][] = [samples];
+
+  while (boxes.length < count) {
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      const score = box.length > 1 ? widestChannel(box).range * Math.sqrt(box.length) : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        target = index;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const { channel } = widestChannel(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(target, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes.map((box) => {
+    const sum = box.reduce<Rgb>((total, s) => [total[0] + s[0], total[1] + s[1], total[2] + s[2]], [0, 0, 0]);
+    return [sum[0] / box.length, sum[1] / box.length, sum[2] / box.length];
+  });
+}
+
+/**
+ * A few k-means passes starting from the median-cut centers, which settles
+ * the centers onto the actual color clusters. Returns the member count of
+ * each center.
+ */
+function refineCenters(samples: Rgb[], centers: Rgb[]): number[] {
+  let counts = new Array(centers.length).fill(0);
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centers.map<Rgb>(() => [0, 0, 0]);
+    counts = new Array(centers.length).fill(0);
+
+    for (const sample of samples) {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centers.forEach((center, index) => {
+        const dr = sample[0] - center[0];
+        const dg = sample[1] - center[1];
+        const db = sample[2] - center[2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = index;
+        }
+      });
+      sums[nearest][0] += sample[0];
+      sums[nearest][1] += sample[1];
+      sums[nearest][2] += sample[2];
+      counts[nearest]++;
+    }
+
+    centers.forEach((center, index) => {
+      if (counts[index] === 0) return;
+      center[0] = sums[index][0] / counts[index];
+      center[1] = sums[index][1] / counts[index];
+      center[2] = sums[index][2] / counts[index];
+    });
+  }
+
+  return counts;
+}
+
+function toHex(rgb: Rgb): string {
+  return `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function deltaE(a: Rgb, b: Rgb): number {
+  const [l1, a1, b1] = rgbToLab(Math.round(a[0]), Math.round(a[1]), Math.round(a[2]));
+  const [l2, a2, b2] = rgbToLab(Math.round(b[0]), Math.round(b[1]), Math.round(b[2]));
+  return Math.sqrt((l2 - l1) ** 2 + (a2 - a1) ** 2 + (b2 - b1) ** 2);
+}
+
+/**
+ * Dominant colors with the share of the image each covers, largest first.
+ * Median cut seeds up to MAX_PALETTE_SIZE centers, k-means refines them,
+ * then near-identical swatches are merged and tiny ones dropped, so flat
+ * images return fewer swatches.
+ */
+export function extractPalette(raster: RasterImage, size: number = MAX_PALETTE_SIZE): PaletteSwatch[] {
+  const samples = samplePixels(raster);
+  if (samples.length === 0) return [];
+
+  const centers = medianCut(samples, Math.min(size, samples.length));
+  const counts = refineCenters(samples, centers);
+  let swatches = centers
+    .map((rgb, index) => ({ rgb, count: counts[index] }))
+    .filter((swatch) => swatch.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  // Merge each swatch into a larger one it's indistinguishable from
+  const merged: typeof swatches = [];
+  for (const swatch of swatches) {
+    const match = merged.find((existing) => deltaE(existing.rgb, swatch.rgb) < MERGE_DELTA_E);
+    if (!match) {
+      merged.push({ rgb: [...swatch.rgb] as Rgb, count: swatch.count });
+      continue;
+    }
+    const total = match.count + swatch.count;
+    match.rgb = match.rgb.map((c, i) => (c * match.count + swatch.rgb[i] * swatch.count) / total) as Rgb;
+    match.count = total;
+  }
+  swatches = merged.sort((a, b) => b.count - a.count);
+
+  return swatches
+    .map((swatch) => ({
+      hex: toHex(swatch.rgb),
+      proportion: Math.round((swatch.count / samples.length) * 1000) / 1000,
+    }))
+    .filter((swatch) => swatch.proportion >= MIN_SWATCH_PROPORTION);
+}
+
+/**
+ * Name a color by its CIELAB hue, lightness and chroma.
+ */
+export function classifyColor(hex: string): ColorFamily {
+  const [l, a, b] = rgbToLab(...hexToRgb(hex));
+  const chroma = Math.sqrt(a * a + b * b);
+
+  if (chroma < NEUTRAL_CHROMA) {
+    if (l < 25) return 'black';
+    if (l > 85) return 'white';
+    return 'gray';
+  }
+
+  const hue = ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+  if (hue >= 345 || hue < 15) return l >= 60 ? 'pink' : 'red';
+  if (hue < 50) return 'red';
+  if (hue < 80) return l < 50 ? 'brown' : 'orange';
+  if (hue < 115) return 'yellow';
+  if (hue < 180) return 'green';
+  if (hue < 225) return 'teal';
+  if (hue < 315) return 'blue'; // sRGB #0000FF sits near 306°
+  return 'purple';
+}
+
+/**
+ * Whether a palette has enough of a color family to count as "that color".
+ */
+export function paletteHasFamily(palette: PaletteSwatch[], family: ColorFamily): boolean {
+  const proportion = palette
+    .filter((swatch) => classifyColor(swatch.hex) === family)
+    .reduce((sum, swatch) => sum + swatch.proportion, 0);
+  return proportion >= MIN_FAMILY_PROPORTION;
+}
@@ -0,0 +1,190 @@
+import { RasterImage, luminance } from './raster';
+
+/**
+ * 64-bit perceptual hashes as 16-character hex strings.
+ * - pHash: signs of the low-frequency DCT coefficients, robust to
+ *   recompression, resizing and mild color edits
+ * - dHash: horizontal luminance gradients, cheap and sensitive to crops
+ */
+export interface PerceptualHash {
+  phash: string;
+  dhash: string;
+}
+
+// Both hashes must be within these Hamming distances (out of 64 bits)
+export const PHASH_DUPLICATE_THRESHOLD = 10;
+export const DHASH_DUPLICATE_THRESHOLD = 12;
+
+// The manipulator resizes to this edge before hashing
+export const HASH_SOURCE_EDGE = 32;
+
+const DCT_SIZE = 32;
+const DCT_KEEP = 8;
+
+/**
+ * Area-averaged grayscale plane at an exact size, so downscaling doesn't alias.
+ */
+function grayPlane(raster: RasterImage, width: number, height: number): Float32Array {
+  const plane = new Float32Array(width * height);
+  const { data } = raster;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor((y * raster.height) / height);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * raster.height) / height));
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor((x * raster.width) / width);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * raster.width) / width));
+      let sum = 0;
+
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * raster.width + sx) * 4;
+          sum += luminance(data[i], data[i + 1], data[i + 2]);
+        }
+      }
+      plane[y * width + x] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  return plane;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+export function computeDHash(raster: RasterImage): string {
+  const plane = grayPlane(raster, 9, 8);
+  const bits: boolean[] = [];
+
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(plane[y * 9 + x] < plane[y * 9 + x + 1]);
+    }
+  }
+
+  return bitsToHex(bits);
+}
+
+const DCT_COSINES = (() => {
+  const table = new Float32Array(DCT_KEEP * DCT_SIZE);
+  for (let u = 0; u < DCT_KEEP; u++) {
+    for (let x = 0; x < DCT_SIZE; x++) {
+      table[u * DCT_SIZE + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE));
+    }
+  }
+  return table;
+})();
+
+export function computePHash(raster: RasterImage): string {
+  const plane = grayPlane(raster, DCT_SIZE, DCT_SIZE);
+
+  // Separable DCT-II, keeping only the 8x8 low-frequency block
+  const rows = new Float32Array(DCT_SIZE * DCT_KEEP);
+  for (let y = 0; y < DCT_SIZE; y++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0;
+      for (let x = 0; x < DCT_SIZE; x++) {
+        sum += plane[y * DCT_SIZE + x] * DCT_COSINES[u * DCT_SIZE + x];
+      }
+      rows[y * DCT_KEEP + u] = sum;
+    }
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < DCT_KEEP; v++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        sum += rows[y * DCT_KEEP + u] * DCT_COSINES[v * DCT_SIZE + y];
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness, so leave it out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coefficients.map((value) => value > median));
+}
+
+export function computePerceptualHash(raster: RasterImage): PerceptualHash {
+  return { phash: computePHash(raster), dhash: computeDHash(raster) };
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+export interface HashedItem {
+  id: string;
+  phash: string | null;
+  dhash: string | null;
+}
+
+export function isNearDuplicate(a: PerceptualHash, b: PerceptualHash): boolean {
+  return (
+    hammingDistance(a.phash, b.phash) <= PHASH_DUPLICATE_THRESHOLD &&
+    hammingDistance(a.dhash, b.dhash) <= DHASH_DUPLICATE_THRESHOLD
+  );
+}
+
+function hasHash<T extends HashedItem>(item: T): item is T & PerceptualHash {
+  return !!item.phash && !!item.dhash;
+}
+
+/**
+ * Group items that match pairwise, transitively (union-find), so a chain of
+ * matches ends up in one cluster. Only clusters with at least two items are
+ * returned, each in the input order.
+ */
+export function clusterTransitively<T>(items: T[], matches: (a: T, b: T) => boolean): T[][] {
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (matches(items[i], items[j])) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), item]);
+  });
+
+  return [...clusters.values()].filter((cluster) => cluster.length > 1);
+}
+
+/**
+ * Group near-duplicates, so a burst of slightly different frames ends up in
+ * one cluster. Items without hashes are left out.
+ */
+export function clusterNearDuplicates<T extends HashedItem>(items: T[]): T[][] {
+  return clusterTransitively(items.filter(hasHash), isNearDuplicate);
+}
@@ -0,0 +1,184 @@
+import { applySaturation, applyToneTable, buildToneTable } from './adjustments';
+import { AutoEnhanceReport, WhiteBalanceMethod, analyzeAutoEnhance, applyAutoEnhance } from './autoEnhance';
+import { ToneCurves, applyToneCurves, hasToneCurves } from './curves';
+import {
+  GrainSettings,
+  SplitToningSettings,
+  VignetteSettings,
+  applyFade,
+  applyGrain,
+  applySplitToning,
+  applyVignette,
+  hasGrain,
+  hasSplitToning,
+  hasVignette,
+} from './effects';
+import { DenoiseMethod, denoise, gaussianBlur, unsharpMask } from './filters';
+import {
+  KeystoneSettings,
+  correctKeystone,
+  detectStraightenAngle,
+  hasKeystone,
+  straightenRaster,
+} from './geometry';
+import { HslAdjustments, applyHslAdjustments, hasHslAdjustments } from './hsl';
+import { RasterImage, clamp, cloneRaster } from './raster';
+
+/**
+ * Per-pixel operations understood by the pipeline.
+ * Crop, resize, quarter-turn rotation and flips are handled before decoding;
+ * straightening and keystone need resampling so they run here, first.
+ */
+export interface PixelOperations {
+  straighten?: number; // degrees, clockwise
+  autoStraighten?: boolean;
+  keystone?: KeystoneSettings;
+  brightness?: number; // -100 to 100
+  contrast?: number; // -100 to 100
+  saturation?: number; // -100 to 100
+  sharpness?: number; // -100 to 100
+  autoEnhance?: boolean;
+  whiteBalanceMethod?: WhiteBalanceMethod;
+  reduceNoise?: boolean;
+  noiseReductionMethod?: DenoiseMethod;
+  enhancementStrength?: number; // 0 to 1, scales auto enhance, sharpening and noise reduction
+  curves?: ToneCurves;
+  hsl?: HslAdjustments;
+  splitToning?: SplitToningSettings;
+  fade?: number; // 0 to 100
+  vignette?: VignetteSettings;
+  grain?: GrainSettings;
+}
+
+export interface PixelPipelineResult {
+  raster: RasterImage;
+  autoEnhancement?: AutoEnhanceReport;
+  straightenAngle?: number;
+}
+
+export const NOISE_REDUCTION_STRENGTH = 0.6;
+export const MAX_SHARPEN_AMOUNT = 1.5;
+const SHARPEN_THRESHOLD = 3;
+const SOFTEN_SIGMA = 1.5;
+
+export function hasPixelOperations(operations: PixelOperations): boolean {
+  return !!(
+    operations.straighten ||
+    operations.autoStraighten ||
+    hasKeystone(operations.keystone) ||
+    operations.autoEnhance ||
+    operations.brightness ||
+    operations.contrast ||
+    operations.saturation ||
+    operations.sharpness ||
+    operations.reduceNoise ||
+    hasToneCurves(operations.curves) ||
+    hasHslAdjustments(operations.hsl) ||
+    hasSplitToning(operations.splitToning) ||
+    operations.fade ||
+    hasVignette(operations.vignette) ||
+    hasGrain(operations.grain)
+  );
+}
+
+/**
+ * Run every pixel operation in a fixed order: geometry, automatic
+ * correction, tone, color, creative effects, then detail, with grain last so
+ * it is never smoothed or sharpened. Returns a new raster; the input is left
+ * untouched.
+ */
+export function applyPixelOperations(
+  raster: RasterImage,
+  operations: PixelOperations
+): PixelPipelineResult {
+  let output = cloneRaster(raster);
+  let autoEnhancement: AutoEnhanceReport | undefined;
+  let straightenAngle: number | undefined;
+
+  const brightness = clamp(operations.brightness ?? 0, -100, 100);
+  const contrast = clamp(operations.contrast ?? 0, -100, 100);
+  const saturation = clamp(operations.saturation ?? 0, -100, 100);
+  const sharpness = clamp(operations.sharpness ?? 0, -100, 100);
+  const strength = clamp(operations.enhancementStrength ?? 1, 0, 1);
+
+  // Geometry: keystone before straightening so the rotation crop sees the corrected frame
+  if (hasKeystone(operations.keystone)) {
+    output = correctKeystone(output, operations.keystone!);
+  }
+  straightenAngle = operations.autoStraighten
+    ? detectStraightenAngle(output)?.angle
+    : operations.straighten;
+  if (straightenAngle) {
+    output = straightenRaster(output, straightenAngle);
+  }
+
+  // Automatic correction measured from the image's own histograms
+  if (operations.autoEnhance) {
+    autoEnhancement = analyzeAutoEnhance(output, {
+      whiteBalance: operations.whiteBalanceMethod,
+      strength,
+    });
+    output = applyAutoEnhance(output, autoEnhancement);
+  }
+
+  // Tone
+  if (brightness !== 0 || contrast !== 0) {
+    applyToneTable(output, buildToneTable(brightness, contrast));
+  }
+  if (hasToneCurves(operations.curves)) {
+    output = applyToneCurves(output, operations.curves!);
+  }
+
+  // Color
+  if (saturation !== 0) {
+    applySaturation(output, saturation);
+  }
+  if (hasHslAdjustments(operations.hsl)) {
+    output = applyHslAdjustments(output, operations.hsl!);
+  }
+
+  // Creative effects
+  if (hasSplitToning(operations.splitToning)) {
+    output = applySplitToning(output, operations.splitToning!);
+  }
+  if (operations.fade) {
+    applyFade(output, operations.fade);
+  }
+  if (hasVignette(operations.vignette)) {
+    output = applyVignette(output, operations.vignette!);
+  }
+
+  // Detail: denoise first so sharpening doesn't amplify noise
+  if (operations.reduceNoise) {
+    output = denoise(output, {
+      method: operations.noiseReductionMethod,
+      strength: NOISE_REDUCTION_STRENGTH * strength,
+    });
+  }
+  if (sharpness > 0) {
+    const longEdge = Math.max(output.width, output.height);
+    output = unsharpMask(output, {
+      radius: 0.8 + longEdge / 2000,
+      amount: (sharpness / 100) * MAX_SHARPEN_AMOUNT * strength,
+      threshold: SHARPEN_THRESHOLD,
+    });
+  } else if (sharpness < 0) {
+    output = blendToward(output, gaussianBlur(output, SOFTEN_SIGMA), (-sharpness / 100) * strength);
+  }
+  if (hasGrain(operations.grain)) {
+    output = applyGrain(output, operations.grain!);
+  }
+
+  return { raster: output, autoEnhancement, straightenAngle };
+}
+
+function blendToward(raster: RasterImage, target: RasterImage, amount: number): RasterImage {
+  const output = cloneRaster(raster);
+  const { data } = output;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] += (target.data[i] - data[i]) * amount;
+    data[i + 1] += (target.data[i + 1] - data[i + 1]) * amount;
+    data[i + 2] += (target.data[i + 2] - data[i + 2]) * amount;
+  }
+  return output;
+}
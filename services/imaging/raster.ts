@@ -0,0 +1,97 @@
+/**
+ * In-memory RGBA image used by the pixel pipeline.
+ * Pixels are stored row-major, 4 bytes per pixel (R, G, B, A).
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export function createRaster(width: number, height: number): RasterImage {
+  if (width <= 0 || height <= 0) {
+    throw new Error(`Invalid raster size ${width}x${height}`);
+  }
+
+  return {
+    width,
+    height,
+    data: new Uint8ClampedArray(width * height * 4),
+  };
+}
+
+export function cloneRaster(raster: RasterImage): RasterImage {
+  return {
+    width: raster.width,
+    height: raster.height,
+    data: new Uint8ClampedArray(raster.data),
+  };
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Rec. 709 relative luminance of an 8-bit RGB triple, in the 0-255 range.
+ */
+export function luminance(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Build a 256-entry lookup table from a per-value mapping.
+ * Tonal operations are applied through LUTs so each pixel costs one array read.
+ */
+export function buildLookupTable(mapper: (value: number) => number): Uint8ClampedArray {
+  const table = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = Math.round(mapper(i));
+  }
+  return table;
+}
+
+/**
+ * Bilinear resample to an exact size. Alpha is resampled with the color channels.
+ */
+export function resizeRaster(raster: RasterImage, width: number, height: number): RasterImage {
+  const targetWidth = Math.max(1, Math.round(width));
+  const targetHeight = Math.max(1, Math.round(height));
+  if (targetWidth === raster.width && targetHeight === raster.height) {
+    return cloneRaster(raster);
+  }
+
+  const output = createRaster(targetWidth, targetHeight);
+  const { data } = raster;
+  const out = output.data;
+  const scaleX = raster.width / targetWidth;
+  const scaleY = raster.height / targetHeight;
+
+  for (let y = 0; y < targetHeight; y++) {
+    const sy = clamp((y + 0.5) * scaleY - 0.5, 0, raster.height - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(y0 + 1, raster.height - 1);
+    const fy = sy - y0;
+
+    for (let x = 0; x < targetWidth; x++) {
+      const sx = clamp((x + 0.5) * scaleX - 0.5, 0, raster.width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, raster.width - 1);
+      const fx = sx - x0;
+
+      const i00 = (y0 * raster.width + x0) * 4;
+      const i10 = (y0 * raster.width + x1) * 4;
+      const i01 = (y1 * raster.width + x0) * 4;
+      const i11 = (y1 * raster.width + x1) * 4;
+      const o = (y * targetWidth + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = data[i00 + c] + (data[i10 + c] - data[i00 + c]) * fx;
+        const bottom = data[i01 + c] + (data[i11 + c] - data[i01 + c]) * fx;
+        out[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,217 @@
+import { RasterImage, clamp, luminance } from './raster';
+
+export const CROP_RATIOS = {
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '1.91:1': 1.91,
+  '9:16': 9 / 16,
+} as const;
+
+export type CropRatio = keyof typeof CROP_RATIOS;
+
+/**
+ * Subject bounding box in normalized (0-1) image coordinates.
+ */
+export interface SubjectRegion {
+  label?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  weight?: number; // relative importance, defaults to 1
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropCandidate extends CropRect {
+  ratio: CropRatio;
+  score: number; // 0 to 1, share of the image's interest kept in the window
+}
+
+const CHROMA_WEIGHT = 0.5;
+const CENTER_PRIOR = 0.1;
+const SUBJECT_WEIGHT = 0.5;
+
+/**
+ * Per-pixel interest: Sobel edge strength plus chroma, with a faint center
+ * prior so featureless images settle on a centered crop.
+ */
+export function computeEnergyMap(raster: RasterImage): Float32Array {
+  const { width, height, data } = raster;
+  const luma = new Float32Array(width * height);
+  const energy = new Float32Array(width * height);
+
+  for (let p = 0; p < luma.length; p++) {
+    luma[p] = luminance(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+  }
+
+  const at = (x: number, y: number) =>
+    luma[clamp(y, 0, height - 1) * width + clamp(x, 0, width - 1)];
+  const centerX = (width - 1) / 2;
+  const centerY = (height - 1) / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      const edge = Math.min(1, Math.sqrt(gx * gx + gy * gy) / 255);
+
+      const index = (y * width + x) * 4;
+      const chroma =
+        (Math.max(data[index], data[index + 1], data[index + 2]) -
+          Math.min(data[index], data[index + 1], data[index + 2])) /
+        255;
+
+      const dx = (x - centerX) / Math.max(1, centerX);
+      const dy = (y - centerY) / Math.max(1, centerY);
+      const center = 1 - Math.min(1, Math.sqrt(dx * dx + dy * dy) / Math.SQRT2);
+
+      energy[y * width + x] = edge + CHROMA_WEIGHT * chroma + CENTER_PRIOR * center;
+    }
+  }
+
+  return energy;
+}
+
+/**
+ * Summed-area table with a zero first row and column, so any window
+ * sum costs four reads.
+ */
+function buildIntegral(values: Float32Array, width: number, height: number): Float64Array {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += values[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  return integral;
+}
+
+function windowSum(integral: Float64Array, stride: number, rect: CropRect): number {
+  const x1 = rect.x + rect.width;
+  const y1 = rect.y + rect.height;
+  return (
+    integral[y1 * stride + x1] -
+    integral[rect.y * stride + x1] -
+    integral[y1 * stride + rect.x] +
+    integral[rect.y * stride + rect.x]
+  );
+}
+
+/**
+ * Weighted share of the subject areas that falls inside the window.
+ */
+function subjectCoverage(rect: CropRect, subjects: CropRect[], weights: number[]): number {
+  let covered = 0;
+  let total = 0;
+
+  subjects.forEach((subject, index) => {
+    const area = subject.width * subject.height;
+    if (area <= 0) return;
+
+    const overlapWidth =
+      Math.min(rect.x + rect.width, subject.x + subject.width) - Math.max(rect.x, subject.x);
+    const overlapHeight =
+      Math.min(rect.y + rect.height, subject.y + subject.height) - Math.max(rect.y, subject.y);
+    const overlap = Math.max(0, overlapWidth) * Math.max(0, overlapHeight);
+
+    covered += (overlap / area) * weights[index];
+    total += weights[index];
+  });
+
+  return total > 0 ? covered / total : 0;
+}
+
+/**
+ * Largest window of the given ratio, slid along the free axis to keep the
+ * most edge/color energy and the most of any subject regions.
+ */
+export function findSmartCrop(
+  raster: RasterImage,
+  ratio: CropRatio,
+  subjects: SubjectRegion[] = [],
+  energy: Float32Array = computeEnergyMap(raster)
+): CropCandidate {
+  const { width, height } = raster;
+  const target = CROP_RATIOS[ratio];
+  const cropWidth = width / height > target ? Math.max(1, Math.round(height * target)) : width;
+  const cropHeight = width / height > target ? height : Math.max(1, Math.round(width / target));
+
+  const stride = width + 1;
+  const integral = buildIntegral(energy, width, height);
+  const totalEnergy = integral[height * stride + width] || 1;
+
+  const subjectRects = subjects.map((subject) => ({
+    x: clamp(subject.x, 0, 1) * width,
+    y: clamp(subject.y, 0, 1) * height,
+    width: clamp(subject.width, 0, 1) * width,
+    height: clamp(subject.height, 0, 1) * height,
+  }));
+  const subjectWeights = subjects.map((subject) => Math.max(0, subject.weight ?? 1));
+  const useSubjects = subjectWeights.some((weight) => weight > 0);
+
+  let best: CropCandidate = { ratio, x: 0, y: 0, width: cropWidth, height: cropHeight, score: -1 };
+
+  for (let y = 0; y <= height - cropHeight; y++) {
+    for (let x = 0; x <= width - cropWidth; x++) {
+      const rect = { x, y, width: cropWidth, height: cropHeight };
+      const energyShare = windowSum(integral, stride, rect) / totalEnergy;
+      const score = useSubjects
+        ? (1 - SUBJECT_WEIGHT) * energyShare +
+          SUBJECT_WEIGHT * subjectCoverage(rect, subjectRects, subjectWeights)
+        : energyShare;
+
+      if (score > best.score) {
+        best = { ...rect, ratio, score };
+      }
+    }
+  }
+
+  return { ...best, score: Math.round(best.score * 1000) / 1000 };
+}
+
+export function findSmartCrops(
+  raster: RasterImage,
+  ratios: CropRatio[] = Object.keys(CROP_RATIOS) as CropRatio[],
+  subjects: SubjectRegion[] = []
+): CropCandidate[] {
+  const energy = computeEnergyMap(raster);
+  return ratios.map((ratio) => findSmartCrop(raster, ratio, subjects, energy));
+}
+
+/**
+ * Map a crop found on a downscaled preview back to source pixels,
+ * keeping it inside the source bounds.
+ */
+export function scaleCrop<T extends CropRect>(
+  crop: T,
+  preview: { width: number; height: number },
+  source: { width: number; height: number }
+): T {
+  const scaleX = source.width / preview.width;
+  const scaleY = source.height / preview.height;
+  const width = clamp(Math.round(crop.width * scaleX), 1, source.width);
+  const height = clamp(Math.round(crop.height * scaleY), 1, source.height);
+
+  return {
+    ...crop,
+    x: clamp(Math.round(crop.x * scaleX), 0, source.width - width),
+    y: clamp(Math.round(crop.y * scaleY), 0, source.height - height),
+    width,
+    height,
+  };
+}
@@ -0,0 +1,224 @@
+import { RasterImage, clamp, cloneRaster, createRaster, resizeRaster } from './raster';
+
+export type WatermarkAnchor =
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+  | 'center'
+  | 'tiled';
+
+interface WatermarkPlacement {
+  anchor?: WatermarkAnchor;
+  margin?: number; // fraction of the long edge
+  opacity?: number; // 0 to 1
+}
+
+export interface TextWatermark extends WatermarkPlacement {
+  type: 'text';
+  text: string;
+  fontSize?: number; // glyph height as a fraction of the long edge
+  color?: string; // #RGB or #RRGGBB
+}
+
+export interface LogoWatermark extends WatermarkPlacement {
+  type: 'logo';
+  logo: RasterImage;
+  scale?: number; // logo width as a fraction of the long edge
+}
+
+export type WatermarkOptions = TextWatermark | LogoWatermark;
+
+// Classic 5x7 bitmap font for printable ASCII (0x20-0x7E).
+// Each glyph is 5 columns, least significant bit is the top row.
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 8;
+const FONT_5X7 = [
+  0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x5f, 0x00, 0x00, 0x00, 0x07, 0x00, 0x07, 0x00,
+  0x14, 0x7f, 0x14, 0x7f, 0x14, 0x24, 0x2a, 0x7f, 0x2a, 0x12, 0x23, 0x13, 0x08, 0x64, 0x62,
+  0x36, 0x49, 0x55, 0x22, 0x50, 0x00, 0x05, 0x03, 0x00, 0x00, 0x00, 0x1c, 0x22, 0x41, 0x00,
+  0x00, 0x41, 0x22, 0x1c, 0x00, 0x08, 0x2a, 0x1c, 0x2a, 0x08, 0x08, 0x08, 0x3e, 0x08, 0x08,
+  0x00, 0x50, 0x30, 0x00, 0x00, 0x08, 0x08, 0x08, 0x08, 0x08, 0x00, 0x60, 0x60, 0x00, 0x00,
+  0x20, 0x10, 0x08, 0x04, 0x02, 0x3e, 0x51, 0x49, 0x45, 0x3e, 0x00, 0x42, 0x7f, 0x40, 0x00,
+  0x42, 0x61, 0x51, 0x49, 0x46, 0x21, 0x41, 0x45, 0x4b, 0x31, 0x18, 0x14, 0x12, 0x7f, 0x10,
+  0x27, 0x45, 0x45, 0x45, 0x39, 0x3c, 0x4a, 0x49, 0x49, 0x30, 0x01, 0x71, 0x09, 0x05, 0x03,
+  0x36, 0x49, 0x49, 0x49, 0x36, 0x06, 0x49, 0x49, 0x29, 0x1e, 0x00, 0x36, 0x36, 0x00, 0x00,
+  0x00, 0x56, 0x36, 0x00, 0x00, 0x00, 0x08, 0x14, 0x22, 0x41, 0x14, 0x14, 0x14, 0x14, 0x14,
+  0x41, 0x22, 0x14, 0x08, 0x00, 0x02, 0x01, 0x51, 0x09, 0x06, 0x32, 0x49, 0x79, 0x41, 0x3e,
+  0x7e, 0x11, 0x11, 0x11, 0x7e, 0x7f, 0x49, 0x49, 0x49, 0x36, 0x3e, 0x41, 0x41, 0x41, 0x22,
+  0x7f, 0x41, 0x41, 0x22, 0x1c, 0x7f, 0x49, 0x49, 0x49, 0x41, 0x7f, 0x09, 0x09, 0x01, 0x01,
+  0x3e, 0x41, 0x41, 0x51, 0x32, 0x7f, 0x08, 0x08, 0x08, 0x7f, 0x00, 0x41, 0x7f, 0x41, 0x00,
+  0x20, 0x40, 0x41, 0x3f, 0x01, 0x7f, 0x08, 0x14, 0x22, 0x41, 0x7f, 0x40, 0x40, 0x40, 0x40,
+  0x7f, 0x02, 0x04, 0x02, 0x7f, 0x7f, 0x04, 0x08, 0x10, 0x7f, 0x3e, 0x41, 0x41, 0x41, 0x3e,
+  0x7f, 0x09, 0x09, 0x09, 0x06, 0x3e, 0x41, 0x51, 0x21, 0x5e, 0x7f, 0x09, 0x19, 0x29, 0x46,
+  0x46, 0x49, 0x49, 0x49, 0x31, 0x01, 0x01, 0x7f, 0x01, 0x01, 0x3f, 0x40, 0x40, 0x40, 0x3f,
+  0x1f, 0x20, 0x40, 0x20, 0x1f, 0x7f, 0x20, 0x18, 0x20, 0x7f, 0x63, 0x14, 0x08, 0x14, 0x63,
+  0x03, 0x04, 0x78, 0x04, 0x03, 0x61, 0x51, 0x49, 0x45, 0x43, 0x00, 0x00, 0x7f, 0x41, 0x41,
+  0x02, 0x04, 0x08, 0x10, 0x20, 0x41, 0x41, 0x7f, 0x00, 0x00, 0x04, 0x02, 0x01, 0x02, 0x04,
+  0x40, 0x40, 0x40, 0x40, 0x40, 0x00, 0x01, 0x02, 0x04, 0x00, 0x20, 0x54, 0x54, 0x54, 0x78,
+  0x7f, 0x48, 0x44, 0x44, 0x38, 0x38, 0x44, 0x44, 0x44, 0x20, 0x38, 0x44, 0x44, 0x48, 0x7f,
+  0x38, 0x54, 0x54, 0x54, 0x18, 0x08, 0x7e, 0x09, 0x01, 0x02, 0x08, 0x14, 0x54, 0x54, 0x3c,
+  0x7f, 0x08, 0x04, 0x04, 0x78, 0x00, 0x44, 0x7d, 0x40, 0x00, 0x20, 0x40, 0x44, 0x3d, 0x00,
+  0x00, 0x7f, 0x10, 0x28, 0x44, 0x00, 0x41, 0x7f, 0x40, 0x00, 0x7c, 0x04, 0x18, 0x04, 0x78,
+  0x7c, 0x08, 0x04, 0x04, 0x78, 0x38, 0x44, 0x44, 0x44, 0x38, 0x7c, 0x14, 0x14, 0x14, 0x08,
+  0x08, 0x14, 0x14, 0x18, 0x7c, 0x7c, 0x08, 0x04, 0x04, 0x08, 0x48, 0x54, 0x54, 0x54, 0x20,
+  0x04, 0x3f, 0x44, 0x40, 0x20, 0x3c, 0x40, 0x40, 0x20, 0x7c, 0x1c, 0x20, 0x40, 0x20, 0x1c,
+  0x3c, 0x40, 0x30, 0x40, 0x3c, 0x44, 0x28, 0x10, 0x28, 0x44, 0x0c, 0x50, 0x50, 0x50, 0x3c,
+  0x44, 0x64, 0x54, 0x4c, 0x44, 0x00, 0x08, 0x36, 0x41, 0x00, 0x00, 0x00, 0x7f, 0x00, 0x00,
+  0x00, 0x41, 0x36, 0x08, 0x00, 0x02, 0x01, 0x02, 0x04, 0x02,
+];
+
+function isGlyphPixelSet(charCode: number, column: number, row: number): boolean {
+  if (charCode < 0x20 || charCode > 0x7e) charCode = 0x3f; // '?'
+  if (column < 0 || column >= GLYPH_WIDTH || row < 0 || row >= GLYPH_HEIGHT) return false;
+  return ((FONT_5X7[(charCode - 0x20) * GLYPH_WIDTH + column] >> row) & 1) === 1;
+}
+
+export function parseHexColor(color: string): [number, number, number] {
+  const hex = color.replace('#', '');
+  const expanded = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex;
+
+  if (!/^[0-9a-fA-F]{6}$/.test(expanded)) {
+    throw new Error(`Invalid color "${color}"`);
+  }
+
+  return [
+    parseInt(expanded.slice(0, 2), 16),
+    parseInt(expanded.slice(2, 4), 16),
+    parseInt(expanded.slice(4, 6), 16),
+  ];
+}
+
+/**
+ * Rasterize a single line of text with 4x4 supersampled anti-aliasing.
+ * The glyph cell is 6x8 font units (5 columns plus 1 column of spacing).
+ */
+export function renderText(text: string, glyphHeight: number, color: string): RasterImage {
+  const [r, g, b] = parseHexColor(color);
+  const unit = Math.max(1, glyphHeight) / GLYPH_HEIGHT;
+  const cellWidth = GLYPH_WIDTH + 1;
+  const characters = text.length > 0 ? text : ' ';
+  const width = Math.max(1, Math.ceil((characters.length * cellWidth - 1) * unit));
+  const height = Math.max(1, Math.ceil(GLYPH_HEIGHT * unit));
+  const raster = createRaster(width, height);
+  const { data } = raster;
+  const samples = 4;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let covered = 0;
+
+      for (let sy = 0; sy < samples; sy++) {
+        const fontY = Math.floor((y + (sy + 0.5) / samples) / unit);
+        for (let sx = 0; sx < samples; sx++) {
+          const fontX = Math.floor((x + (sx + 0.5) / samples) / unit);
+          const charIndex = Math.floor(fontX / cellWidth);
+          if (charIndex >= characters.length) continue;
+          if (isGlyphPixelSet(characters.charCodeAt(charIndex), fontX % cellWidth, fontY)) {
+            covered++;
+          }
+        }
+      }
+
+      const index = (y * width + x) * 4;
+      data[index] = r;
+      data[index + 1] = g;
+      data[index + 2] = b;
+      data[index + 3] = (covered / (samples * samples)) * 255;
+    }
+  }
+
+  return raster;
+}
+
+/**
+ * Source-over blend of an RGBA overlay onto the base at (left, top).
+ * Overlay pixels outside the base are clipped.
+ */
+export function compositeOver(
+  base: RasterImage,
+  overlay: RasterImage,
+  left: number,
+  top: number,
+  opacity: number = 1
+): void {
+  const amount = clamp(opacity, 0, 1);
+  const startX = Math.max(0, left);
+  const startY = Math.max(0, top);
+  const endX = Math.min(base.width, left + overlay.width);
+  const endY = Math.min(base.height, top + overlay.height);
+
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const o = ((y - top) * overlay.width + (x - left)) * 4;
+      const alpha = (overlay.data[o + 3] / 255) * amount;
+      if (alpha === 0) continue;
+
+      const i = (y * base.width + x) * 4;
+      base.data[i] = base.data[i] + (overlay.data[o] - base.data[i]) * alpha;
+      base.data[i + 1] = base.data[i + 1] + (overlay.data[o + 1] - base.data[i + 1]) * alpha;
+      base.data[i + 2] = base.data[i + 2] + (overlay.data[o + 2] - base.data[i + 2]) * alpha;
+    }
+  }
+}
+
+export function applyWatermark(raster: RasterImage, options: WatermarkOptions): RasterImage {
+  const output = cloneRaster(raster);
+  const longEdge = Math.max(raster.width, raster.height);
+  const anchor = options.anchor ?? 'bottom-right';
+  const margin = Math.round((options.margin ?? 0.03) * longEdge);
+  const opacity = options.opacity ?? 0.7;
+
+  let mark: RasterImage;
+  if (options.type === 'text') {
+    const glyphHeight = Math.max(8, (options.fontSize ?? 0.04) * longEdge);
+    mark = renderText(options.text, glyphHeight, options.color ?? '#FFFFFF');
+  } else {
+    const logoWidth = Math.max(1, (options.scale ?? 0.15) * longEdge);
+    const logoHeight = (logoWidth * options.logo.height) / options.logo.width;
+    mark = resizeRaster(options.logo, logoWidth, logoHeight);
+  }
+
+  if (anchor === 'tiled') {
+    const stepX = mark.width + margin * 2;
+    const stepY = mark.height + margin * 2;
+    for (let row = 0, y = margin; y < output.height; row++, y += stepY) {
+      // Offset alternate rows so the pattern reads as a diagonal lattice
+      const offset = row % 2 === 0 ? 0 : Math.round(stepX / 2);
+      for (let x = margin - offset; x < output.width; x += stepX) {
+        compositeOver(output, mark, x, y, opacity);
+      }
+    }
+    return output;
+  }
+
+  const { left, top } = anchorPosition(anchor, output, mark, margin);
+  compositeOver(output, mark, left, top, opacity);
+  return output;
+}
+
+function anchorPosition(
+  anchor: Exclude<WatermarkAnchor, 'tiled'>,
+  base: RasterImage,
+  mark: RasterImage,
+  margin: number
+): { left: number; top: number } {
+  const right = base.width - mark.width - margin;
+  const bottom = base.height - mark.height - margin;
+
+  switch (anchor) {
+    case 'top-left':
+      return { left: margin, top: margin };
+    case 'top-right':
+      return { left: right, top: margin };
+    case 'bottom-left':
+      return { left: margin, top: bottom };
+    case 'center':
+      return {
+        left: Math.round((base.width - mark.width) / 2),
+        top: Math.round((base.height - mark.height) / 2),
+      };
+    default:
+      return { left: right, top: bottom };
+  }
+}
@@ -0,0 +1,165 @@
+import * as FileSystem from 'expo-file-system';
+import type { ImageAnalysisResult } from './geminiService';
+import type { VisionProvider } from './visionProvider';
+import { loadRasterPreview, writeCachedImage } from './imaging/codec';
+import { analyzeComposition } from './imaging/composition';
+import { METRICS_PREVIEW_EDGE, PixelMetrics, exposureQuality, measurePixelMetrics } from './imaging/metrics';
+import { ColorFamily, classifyColor, extractPalette } from './imaging/palette';
+import { RasterImage } from './imaging/raster';
+
+interface ColorShare {
+  family: ColorFamily;
+  proportion: number;
+}
+
+// Color statistics can only guess the scene, so never claim more than this
+const LOCAL_CONFIDENCE = 0.3;
+// Share of blue and green that makes a wide frame a landscape
+const LANDSCAPE_COLOR_SHARE = 0.4;
+// Share of green that makes a frame a nature shot
+const NATURE_COLOR_SHARE = 0.35;
+
+const DARK_BRIGHTNESS = 30;
+const UNDEREXPOSED_BRIGHTNESS = 40;
+const OVEREXPOSED_BRIGHTNESS = 80;
+const BRIGHT_BRIGHTNESS = 65;
+const FLAT_CONTRAST = 15;
+const PUNCHY_CONTRAST = 20;
+const MUTED_SATURATION = 15;
+const VIVID_SATURATION = 45;
+const SOFT_SHARPNESS = 60;
+const NOISY = 30;
+
+/**
+ * Palette coverage per color family, largest first.
+ */
+function colorShares(raster: RasterImage): ColorShare[] {
+  const shares = new Map<ColorFamily, number>();
+  for (const swatch of extractPalette(raster)) {
+    const family = classifyColor(swatch.hex);
+    shares.set(family, (shares.get(family) ?? 0) + swatch.proportion);
+  }
+  return [...shares.entries()]
+    .map(([family, proportion]) => ({ family, proportion }))
+    .sort((a, b) => b.proportion - a.proportion);
+}
+
+function shareOf(colors: ColorShare[], families: ColorFamily[]): number {
+  return colors
+    .filter((color) => families.includes(color.family))
+    .reduce((sum, color) => sum + color.proportion, 0);
+}
+
+function classifyScene(raster: RasterImage, colors: ColorShare[]): string {
+  if (raster.width > raster.height && shareOf(colors, ['blue', 'teal', 'green']) >= LANDSCAPE_COLOR_SHARE) {
+    return 'landscape';
+  }
+  if (shareOf(colors, ['green']) >= NATURE_COLOR_SHARE) return 'nature';
+  return 'other';
+}
+
+function classifyMood(metrics: PixelMetrics): string {
+  if (metrics.brightness < DARK_BRIGHTNESS) {
+    return metrics.contrast >= PUNCHY_CONTRAST ? 'dramatic' : 'moody';
+  }
+  if (metrics.saturation >= VIVID_SATURATION) return 'vibrant';
+  if (metrics.brightness >= BRIGHT_BRIGHTNESS && metrics.contrast < PUNCHY_CONTRAST) return 'soft';
+  if (metrics.saturation < MUTED_SATURATION && metrics.contrast < FLAT_CONTRAST) return 'calm';
+  return 'neutral';
+}
+
+function suggestImprovements(metrics: PixelMetrics): string[] {
+  return [
+    metrics.brightness < UNDEREXPOSED_BRIGHTNESS && 'Brighten the underexposed image',
+    metrics.brightness > OVEREXPOSED_BRIGHTNESS && 'Pull back the bright highlights',
+    metrics.contrast < FLAT_CONTRAST && 'Add contrast to the flat tones',
+    metrics.saturation < MUTED_SATURATION && 'Boost the muted colors',
+    metrics.sharpness < SOFT_SHARPNESS && 'Sharpen soft details',
+    metrics.noise > NOISY && 'Reduce visible noise',
+  ].filter((improvement): improvement is string => !!improvement);
+}
+
+/**
+ * Analysis derived only from pixel statistics: scores from the measured
+ * metrics and composition, scene type from color coverage and mood from
+ * brightness, contrast and saturation. Nothing is recognized, so objects
+ * and subject boxes are left empty. The same raster always gives the
+ * same result.
+ */
+export function analyzeRaster(raster: RasterImage): ImageAnalysisResult {
+  const metrics = measurePixelMetrics(raster);
+  const colors = colorShares(raster);
+  const exposure = exposureQuality(metrics.brightness) / 100;
+  const sharpness = metrics.sharpness / 100;
+  const composition = analyzeComposition(raster).scores.overall / 100;
+  const overall = (exposure + sharpness + composition) / 3;
+  const round2 = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    imageType: classifyScene(raster, colors),
+    confidence: LOCAL_CONFIDENCE,
+    technicalQuality: {
+      exposure: round2(exposure),
+      sharpness: round2(sharpness),
+      composition: round2(composition),
+      overall: round2(overall),
+    },
+    detectedObjects: [],
+    subjectRegions: [],
+    mood: classifyMood(metrics),
+    suggestedImprovements: suggestImprovements(metrics),
+    editingIntensity: overall >= 0.75 ? 'light' : overall >= 0.5 ? 'medium' : 'heavy',
+  };
+}
+
+/**
+ * One-sentence caption from the same statistics, e.g. "A bright, vibrant
+ * landscape in blue and green tones."
+ */
+export function captionRaster(raster: RasterImage): string {
+  const metrics = measurePixelMetrics(raster);
+  const colors = colorShares(raster);
+  const scene = classifyScene(raster, colors);
+  const mood = classifyMood(metrics);
+
+  const light =
+    metrics.brightness < DARK_BRIGHTNESS ? 'dark' : metrics.brightness >= BRIGHT_BRIGHTNESS ? 'bright' : null;
+  const adjectives = [light, mood !== 'neutral' ? mood : null].filter((word): word is string => !!word);
+  const noun = scene === 'landscape' ? 'landscape' : scene === 'nature' ? 'nature shot' : 'photo';
+  const phrase = adjectives.length > 0 ? `${adjectives.join(', ')} ${noun}` : noun;
+  const article = /^[aeiou]/.test(phrase) ? 'An' : 'A';
+  const tones = colors.slice(0, 2).map((color) => color.family);
+
+  return tones.length > 0
+    ? `${article} ${phrase} in ${tones.join(' and ')} tones.`
+    : `${article} ${phrase}.`;
+}
+
+/**
+ * Offline provider for development and tests: works without a network or
+ * API key and answers deterministically from the image's pixels.
+ */
+export class LocalVisionProvider implements VisionProvider {
+  readonly name = 'local' as const;
+
+  async analyzeImage(imageBase64: string): Promise<ImageAnalysisResult> {
+    return analyzeRaster(await this.loadPreview(imageBase64));
+  }
+
+  async captionImage(imageBase64: string): Promise<string> {
+    return captionRaster(await this.loadPreview(imageBase64));
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true; // nothing to connect to
+  }
+
+  private async loadPreview(imageBase64: string): Promise<RasterImage> {
+    const uri = await writeCachedImage(imageBase64);
+    try {
+      return (await loadRasterPreview(uri, METRICS_PREVIEW_EDGE)).raster;
+    } finally {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import type { LutPresetInsert, LutPresetRow } from '../lib/database/queries/lut_presets';
+import { base64ToBytes, bytesToBase64 } from './imaging/codec';
+import { CubeLut, parseCubeLut, resampleLut } from './imaging/lut';
+
+export const LUT_PRESET_VERSION = 1;
+export const STORED_LUT_SIZE = 33;
+
+/**
+ * LUT preset, stored one per row in lut_presets. The lattice is quantized
+ * to 16-bit little-endian values and base64 encoded.
+ */
+export interface LutPreset {
+  id: string;
+  version: number;
+  name: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: string;
+  createdAt: string;
+}
+
+export type NewLutPreset = Omit<LutPreset, 'id' | 'createdAt'>; // the database assigns both
+
+const decodedLutCache = new Map<string, CubeLut>();
+
+export function createLutPreset(name: string, cubeText: string): NewLutPreset {
+  const parsed = parseCubeLut(cubeText);
+  const lut = parsed.size > STORED_LUT_SIZE ? resampleLut(parsed, STORED_LUT_SIZE) : parsed;
+
+  const bytes = new Uint8Array(lut.table.length * 2);
+  for (let i = 0; i < lut.table.length; i++) {
+    const value = Math.round(Math.max(0, Math.min(1, lut.table[i])) * 65535);
+    bytes[i * 2] = value & 0xff;
+    bytes[i * 2 + 1] = value >> 8;
+  }
+
+  return {
+    version: LUT_PRESET_VERSION,
+    name: name.trim() || lut.title,
+    size: lut.size,
+    domainMin: lut.domainMin,
+    domainMax: lut.domainMax,
+    table: bytesToBase64(bytes),
+  };
+}
+
+export function decodeLutPreset(preset: LutPreset): CubeLut {
+  const cached = decodedLutCache.get(preset.id);
+  if (cached) return cached;
+
+  const bytes = base64ToBytes(preset.table);
+  const expected = preset.size * preset.size * preset.size * 3;
+  if (bytes.length !== expected * 2) {
+    throw new Error(`LUT preset "${preset.name}" is corrupted`);
+  }
+
+  const table = new Float32Array(expected);
+  for (let i = 0; i < expected; i++) {
+    table[i] = (bytes[i * 2] | (bytes[i * 2 + 1] << 8)) / 65535;
+  }
+
+  const lut: CubeLut = {
+    title: preset.name,
+    size: preset.size,
+    domainMin: preset.domainMin,
+    domainMax: preset.domainMax,
+    table,
+  };
+  decodedLutCache.set(preset.id, lut);
+  return lut;
+}
+
+/**
+ * Drop a deleted preset's decoded lattice from memory.
+ */
+export function releaseLutPreset(presetId: string): void {
+  decodedLutCache.delete(presetId);
+}
+
+function isDomain(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every((item) => typeof item === 'number');
+}
+
+export function fromLutPresetRow(row: LutPresetRow): LutPreset | null {
+  if (!isDomain(row.domain_min) || !isDomain(row.domain_max)) return null;
+
+  return {
+    id: row.id,
+    version: row.schema_version,
+    name: row.name,
+    size: row.size,
+    domainMin: row.domain_min,
+    domainMax: row.domain_max,
+    table: row.table_data,
+    createdAt: row.created_at ?? new Date().toISOString(),
+  };
+}
+
+export function toLutPresetInsert(preset: NewLutPreset, userId: string): LutPresetInsert {
+  return {
+    user_id: userId,
+    schema_version: preset.version,
+    name: preset.name,
+    size: preset.size,
+    domain_min: preset.domainMin,
+    domain_max: preset.domainMax,
+    table_data: preset.table,
+  };
+}
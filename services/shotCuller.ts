@@ -0,0 +1,169 @@
+import * as FileSystem from 'expo-file-system';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../lib/database/types';
+import type { Image } from '../lib/database/queries/images';
+import { decodeAnalysisData } from './analysisData';
+import { runBatch } from './batchRunner';
+import { parseImageMetadata } from './imageMetadata';
+import { ImageService } from './imageService';
+import { loadRasterPreview } from './imaging/codec';
+import { analyzeComposition } from './imaging/composition';
+import { METRICS_PREVIEW_EDGE, exposureQuality, measurePixelMetrics } from './imaging/metrics';
+import { clusterTransitively, hammingDistance, isNearDuplicate } from './imaging/phash';
+
+/**
+ * 0-100 quality of one frame, higher is better for every field.
+ */
+export interface ShotQuality {
+  sharpness: number;
+  exposure: number;
+  composition: number;
+}
+
+export interface RankedShot {
+  image: Image;
+  quality: ShotQuality;
+  score: number; // weighted ShotQuality, 0-100
+  measured: boolean; // false when the pixels couldn't be read and Gemini's scores were used
+}
+
+export interface ShotGroup {
+  shots: RankedShot[]; // best first; shots[0] is the recommended pick
+}
+
+// Frames this close in capture time can belong to one burst
+const BURST_WINDOW_MS = 10 * 1000;
+// Without hashes, only frames this close count as the same burst
+const HASHLESS_BURST_WINDOW_MS = 2 * 1000;
+// Looser than the duplicate threshold: bursts reframe and subjects move
+const SIMILAR_PHASH_THRESHOLD = 22;
+
+const QUALITY_WEIGHTS: ShotQuality = { sharpness: 0.45, exposure: 0.3, composition: 0.25 };
+const CULL_CONCURRENCY = 2;
+
+/**
+ * Capture time from the camera metadata. Upload time says nothing about
+ * when a frame was shot, so frames without metadata have none.
+ */
+function captureTime(image: Image): number | null {
+  const capturedAt = parseImageMetadata(image.metadata)?.capturedAt;
+  if (!capturedAt) return null;
+
+  const time = Date.parse(capturedAt);
+  return Number.isNaN(time) ? null : time;
+}
+
+interface TimedImage {
+  image: Image;
+  time: number | null; // parsed once, since every pair is compared
+}
+
+function isSameScene({ image: a, time: timeA }: TimedImage, { image: b, time: timeB }: TimedImage): boolean {
+  const hashed = !!a.phash && !!a.dhash && !!b.phash && !!b.dhash;
+  if (hashed && isNearDuplicate({ phash: a.phash!, dhash: a.dhash! }, { phash: b.phash!, dhash: b.dhash! })) {
+    return true;
+  }
+
+  if (timeA === null || timeB === null) return false;
+
+  const gap = Math.abs(timeA - timeB);
+  return hashed
+    ? gap <= BURST_WINDOW_MS && hammingDistance(a.phash!, b.phash!) <= SIMILAR_PHASH_THRESHOLD
+    : gap <= HASHLESS_BURST_WINDOW_MS;
+}
+
+/**
+ * Group frames of the same scene: near-duplicates at any time, plus
+ * visually similar frames shot within a few seconds of each other. Matches
+ * are transitive, so a long burst ends up in one group. Carousel slides are
+ * left out, since they belong together by design. Only groups with at least
+ * two images are returned.
+ */
+export function groupSimilarShots(allImages: Image[]): Image[][] {
+  const images = allImages
+    .filter((image) => !image.carousel_id)
+    .map((image) => ({ image, time: captureTime(image) }));
+
+  return clusterTransitively(images, isSameScene).map((group) => group.map(({ image }) => image));
+}
+
+export function scoreShot(quality: ShotQuality): number {
+  return (Object.keys(QUALITY_WEIGHTS) as (keyof ShotQuality)[]).reduce(
+    (sum, key) => sum + QUALITY_WEIGHTS[key] * quality[key],
+    0
+  );
+}
+
+/**
+ * Gemini's stored ratings, for frames whose pixels couldn't be measured.
+ */
+function modelQuality(image: Image): ShotQuality {
+  const quality = decodeAnalysisData(image.analysis_data)?.technicalQuality;
+  return {
+    sharpness: (quality?.sharpness ?? 0.5) * 100,
+    exposure: (quality?.exposure ?? 0.5) * 100,
+    composition: (quality?.composition ?? 0.5) * 100,
+  };
+}
+
+export class ShotCuller {
+  private imageService: ImageService;
+
+  constructor(supabase: SupabaseClient<Database>) {
+    this.imageService = new ImageService(supabase);
+  }
+
+  /**
+   * Measure sharpness, exposure and composition on a preview of the original.
+   * Stops before decoding when `signal` aborted during the download.
+   */
+  async measureShot(image: Image, signal?: AbortSignal): Promise<ShotQuality> {
+    const localUri = await this.imageService.downloadToCache(image.original_url);
+    try {
+      if (signal?.aborted) {
+        throw new Error(`Measuring image ${image.id} was aborted`);
+      }
+      const { raster } = await loadRasterPreview(localUri, METRICS_PREVIEW_EDGE);
+      const metrics = measurePixelMetrics(raster);
+      const subjects = decodeAnalysisData(image.analysis_data)?.subjectRegions;
+
+      return {
+        sharpness: metrics.sharpness,
+        exposure: exposureQuality(metrics.brightness),
+        composition: analyzeComposition(raster, subjects).scores.overall,
+      };
+    } finally {
+      if (localUri !== image.original_url) {
+        await FileSystem.deleteAsync(localUri, { idempotent: true });
+      }
+    }
+  }
+
+  /**
+   * Group similar frames and rank each group best first. Frames that fail
+   * to measure are ranked on Gemini's scores instead of dropping out.
+   */
+  async findShotGroups(images: Image[], signal?: AbortSignal): Promise<ShotGroup[]> {
+    const groups = groupSimilarShots(images);
+    const members = groups.flat();
+
+    const results = await runBatch(members, (image, _index, itemSignal) => this.measureShot(image, itemSignal), {
+      concurrency: CULL_CONCURRENCY,
+      signal,
+    });
+    const shots = new Map<string, RankedShot>();
+    results.forEach((result) => {
+      const image = members[result.index];
+      if (result.status === 'rejected') {
+        console.warn(`Could not measure image ${image.id}:`, result.error.message);
+      }
+      const measured = result.status === 'fulfilled';
+      const quality = measured ? result.value : modelQuality(image);
+      shots.set(image.id, { image, quality, score: Math.round(scoreShot(quality)), measured });
+    });
+
+    return groups.map((group) => ({
+      shots: group.map((image) => shots.get(image.id)!).sort((a, b) => b.score - a.score),
+    }));
+  }
+}
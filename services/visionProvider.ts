@@ -0,0 +1,38 @@
+import { createGeminiService, type ImageAnalysisResult } from './geminiService';
+import { LocalVisionProvider } from './localVisionProvider';
+
+export type VisionProviderName = 'gemini' | 'local';
+
+/**
+ * Whatever looks at an image for the analysis pipeline. Every method takes
+ * an encoded image (JPEG or PNG) as base64. Providers that make requests
+ * should stop when `signal` aborts.
+ */
+export interface VisionProvider {
+  readonly name: VisionProviderName;
+  analyzeImage(imageBase64: string, signal?: AbortSignal): Promise<ImageAnalysisResult>;
+  captionImage(imageBase64: string): Promise<string>;
+  testConnection(): Promise<boolean>;
+}
+
+const VISION_PROVIDERS: VisionProviderName[] = ['gemini', 'local'];
+
+/**
+ * EXPO_PUBLIC_VISION_PROVIDER picks the provider. When it's unset, Gemini
+ * is used if an API key is configured and the offline provider otherwise.
+ */
+export function resolveVisionProviderName(): VisionProviderName {
+  const configured = process.env.EXPO_PUBLIC_VISION_PROVIDER;
+  if ((VISION_PROVIDERS as (string | undefined)[]).includes(configured)) {
+    return configured as VisionProviderName;
+  }
+  if (configured) {
+    console.warn(`Unknown vision provider "${configured}", using the default`);
+  }
+  return process.env.EXPO_PUBLIC_GEMINI_API_KEY ? 'gemini' : 'local';
+}
+
+// Factory function to create the configured provider
+export function createVisionProvider(name: VisionProviderName = resolveVisionProviderName()): VisionProvider {
+  return name === 'gemini' ? createGeminiService() : new LocalVisionProvider();
+}